@@ -1,21 +1,99 @@
 "use server";
 
-import * as cheerio from "cheerio";
-import type { CheerioAPI } from "cheerio";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { uploadToR2 } from "../lib/r2";
 import { db } from "../db";
 import {
+  collectionRecipes as collectionRecipesTable,
+  collections as collectionsTable,
+  householdInvites as householdInvitesTable,
+  householdMembers as householdMembersTable,
+  householdRecipes as householdRecipesTable,
+  households as householdsTable,
   ingredients as ingredientsTable,
   instructions as instructionsTable,
+  recipeImages as recipeImagesTable,
+  recipeRevisions as recipeRevisionsTable,
+  recipeShares as recipeSharesTable,
   recipes as recipesTable,
+  tagAliases as tagAliasesTable,
   userRecipes as userRecipesTable,
 } from "../db/schema";
-import { isInstagramUrl } from "../lib/instagram";
+import { runExtractors } from "../lib/extractors";
+import type { RecipeData } from "../lib/extractors";
+import {
+  authorizeRecipeMutation,
+  canViewRecipe,
+  denied,
+  isAdmin,
+  isUuid,
+  mutationTarget,
+  recipeVisibleTo,
+} from "../lib/auth/permissions";
+import type { MutationDenied } from "../lib/auth/permissions";
 import { auth } from "../lib/auth/server";
-
-const FETCH_TIMEOUT_MS = 10_000;
-const MAX_BODY_SIZE = 2 * 1024 * 1024; // 2MB
+import {
+  MAX_COLLECTION_DESCRIPTION,
+  MAX_COLLECTION_NAME,
+  nextPosition,
+  ownedCollection,
+} from "../lib/collections";
+import { validateCookingProgress } from "../lib/cooking-progress";
+import type {
+  CookingProgress,
+  CookingSession,
+} from "../lib/cooking-progress";
+import { cookingSession, saveCookingSession } from "../lib/cooking-sessions";
+import { effectiveTotalMinutes } from "../lib/durations";
+import { findUserFork, pullUpstream, visibleOriginal } from "../lib/forks";
+import {
+  addToHousehold,
+  createInvite,
+  findInvite,
+  householdRole,
+  MAX_HOUSEHOLD_NAME,
+  mayAddToHousehold,
+  ownerCount,
+  userHouseholds,
+} from "../lib/households";
+import type { HouseholdRole, UserHousehold } from "../lib/households";
+import {
+  ingredientsInStep,
+  parseIngredientLine,
+  stepIngredientsFromRows,
+} from "../lib/ingredients";
+import type { ParsedIngredient } from "../lib/ingredients";
+import { saveUnitPreferences } from "../lib/preferences";
+import { queryRecipeList } from "../lib/recipe-list";
+import type { RecipeListPage } from "../lib/recipe-list";
+import {
+  parseRecipeListParams,
+  searchParamsOf,
+} from "../lib/recipe-list-params";
+import { validateRecipeEdit } from "../lib/recipe-edit";
+import type { RecipeEdit } from "../lib/recipe-edit";
+import {
+  applySnapshot,
+  ensureBaseRevision,
+  recordRevision,
+} from "../lib/revisions";
+import type { RevisionAuthor } from "../lib/revisions";
+import { refreshSearchVector } from "../lib/search";
+import { shareToken, sharingEnabled } from "../lib/shares";
+import {
+  canonicalTags,
+  MAX_TAG,
+  mergeTags,
+  setTagParent,
+  tagKey,
+} from "../lib/tags";
+import { sectionNameAt, sectionsFromRows } from "../lib/sections";
+import { isUnitSystem } from "../lib/units";
+import type { UnitPreferences } from "../lib/units";
+import { DEFAULT_VISIBILITY, isRecipeVisibility } from "../lib/visibility";
+import type { RecipeVisibility } from "../lib/visibility";
+
+export type { RecipeData };
 
 function isValidUrl(url: string): boolean {
   try {
@@ -26,691 +104,239 @@ function isValidUrl(url: string): boolean {
   }
 }
 
-export type RecipeData = {
-  title: string;
-  description?: string;
-  ingredients: string[];
-  instructions: string[];
-  images: string[];
-  prepTime?: string;
-  cookTime?: string;
-  servings?: string;
-  sourceUrl: string;
-  tags?: string[];
-};
-
 function dbRecipeToRecipeData(result: {
   title: string;
   description: string | null;
   sourceUrl: string;
-  imageUrl: string | null;
   servings: string | null;
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  restMinutes: number | null;
+  totalMinutes: number | null;
+  images: { url: string }[];
   tags?: string[] | null;
-  ingredients: { name: string; quantity: string | null }[];
-  instructions: { content: string }[];
+  ingredients: (ParsedIngredient & { section: string | null })[];
+  instructions: {
+    content: string;
+    section: string | null;
+    ingredientIndexes: number[] | null;
+    ingredientsManual: boolean;
+  }[];
 }): RecipeData {
   return {
     title: result.title,
     description: result.description ?? undefined,
-    ingredients: result.ingredients.map((i) =>
-      i.quantity ? `${i.quantity} ${i.name}` : i.name,
-    ),
+    ingredients: result.ingredients.map((i) => i.text),
     instructions: result.instructions.map((i) => i.content),
-    images: result.imageUrl ? [result.imageUrl] : [],
+    parsedIngredients: result.ingredients.map(toParsedIngredient),
+    stepIngredients: stepIngredientsFromRows(
+      result.instructions,
+      result.ingredients,
+    ),
+    ingredientSections: sectionsFromRows(result.ingredients),
+    instructionSections: sectionsFromRows(result.instructions),
+    images: result.images.map((i) => i.url),
     servings: result.servings ?? undefined,
+    prepMinutes: result.prepMinutes ?? undefined,
+    cookMinutes: result.cookMinutes ?? undefined,
+    restMinutes: result.restMinutes ?? undefined,
+    totalMinutes: result.totalMinutes ?? undefined,
     sourceUrl: result.sourceUrl,
     tags: result.tags && result.tags.length > 0 ? result.tags : undefined,
   };
 }
 
-function extractMetaContent($: CheerioAPI): string {
-  const parts: string[] = [];
-
-  const ogDesc = $('meta[property="og:description"]').attr("content");
-  if (ogDesc?.trim()) parts.push(ogDesc.trim());
-
-  const ogTitle = $('meta[property="og:title"]').attr("content");
-  if (ogTitle?.trim() && !parts.includes(ogTitle.trim())) parts.push(ogTitle.trim());
-
-  const title = $("title").text().trim();
-  if (title && !parts.includes(title)) parts.push(title);
-
-  const metaDesc = $('meta[name="description"]').attr("content");
-  if (metaDesc?.trim() && !parts.includes(metaDesc.trim())) parts.push(metaDesc.trim());
-
-  const twitterDesc = $('meta[name="twitter:description"]').attr("content");
-  if (twitterDesc?.trim() && !parts.includes(twitterDesc.trim()))
-    parts.push(twitterDesc.trim());
-
-  const twitterTitle = $('meta[name="twitter:title"]').attr("content");
-  if (twitterTitle?.trim() && !parts.includes(twitterTitle.trim()))
-    parts.push(twitterTitle.trim());
-
-  $('script[type="application/ld+json"]').each((_, el) => {
-    try {
-      const json = JSON.parse($(el).html() ?? "{}") as Record<string, unknown>;
-      const extractFrom = (obj: Record<string, unknown> | unknown[]): void => {
-        if (Array.isArray(obj)) {
-          for (const item of obj) extractFrom(item as Record<string, unknown>);
-          return;
-        }
-        if (obj && typeof obj === "object") {
-          const o = obj as Record<string, unknown>;
-          for (const key of ["description", "caption", "articleBody", "name"]) {
-            const val = o[key];
-            if (typeof val === "string" && val.trim() && !parts.includes(val.trim()))
-              parts.push(val.trim());
-          }
-          for (const v of Object.values(o)) {
-            if (typeof v === "object" && v !== null) extractFrom(v as Record<string, unknown>);
-          }
-        }
-      };
-      extractFrom(json);
-    } catch {
-      // ignore invalid JSON-LD
-    }
-  });
-
-  return parts.join("\n\n").trim();
-}
-
-function parseIso8601Duration(duration: string): string {
-  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!match) return duration;
-  const hours = match[1] ? Number.parseInt(match[1]) : 0;
-  const minutes = match[2] ? Number.parseInt(match[2]) : 0;
-  const parts: string[] = [];
-  if (hours > 0) parts.push(`${hours} hr`);
-  if (minutes > 0) parts.push(`${minutes} min`);
-  return parts.length > 0 ? parts.join(" ") : duration;
-}
-
-function normalizeInstructions(raw: unknown): string[] {
-  if (!raw) return [];
-  if (typeof raw === "string") return [raw].filter(Boolean);
-  if (!Array.isArray(raw)) return [];
-  return raw
-    .map((item) => {
-      if (typeof item === "string") return item.trim();
-      if (typeof item === "object" && item !== null) {
-        const obj = item as Record<string, unknown>;
-        if (typeof obj.text === "string") return obj.text.trim();
-        if (typeof obj.name === "string") return obj.name.trim();
-        if (Array.isArray(obj.itemListElement)) {
-          return normalizeInstructions(obj.itemListElement).join(" ");
-        }
-      }
-      return "";
-    })
-    .filter(Boolean);
-}
-
-function normalizeImages(raw: unknown): string[] {
-  if (!raw) return [];
-  if (typeof raw === "string") return [raw];
-  if (Array.isArray(raw)) {
-    return raw.flatMap((item) => {
-      if (typeof item === "string") return [item];
-      if (typeof item === "object" && item !== null) {
-        const obj = item as Record<string, unknown>;
-        if (typeof obj.url === "string") return [obj.url];
-      }
-      return [];
-    });
-  }
-  if (typeof raw === "object" && raw !== null) {
-    const obj = raw as Record<string, unknown>;
-    if (typeof obj.url === "string") return [obj.url];
-  }
-  return [];
-}
-
-function extractRecipeFromJsonLd($: CheerioAPI): RecipeData | null {
-  const scripts = $('script[type="application/ld+json"]');
-  for (let i = 0; i < scripts.length; i++) {
-    const content = $(scripts[i]).html();
-    if (!content) continue;
-    try {
-      const parsed = JSON.parse(content);
-      const candidates: unknown[] = Array.isArray(parsed)
-        ? parsed
-        : parsed["@graph"]
-          ? parsed["@graph"]
-          : [parsed];
-
-      for (const candidate of candidates) {
-        if (typeof candidate !== "object" || candidate === null) continue;
-        const obj = candidate as Record<string, unknown>;
-        const type = obj["@type"];
-        const isRecipe =
-          type === "Recipe" ||
-          (Array.isArray(type) && type.includes("Recipe"));
-        if (!isRecipe) continue;
-
-        const title = typeof obj.name === "string" ? obj.name.trim() : "";
-        if (!title) continue;
-
-        const description =
-          typeof obj.description === "string"
-            ? obj.description.trim()
-            : undefined;
-
-        const ingredients = Array.isArray(obj.recipeIngredient)
-          ? (obj.recipeIngredient as unknown[])
-              .filter((x): x is string => typeof x === "string")
-              .map((x) => x.trim())
-              .filter(Boolean)
-          : [];
-
-        const instructions = normalizeInstructions(obj.recipeInstructions);
-        const images = normalizeImages(obj.image);
-
-        const prepTime =
-          typeof obj.prepTime === "string"
-            ? parseIso8601Duration(obj.prepTime)
-            : undefined;
-        const cookTime =
-          typeof obj.cookTime === "string"
-            ? parseIso8601Duration(obj.cookTime)
-            : undefined;
-
-        const servings =
-          typeof obj.recipeYield === "string"
-            ? obj.recipeYield
-            : Array.isArray(obj.recipeYield)
-              ? String(obj.recipeYield[0])
-              : undefined;
-
-        return {
-          title,
-          description,
-          ingredients,
-          instructions,
-          images,
-          prepTime,
-          cookTime,
-          servings,
-          sourceUrl: "",
-        };
-      }
-    } catch {
-      // malformed JSON-LD, continue to next script tag
-    }
-  }
-  return null;
+function toParsedIngredient(row: ParsedIngredient): ParsedIngredient {
+  return {
+    text: row.text,
+    quantityMin: row.quantityMin,
+    quantityMax: row.quantityMax,
+    unit: row.unit,
+    name: row.name,
+    note: row.note,
+  };
 }
 
-function extractRecipeHeuristic($: CheerioAPI, url: string): RecipeData {
-  const ogTitle = $('meta[property="og:title"]').attr("content");
-  const h1 = $("h1").first().text().trim();
-  const title = ogTitle || h1 || new URL(url).hostname;
-
-  const description =
-    $('meta[property="og:description"]').attr("content") ||
-    $('meta[name="description"]').attr("content") ||
-    undefined;
-
-  const ogImage = $('meta[property="og:image"]').attr("content");
-  const images = ogImage ? [ogImage] : [];
-
-  // Try to find ingredient-like list items
-  const ingredientCandidates: string[] = [];
-  $(
-    '[class*="ingredient" i], [id*="ingredient" i], [aria-label*="ingredient" i]',
-  ).each((_, el) => {
-    $(el)
-      .find("li")
-      .each((_, li) => {
-        const text = $(li).text().trim();
-        if (text) ingredientCandidates.push(text);
-      });
-  });
-
-  // Try to find instruction-like list items
-  const instructionCandidates: string[] = [];
-  $(
-    '[class*="instruction" i], [id*="instruction" i], [class*="direction" i], [id*="direction" i], [class*="step" i]',
-  ).each((_, el) => {
-    $(el)
-      .find("li, p")
-      .each((_, item) => {
-        const text = $(item).text().trim();
-        if (text) instructionCandidates.push(text);
-      });
-  });
+function revisionAuthor(user: {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+}): RevisionAuthor {
+  return { id: user.id, name: user.name || user.email || null };
+}
 
-  return {
-    title,
-    description,
-    ingredients: ingredientCandidates,
-    instructions: instructionCandidates,
-    images,
-    sourceUrl: url,
-  };
+// The formatter may hand back fractional or non-numeric minutes
+function wholeMinutes(value: number | null | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.round(value)
+    : null;
 }
 
 export type ParseResult =
   | { success: true; recipe: RecipeData; id: string }
   | { success: false; error: string };
 
-async function saveRecipe(recipe: RecipeData, userId?: string, createdBy?: string): Promise<string> {
-  // Check if this recipe URL already exists
-  const existing = await db.query.recipes.findFirst({
-    where: eq(recipesTable.sourceUrl, recipe.sourceUrl),
+/**
+ * The shared recipe already saved from `url` that `userId` may see, if any.
+ * Personal versions don't count, and neither do other people's private
+ * recipes: reusing those would show one user's copy to another.
+ */
+async function findSavedRecipe(url: string, userId: string | undefined) {
+  return db.query.recipes.findFirst({
+    where: and(
+      eq(recipesTable.sourceUrl, url),
+      isNull(recipesTable.forkedFromId),
+      recipeVisibleTo(userId ? { id: userId } : undefined),
+    ),
   });
+}
 
-  let recipeId: string;
-
+/**
+ * `created` is false when the URL had already been saved by someone. A new
+ * recipe is written in one transaction, with its "Added" revision, after
+ * `media` is uploaded; `images` are then its stored URLs.
+ */
+async function saveRecipe(
+  recipe: RecipeData,
+  author: RevisionAuthor,
+  extractor: string,
+  visibility: RecipeVisibility = DEFAULT_VISIBILITY,
+  media: Buffer[] = [],
+): Promise<{ recipeId: string; created: boolean; images: string[] }> {
+  // Check if this recipe URL already exists
+  const existing = await findSavedRecipe(
+    recipe.sourceUrl,
+    author.id ?? undefined,
+  );
   if (existing) {
-    recipeId = existing.id;
-  } else {
-    const [inserted] = await db
-      .insert(recipesTable)
-      .values({
-        title: recipe.title,
-        description: recipe.description ?? null,
-        sourceUrl: recipe.sourceUrl,
-        imageUrl: recipe.images[0] ?? null,
-        servings: recipe.servings ?? null,
-        rawCaption: recipe.description ?? "",
-        tags: recipe.tags ?? [],
-        createdBy: createdBy ?? null,
-      })
-      .returning({ id: recipesTable.id });
+    return { recipeId: existing.id, created: false, images: recipe.images };
+  }
+
+  // The id comes first so uploads can be keyed by it before the row exists
+  const recipeId = crypto.randomUUID();
+  const images =
+    media.length > 0
+      ? await Promise.all(
+          media.map((buf, i) => uploadRecipeImage(`${recipeId}/${i}`, buf)),
+        )
+      : recipe.images;
+  const tags = await canonicalTags(recipe.tags ?? []);
+  const parsed = recipe.ingredients.map(parseIngredientLine);
+
+  await db.transaction(async (tx) => {
+    await tx.insert(recipesTable).values({
+      id: recipeId,
+      title: recipe.title,
+      description: recipe.description ?? null,
+      sourceUrl: recipe.sourceUrl,
+      servings: recipe.servings ?? null,
+      prepMinutes: wholeMinutes(recipe.prepMinutes),
+      cookMinutes: wholeMinutes(recipe.cookMinutes),
+      restMinutes: wholeMinutes(recipe.restMinutes),
+      totalMinutes: wholeMinutes(effectiveTotalMinutes(recipe)),
+      rawCaption: recipe.description ?? "",
+      tags,
+      createdBy: author.name,
+      createdById: author.id,
+      extractor,
+      visibility,
+    });
 
-    recipeId = inserted.id;
+    if (images.length > 0) {
+      await tx.insert(recipeImagesTable).values(
+        images.map((url, i) => ({
+          recipeId,
+          url,
+          orderIndex: i,
+        })),
+      );
+    }
 
-    if (recipe.ingredients.length > 0) {
-      await db.insert(ingredientsTable).values(
-        recipe.ingredients.map((name, i) => ({
+    if (parsed.length > 0) {
+      await tx.insert(ingredientsTable).values(
+        parsed.map((ingredient, i) => ({
           recipeId,
-          name,
+          ...ingredient,
           orderIndex: i,
+          section: sectionNameAt(recipe.ingredientSections, i),
         })),
       );
     }
 
     if (recipe.instructions.length > 0) {
-      await db.insert(instructionsTable).values(
+      await tx.insert(instructionsTable).values(
         recipe.instructions.map((content, i) => ({
           recipeId,
           stepNumber: i + 1,
           content,
+          section: sectionNameAt(recipe.instructionSections, i),
+          ingredientIndexes: ingredientsInStep(content, parsed),
         })),
       );
     }
-  }
 
-  // Link recipe to user (ignore if already linked)
-  if (userId) {
-    await db
-      .insert(userRecipesTable)
-      .values({ userId, recipeId })
-      .onConflictDoNothing();
-  }
+    await refreshSearchVector(recipeId, tx);
+    await recordRevision(recipeId, author, "Added", tx);
+  });
 
-  return recipeId;
+  return { recipeId, created: true, images };
 }
 
-// ── Instagram caption parsing ──────────────────────────────────────
-
-const JUNK_RE =
-  /^(view all \d|like$|\d+ likes?$|liked by|add a comment|log in|sign up|comment\s+.{0,30}(send|dm|get)|follow\s+me|save\s+this|share\s+this|link\s+in\s+bio|tag\s+a\s+friend|double.?tap|dm\s+me|click\s+(the\s+)?link)/i;
-
-const HASHTAG_HEAVY_RE = /^[#@\s\p{Emoji}]+$/u;
+const NOT_YOURS_TO_SHARE =
+  "Only whoever added this recipe can put it in another household.";
 
-function cleanInstagramCaption(raw: string): string[] {
-  return raw
-    .split("\n")
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0)
-    .filter((l) => !JUNK_RE.test(l))
-    .filter((l) => !HASHTAG_HEAVY_RE.test(l))
-    // Lines that are >50% hashtags
-    .filter((l) => {
-      const tags = l.match(/#\S+/g);
-      if (!tags) return true;
-      const tagLen = tags.join("").length;
-      return tagLen / l.length < 0.5;
+/**
+ * Put a saved recipe in the user's own recipe box, or in a household's
+ * box when `householdId` is given (the caller checks membership). False
+ * when the recipe may not go in that household's box.
+ */
+async function linkRecipe(
+  recipeId: string,
+  userId: string,
+  householdId: string | null,
+): Promise<boolean> {
+  if (householdId) {
+    const recipe = await db.query.recipes.findFirst({
+      columns: { visibility: true, createdById: true },
+      where: eq(recipesTable.id, recipeId),
     });
-}
-
-function isJunkLine(line: string): boolean {
-  return /^(comment\s+.{0,30}(send|dm|get)|follow\s+me|save\s+this|share\s+this|link\s+in\s+bio|tag\s+a\s+friend|makros?\s+per|macros?\s+per)/i.test(line);
-}
-
-// Regex matching section headers in multiple languages (English + Swedish)
-const ING_HEADER_RE = /^(?:ingredients?|ingredienser)\b/i;
-const INS_HEADER_RE = /^(?:instructions?|directions?|method|steps?|how to make|preparation|tillagning|instruktioner|beredning|s[åa]h[äa]r\s+g[öo]r\s+(?:du|man)|metod)\b/i;
-const ING_INLINE_RE = /^(?:ingredients?|ingredienser)\s*[•\-*:]\s*(.*)/i;
-const INS_INLINE_RE = /^(?:instructions?|directions?|method|steps?|tillagning|instruktioner|beredning)\s*(\d+[.)]\s*.*)/i;
-
-// Extract servings count from patterns like "(6 portioner)" or "(4-6 servings)"
-function extractServingsFromLine(line: string): string | undefined {
-  const m = line.match(/\((\d+(?:[–\-]\d+)?)\s*(portioner?|portions?|servings?|personer?)\)/i);
-  return m ? `${m[1]} ${m[2]}` : undefined;
-}
-
-// Strip leading emoji characters from a string
-function stripLeadingEmoji(str: string): string {
-  return str.replace(/^[\p{Emoji_Presentation}\p{Extended_Pictographic}\s]+/u, "").trim() || str.trim();
-}
-
-/** Instagram embeds prepend the username as line 0. Detect and strip it. */
-function stripUsername(lines: string[]): string[] {
-  if (lines.length < 2) return lines;
-  const first = lines[0];
-  // Username: single word (or with dots/underscores), no spaces, short
-  if (/^[a-zA-Z_][a-zA-Z0-9._]{1,30}$/.test(first) && first.length <= 30) {
-    return lines.slice(1);
-  }
-  return lines;
-}
-
-// Multilingual measurement units
-const UNITS_RE =
-  /\b(msk|tsk|dl|cl|ml|l|krm|st|kopp|paket|tetra|nypa|burk|klyftor?|knippe|cup|cups|tbsp|tsp|tablespoons?|teaspoons?|oz|ounces?|lb|lbs?|pounds?|g|kg|bunch|clove|cloves?|cans?|pinch|dash|pint|quart|gallon|stick|sticks?|head|heads?)\b/i;
-
-const COOKING_VERBS_RE =
-  /\b(cook|bake|fry|saut[ée]|boil|simmer|stir|mix|chop|dice|slice|preheat|heat|add|pour|combine|whisk|fold|season|serve|drain|rinse|set aside|remove|place|spread|transfer|reduce|bring|roast|grill|broil|steam|blanch|marinate|toss|garnish|stek|koka|fräs|blanda|skär|hacka|rör|sjud|häll|servera|smaksätt|låt|vänd|avsluta|smält|sila|ringla|tillsätt|krydda|ha\s+i|lägg)\b/i;
-
-const PREP_WORDS_RE =
-  /,\s*(finhackad[ea]?|hackad[ea]?|skivad[ea]?|tärnad[ea]?|delad[ea]?|i\s+(bitar|skivor|mindre\s+bitar)|diced|chopped|sliced|minced|grated|julienned|crushed|sköljda|avrunna)\b/i;
-
-const SERVINGS_RE =
-  /^(\d+[-–]\d+|\d+)\s*(portioner|servings?|pers(oner)?|portions?)\.?$/i;
-
-const FRACTION_START_RE = /^(\d|½|¼|¾|⅓|⅔|⅛|⅜|⅝|⅞|\d+\/\d+|\d+[.,]\d+)/;
-
-// Swedish/English indefinite quantity words at line start
-const INDEF_QTY_RE =
-  /^(lite|en\s|ett\s|några|ev\b|eventuellt|a\s+few|some|a\s+handful|a\s+pinch|a\s+dash)/i;
-
-function scoreIngredient(line: string): number {
-  let score = 0;
-  if (FRACTION_START_RE.test(line)) score += 0.35;
-  if (INDEF_QTY_RE.test(line)) score += 0.25;
-  if (UNITS_RE.test(line)) score += 0.25;
-  if (line.length < 60) score += 0.15;
-  if (PREP_WORDS_RE.test(line)) score += 0.1;
-  if (/^[-•·◦▪⁃*]\s/.test(line)) score += 0.1;
-  // Lowercase start without number often means ingredient too ("olja, till stekning", "salt och peppar")
-  if (/^[a-zåäöüé]/.test(line) && line.length < 50) score += 0.1;
-  if (COOKING_VERBS_RE.test(line)) score -= 0.3;
-  if (line.length > 120) score -= 0.4;
-  return Math.max(0, Math.min(1, score));
-}
-
-function scoreInstruction(line: string): number {
-  let score = 0;
-  if (COOKING_VERBS_RE.test(line)) score += 0.3;
-  if (line.length > 60) score += 0.2;
-  if (/^\d+[.)]\s/.test(line)) score += 0.2;
-  if (/\b\d+\s*(min(ut[ea]r|utes?)?|tim(m?ar|e)|hours?|seconds?|sekunder)\b/i.test(line)) score += 0.1;
-  if (/\d+\s*°/i.test(line)) score += 0.1;
-  // Starts with uppercase imperative (common in instructions)
-  if (/^[A-ZÅÄÖ][a-zåäöé]+\s/.test(line) && line.length > 30) score += 0.1;
-  return Math.max(0, Math.min(1, score));
-}
-
-function extractServings(lines: string[]): { servings: string | undefined; filtered: string[] } {
-  let servings: string | undefined;
-  const filtered: string[] = [];
-  for (const line of lines) {
-    const m = SERVINGS_RE.exec(line);
-    if (m && !servings) {
-      servings = m[0];
-    } else {
-      filtered.push(line);
+    if (
+      !recipe ||
+      !(await mayAddToHousehold(householdId, recipe, { id: userId }))
+    ) {
+      return false;
     }
+    await addToHousehold(householdId, recipeId, userId);
+    return true;
   }
-  return { servings, filtered };
+  await db
+    .insert(userRecipesTable)
+    .values({ userId, recipeId })
+    .onConflictDoNothing();
+  return true;
 }
 
-function splitIntoSentences(text: string): string[] {
-  // Split on ". " followed by an uppercase letter, or on "! " / "? "
-  const sentences = text.split(/(?<=\.)\s+(?=[A-ZÅÄÖÜÉ])|(?<=[!?])\s+/);
-  return sentences.map((s) => s.trim()).filter((s) => s.length > 5);
+// Detect format from magic bytes: JPEG starts with FF D8, WebP with
+// "RIFF....WEBP", PNG with 89 "PNG"
+function imageExtension(buf: Buffer): "jpg" | "webp" | "png" | null {
+  if (buf[0] === 0xff && buf[1] === 0xd8) return "jpg";
+  if (buf.toString("ascii", 8, 12) === "WEBP") return "webp";
+  if (buf.toString("ascii", 1, 4) === "PNG") return "png";
+  return null;
 }
 
-function parseInstagramCaption(caption: string, sourceUrl: string): RecipeData {
-  let lines = cleanInstagramCaption(caption);
-  lines = stripUsername(lines);
-
-  const { servings: extractedServings, filtered } = extractServings(lines);
-  let servings: string | undefined = extractedServings;
-  lines = filtered;
-
-  // ── Strategy 1: Header-based parsing ──
-  const ingredientHeaderIdx = lines.findIndex((l) => ING_HEADER_RE.test(l));
-  const instructionHeaderIdx = lines.findIndex((l) => INS_HEADER_RE.test(l));
-
-  // Also detect inline section markers like "Ingredients• 1 can..." or "Tillagning: Finhacka..."
-  const inlineIngIdx = ingredientHeaderIdx < 0
-    ? lines.findIndex((l) => ING_INLINE_RE.test(l))
-    : -1;
-  const inlineInsIdx = instructionHeaderIdx < 0
-    ? lines.findIndex((l) => INS_INLINE_RE.test(l))
-    : -1;
-
-  const effectiveIngIdx = ingredientHeaderIdx >= 0 ? ingredientHeaderIdx : inlineIngIdx;
-  const effectiveInsIdx = instructionHeaderIdx >= 0 ? instructionHeaderIdx : inlineInsIdx;
-
-  if (effectiveIngIdx >= 0 || effectiveInsIdx >= 0) {
-    const headerStart = Math.min(
-      ...[effectiveIngIdx, effectiveInsIdx].filter((i) => i >= 0),
-    );
-
-    let title = "Instagram Recipe";
-    const descriptionLines: string[] = [];
-    const ingredients: string[] = [];
-    const instructions: string[] = [];
-
-    // Extract title and description from lines before the first section header.
-    if (headerStart > 0) {
-      // Prefer a later short line as the title over the first (often promo-heavy) line
-      let bestTitleIdx = 0;
-      for (let i = 1; i < headerStart; i++) {
-        const l = lines[i];
-        if (l.includes("@") || l.startsWith("#") || isJunkLine(l)) continue;
-        if (l.length < lines[bestTitleIdx].length && !l.includes("!") && !l.includes("?")) {
-          bestTitleIdx = i;
-        }
-      }
-
-      const rawTitle = lines[bestTitleIdx];
-      if (!servings) servings = extractServingsFromLine(rawTitle);
-      title = stripLeadingEmoji(rawTitle.replace(/\([^)]*(?:portioner?|portions?|servings?)[^)]*\)/i, "")).trim() || rawTitle;
-
-      for (let i = 0; i < headerStart; i++) {
-        if (i === bestTitleIdx) continue;
-        const l = lines[i];
-        if (!isJunkLine(l) && !l.startsWith("#") && !l.includes("@")) {
-          if (!servings) servings = extractServingsFromLine(l);
-          descriptionLines.push(stripLeadingEmoji(l));
-        }
-      }
-    }
-
-    // Determine ingredient/instruction ranges
-    const ingStart = effectiveIngIdx >= 0 ? effectiveIngIdx : -1;
-    const insStart = effectiveInsIdx >= 0 ? effectiveInsIdx : -1;
-
-    if (ingStart >= 0) {
-      const ingEnd = insStart > ingStart ? effectiveInsIdx : lines.length;
-      const headerLine = lines[ingStart];
-      const inlineSplit = ING_INLINE_RE.exec(headerLine);
-      const startOffset = inlineSplit ? ingStart : ingStart + 1;
-      if (inlineSplit?.[1]) ingredients.push(inlineSplit[1].trim());
-
-      for (let i = startOffset; i < ingEnd; i++) {
-        if (i === ingStart && inlineSplit) continue;
-        const line = lines[i].replace(/^[-•·◦▪⁃*]\s*/, "").trim();
-        if (line && !line.startsWith("#")) ingredients.push(line);
-      }
-    }
-
-    if (insStart >= 0) {
-      const insEnd = ingStart > insStart ? effectiveIngIdx : lines.length;
-      const headerLine = lines[insStart];
-      const inlineSplit = INS_INLINE_RE.exec(headerLine);
-      const startOffset = inlineSplit ? insStart : insStart + 1;
-      if (inlineSplit?.[1]) {
-        instructions.push(inlineSplit[1].replace(/^\d+[.):\s-]+/, "").trim());
-      }
-
-      for (let i = startOffset; i < insEnd; i++) {
-        if (i === insStart && inlineSplit) continue;
-        const line = lines[i]
-          .replace(/^(?:step\s*)?\d+[.):\s-]+/i, "")
-          .replace(/^[-•·◦▪⁃*]\s*/, "")
-          .trim();
-        if (!line || line.startsWith("#")) continue;
-        instructions.push(line);
-      }
-    }
-
-    return {
-      title: title.replace(/^[✨⭐🌟\s*]+|[✨⭐🌟\s*]+$/g, "").trim() || title,
-      description: descriptionLines.join("\n") || undefined,
-      ingredients,
-      instructions,
-      images: [],
-      servings,
-      sourceUrl,
-    };
-  }
-
-  // ── Strategy 2: Score-based classification ──
-  const scores = lines.map((l) => ({
-    line: l,
-    ing: scoreIngredient(l),
-    ins: scoreInstruction(l),
-  }));
-
-  // Find the longest cluster of consecutive ingredient-scored lines (score > 0.3)
-  let bestClusterStart = -1;
-  let bestClusterEnd = -1;
-  let clusterStart = -1;
-  for (let i = 0; i < scores.length; i++) {
-    if (scores[i].ing >= 0.3 && scores[i].ing > scores[i].ins) {
-      if (clusterStart < 0) clusterStart = i;
-    } else {
-      if (clusterStart >= 0 && i - clusterStart > bestClusterEnd - bestClusterStart) {
-        bestClusterStart = clusterStart;
-        bestClusterEnd = i;
-      }
-      clusterStart = -1;
-    }
-  }
-  // Check final cluster
-  if (clusterStart >= 0 && scores.length - clusterStart > bestClusterEnd - bestClusterStart) {
-    bestClusterStart = clusterStart;
-    bestClusterEnd = scores.length;
-  }
-
-  // Need at least 2 ingredient lines to count as a cluster
-  if (bestClusterStart >= 0 && bestClusterEnd - bestClusterStart < 2) {
-    bestClusterStart = -1;
-    bestClusterEnd = -1;
-  }
-
-  // Extend cluster forward: include short non-instruction lines until a clear instruction line
-  if (bestClusterStart >= 0 && bestClusterEnd < scores.length) {
-    let extended = bestClusterEnd;
-    for (let i = bestClusterEnd; i < scores.length; i++) {
-      const s = scores[i];
-      // Stop at clear instruction lines (long + cooking verbs)
-      if (s.ins >= 0.4) break;
-      // Include short lines that aren't clearly instructions
-      if (s.line.length < 60 && s.ins < 0.2) {
-        extended = i + 1;
-      } else {
-        break;
-      }
-    }
-    bestClusterEnd = extended;
-  }
-
-  // Extract title — prefer a decorated or all-caps-ish line early on
-  let titleIdx = 0;
-  for (let i = 0; i < Math.min(scores.length, 5); i++) {
-    const l = scores[i].line;
-    if (/[✨⭐🌟]/.test(l) || (l.length > 3 && l === l.toUpperCase())) {
-      titleIdx = i;
-      break;
-    }
-  }
-  const title = (scores[titleIdx]?.line ?? "Instagram Recipe")
-    .replace(/^[✨⭐🌟\s*]+|[✨⭐🌟\s*]+$/g, "")
-    .trim() || "Instagram Recipe";
-
-  const descriptionLines: string[] = [];
-  const ingredients: string[] = [];
-  const instructions: string[] = [];
-
-  if (bestClusterStart >= 0) {
-    // Description: lines between title and ingredient cluster
-    const descEnd = bestClusterStart;
-    for (let i = titleIdx + 1; i < descEnd; i++) {
-      const l = scores[i].line;
-      if (!l.startsWith("#") && l.length > 2) {
-        descriptionLines.push(l);
-      }
-    }
-
-    // Ingredients: the cluster
-    for (let i = bestClusterStart; i < bestClusterEnd; i++) {
-      const line = scores[i].line.replace(/^[-•·◦▪⁃*]\s*/, "").trim();
-      if (line) ingredients.push(line);
-    }
-
-    // Instructions: lines after the ingredient cluster
-    for (let i = bestClusterEnd; i < scores.length; i++) {
-      const l = scores[i].line;
-      if (l.startsWith("#")) continue;
-      // Long lines → split into sentences
-      if (l.length > 100) {
-        instructions.push(...splitIntoSentences(l));
-      } else {
-        const cleaned = l.replace(/^(?:step\s*)?\d+[.):\s-]+/i, "").trim();
-        if (cleaned) instructions.push(cleaned);
-      }
-    }
-  } else {
-    // No ingredient cluster found — fall back to bullet/number detection + scoring
-    for (let i = titleIdx + 1; i < scores.length; i++) {
-      const l = scores[i].line;
-      if (l.startsWith("#")) continue;
-      if (/^[-•·◦▪⁃*]\s/.test(l)) {
-        ingredients.push(l.replace(/^[-•·◦▪⁃*]\s*/, "").trim());
-      } else if (/^\d+[.)]\s/.test(l)) {
-        instructions.push(l.replace(/^\d+[.)]\s*/, "").trim());
-      } else if (scores[i].ins > 0.3 && l.length > 60) {
-        instructions.push(...splitIntoSentences(l));
-      } else {
-        descriptionLines.push(l);
-      }
-    }
-  }
-
-  return {
-    title,
-    description: descriptionLines.filter(Boolean).join("\n") || undefined,
-    ingredients,
-    instructions,
-    images: [],
-    servings,
-    sourceUrl,
-  };
+async function uploadRecipeImage(key: string, buf: Buffer): Promise<string> {
+  // Extracted media is PNG unless it says otherwise
+  const ext = imageExtension(buf) ?? "png";
+  const contentType = ext === "jpg" ? "image/jpeg" : `image/${ext}`;
+  return uploadToR2(`${key}.${ext}`, buf, contentType);
 }
 
 async function formatRecipeWithOpenAI(
   recipe: RecipeData,
   openaiKey: string,
 ): Promise<RecipeData> {
-  const prompt = `You are a recipe formatter. The following recipe was automatically parsed from a webpage or social media post. Clean it up and return a well-formatted version. Remove any non-essential content such as hashtags, promotional text, social media mentions, author bios, CTAs ("follow me for more", "link in bio", etc.), or filler sentences. Keep all actual recipe content: title, description (if present and useful), ingredients, and instructions. Do not invent or add anything not present in the original.
+  const prompt = `You are a recipe formatter. The following recipe was automatically parsed from a webpage or social media post. Clean it up and return a well-formatted version. Remove any non-essential content such as hashtags, promotional text, social media mentions, author bios, CTAs ("follow me for more", "link in bio", etc.), or filler sentences. Keep all actual recipe content: title, description (if present and useful), ingredients, and instructions. Do not invent or add anything not present in the original. Keep one entry per ingredient and per step in the original order; group headings such as "For the sauce" are given separately in ingredientSections/instructionSections and must not be added as items.
 
 Return a JSON object with these fields:
 - title: string
@@ -718,8 +344,10 @@ Return a JSON object with these fields:
 - ingredients: string[] (each item formatted as "quantity unit ingredient, preparation" where applicable)
 - instructions: string[] (clear numbered steps as plain strings, without the number prefix)
 - servings: string or null
-- prepTime: string or null
-- cookTime: string or null
+- prepMinutes: number of minutes or null
+- cookMinutes: number of minutes or null
+- restMinutes: number of minutes of resting, marinating or chilling, or null
+- totalMinutes: number of minutes or null
 
 Input recipe:
 ${JSON.stringify(recipe, null, 2)}`;
@@ -752,22 +380,40 @@ ${JSON.stringify(recipe, null, 2)}`;
   const parsed = JSON.parse(raw) as Partial<RecipeData> & {
     description?: string | null;
     servings?: string | null;
-    prepTime?: string | null;
-    cookTime?: string | null;
+    prepMinutes?: number | null;
+    cookMinutes?: number | null;
+    restMinutes?: number | null;
+    totalMinutes?: number | null;
   };
+  const ingredients =
+    Array.isArray(parsed.ingredients) && parsed.ingredients.length > 0
+      ? parsed.ingredients
+      : recipe.ingredients;
+  const instructions =
+    Array.isArray(parsed.instructions) && parsed.instructions.length > 0
+      ? parsed.instructions
+      : recipe.instructions;
   return {
     title: parsed.title || recipe.title,
     description: parsed.description ?? recipe.description,
-    ingredients: Array.isArray(parsed.ingredients) && parsed.ingredients.length > 0
-      ? parsed.ingredients
-      : recipe.ingredients,
-    instructions: Array.isArray(parsed.instructions) && parsed.instructions.length > 0
-      ? parsed.instructions
-      : recipe.instructions,
+    ingredients,
+    instructions,
+    // Section markers point at list indexes, so they only survive when the
+    // formatter kept the list length
+    ingredientSections:
+      ingredients.length === recipe.ingredients.length
+        ? recipe.ingredientSections
+        : undefined,
+    instructionSections:
+      instructions.length === recipe.instructions.length
+        ? recipe.instructionSections
+        : undefined,
     images: recipe.images,
     servings: parsed.servings ?? recipe.servings,
-    prepTime: parsed.prepTime ?? recipe.prepTime,
-    cookTime: parsed.cookTime ?? recipe.cookTime,
+    prepMinutes: parsed.prepMinutes ?? recipe.prepMinutes,
+    cookMinutes: parsed.cookMinutes ?? recipe.cookMinutes,
+    restMinutes: parsed.restMinutes ?? recipe.restMinutes,
+    totalMinutes: parsed.totalMinutes ?? recipe.totalMinutes,
     sourceUrl: recipe.sourceUrl,
   };
 }
@@ -780,7 +426,6 @@ export async function parseUrlAction(
   if (!session?.user) {
     return { success: false, error: "You must be signed in." };
   }
-  const createdBy = session.user.name || session.user.email;
   const userId = session.user.id;
 
   const urlInput = formData.get("url");
@@ -789,6 +434,14 @@ export async function parseUrlAction(
     const v = formData.get("openaiKey");
     return typeof v === "string" ? v.trim() : "";
   })();
+  const visibilityInput = formData.get("visibility");
+  const visibility = isRecipeVisibility(visibilityInput)
+    ? visibilityInput
+    : DEFAULT_VISIBILITY;
+  // "Save to": the user's own recipes, or one of their households
+  const saveToInput = formData.get("household");
+  const householdId =
+    typeof saveToInput === "string" && saveToInput ? saveToInput : null;
   console.log("[parseUrlAction] openaiKey present:", !!openaiKey, "| length:", openaiKey.length);
 
   if (!url) {
@@ -802,152 +455,56 @@ export async function parseUrlAction(
     };
   }
 
-  const existing = await db.query.recipes.findFirst({
-    where: eq(recipesTable.sourceUrl, url),
-    with: {
-      ingredients: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
-      instructions: { orderBy: (i, { asc }) => [asc(i.stepNumber)] },
-    },
-  });
-  if (existing) {
-    if (userId) {
-      await db
-        .insert(userRecipesTable)
-        .values({ userId, recipeId: existing.id })
-        .onConflictDoNothing();
-    }
-    const recipe = dbRecipeToRecipeData(existing);
-    return { success: true, recipe, id: existing.id };
+  if (householdId && !(await householdRole(householdId, userId))) {
+    return { success: false, error: "You're not a member of that household." };
   }
 
-  try {
-    if (isInstagramUrl(url)) {
-      const { headers: reqHeaders } = await import("next/headers");
-      const host = (await reqHeaders()).get("host") || "localhost:3000";
-      const protocol = host.startsWith("localhost") ? "http" : "https";
-      const res = await fetch(`${protocol}://${host}/api/instagram`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url }),
-      });
-      const data = (await res.json()) as
-        | { caption: string; imageBase64: string | null }
-        | { error: string };
-
-      if ("error" in data) {
-        return { success: false, error: data.error };
-      }
-
-      let recipe = parseInstagramCaption(data.caption, url);
-      if (openaiKey) {
-        recipe = await formatRecipeWithOpenAI(recipe, openaiKey);
-      }
-     const id = await saveRecipe(recipe, userId, createdBy); 
-
-      if (data.imageBase64) {
-        const buf = Buffer.from(data.imageBase64, "base64");
-        // Detect format from magic bytes: JPEG starts with FF D8, PNG with 89 50
-        const ext = buf[0] === 0xff && buf[1] === 0xd8 ? "jpg" : "png";
-        const contentType = ext === "jpg" ? "image/jpeg" : "image/png";
-        const imageUrl = await uploadToR2(
-          `${id}.${ext}`,
-          buf,
-          contentType,
-        );
-        recipe.images = [imageUrl];
-       await db
-          .update(recipesTable)
-          .set({ imageUrl })
-          .where(eq(recipesTable.id, id)); 
-      }
-
-      return { success: true, recipe, id };
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: `Could not fetch URL: ${response.status} ${response.statusText}`,
-      };
-    }
-
-    const contentType = response.headers.get("content-type") ?? "";
+  const existing = await findSavedRecipe(url, userId);
+  if (existing) {
+    // Someone who already has their own version gets that back
+    const forkId = await findUserFork(existing.id, userId);
     if (
-      !contentType.includes("text/html") &&
-      !contentType.includes("text/plain")
+      (!forkId || householdId) &&
+      !(await linkRecipe(forkId ?? existing.id, userId, householdId))
     ) {
-      return {
-        success: false,
-        error: "URL does not appear to be an HTML page.",
-      };
+      return { success: false, error: NOT_YOURS_TO_SHARE };
     }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      return { success: false, error: "Could not read response body." };
-    }
-
-    const chunks: Uint8Array[] = [];
-    let totalSize = 0;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      if (value) {
-        totalSize += value.length;
-        if (totalSize > MAX_BODY_SIZE) {
-          return {
-            success: false,
-            error: "Page content is too large.",
-          };
-        }
-        chunks.push(value);
-      }
+    const id = forkId ?? existing.id;
+    const saved = await db.query.recipes.findFirst({
+      where: eq(recipesTable.id, id),
+      with: {
+        images: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
+        ingredients: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
+        instructions: { orderBy: (i, { asc }) => [asc(i.stepNumber)] },
+      },
+    });
+    if (saved) {
+      return { success: true, recipe: dbRecipeToRecipeData(saved), id };
     }
+  }
 
-    const decoder = new TextDecoder("utf-8", { fatal: false });
-    const fullBuffer = new Uint8Array(totalSize);
-    let offset = 0;
-    for (const chunk of chunks) {
-      fullBuffer.set(chunk, offset);
-      offset += chunk.length;
-    }
-    const html = decoder.decode(fullBuffer);
-
-    const $ = cheerio.load(html);
-
-    const jsonLdRecipe = extractRecipeFromJsonLd($);
-    if (jsonLdRecipe) {
-      jsonLdRecipe.sourceUrl = url;
-      const formatted = openaiKey
-        ? await formatRecipeWithOpenAI(jsonLdRecipe, openaiKey)
-        : jsonLdRecipe;
-      const id = await saveRecipe(formatted, userId, createdBy);
-      return { success: true, recipe: formatted, id };
+  try {
+    const run = await runExtractors(url);
+    if (!run) {
+      return { success: false, error: "Could not extract a recipe from this URL." };
     }
 
-    // Remove noise before heuristic extraction
-    $("script, style, nav, footer, noscript, iframe").remove();
-    let recipe = extractRecipeHeuristic($, url);
+    let recipe = run.result.recipe;
     if (openaiKey) {
       recipe = await formatRecipeWithOpenAI(recipe, openaiKey);
     }
-    const id = await saveRecipe(recipe, userId, createdBy);
+    const { recipeId: id, images } = await saveRecipe(
+      recipe,
+      revisionAuthor(session.user),
+      run.extractor,
+      visibility,
+      run.result.media,
+    );
+    if (!(await linkRecipe(id, userId, householdId))) {
+      return { success: false, error: NOT_YOURS_TO_SHARE };
+    }
+    recipe.images = images;
+    recipe.parsedIngredients = recipe.ingredients.map(parseIngredientLine);
 
     return { success: true, recipe, id };
   } catch (err) {
@@ -964,26 +521,1208 @@ export async function parseUrlAction(
   }
 }
 
-export type UpdateTagsResult = { success: true } | { success: false; error: string };
+/**
+ * `recipeId` is where the change landed, which differs from the recipe
+ * edited when the edit created the user's own version of it.
+ */
+export type UpdateTagsResult =
+  | { success: true; recipeId: string }
+  | { success: false; error: string }
+  | MutationDenied;
 
 export async function updateRecipeTagsAction(
   recipeId: string,
   tags: string[],
 ): Promise<UpdateTagsResult> {
+  if (!Array.isArray(tags) || tags.some((t) => typeof t !== "string")) {
+    return { success: false, error: "Invalid tags." };
+  }
+
   try {
-    const normalized = tags.map((t) => t.trim()).filter(Boolean);
-    const unique = [...new Set(normalized)];
+    const unique = await canonicalTags(tags);
+
+    const access = await authorizeRecipeMutation(recipeId);
+    if (!access.ok) return access.denied;
+    const { user } = access;
+    const targetId = await mutationTarget(access);
+    await db.transaction(async (tx) => {
+      await ensureBaseRevision(targetId, tx);
+      await tx
+        .update(recipesTable)
+        .set({ tags: unique, updatedAt: new Date() })
+        .where(eq(recipesTable.id, targetId));
+      await refreshSearchVector(targetId, tx);
+      await recordRevision(targetId, revisionAuthor(user), "Edited tags", tx);
+    });
 
-    await db
-      .update(recipesTable)
-      .set({ tags: unique })
-      .where(eq(recipesTable.id, recipeId));
+    return { success: true, recipeId: targetId };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update tags",
+    };
+  }
+}
+
+export type PullUpstreamResult =
+  | { success: true }
+  | { success: false; error: string }
+  | MutationDenied;
 
+/** Bring the user's version of a recipe up to date with the original. */
+export async function pullUpstreamAction(
+  recipeId: string,
+): Promise<PullUpstreamResult> {
+  try {
+    const access = await authorizeRecipeMutation(recipeId);
+    if (!access.ok) return access.denied;
+    const { user } = access;
+    // Pulling into a version made just for it would change nothing
+    const targetId =
+      access.role === "saver"
+        ? await findUserFork(recipeId, user.id)
+        : recipeId;
+    const fork = targetId
+      ? await db.query.recipes.findFirst({
+          columns: { forkedFromId: true },
+          where: eq(recipesTable.id, targetId),
+        })
+      : undefined;
+    if (!targetId || !fork?.forkedFromId) {
+      return { success: false, error: "This is not your version of a recipe." };
+    }
+    // An original made private since is as good as gone to this user
+    if (!(await visibleOriginal(fork.forkedFromId, user))) {
+      return denied("not_found");
+    }
+
+    await db.transaction(async (tx) => {
+      await ensureBaseRevision(targetId, tx);
+      await pullUpstream(targetId, user, tx);
+      await recordRevision(
+        targetId,
+        revisionAuthor(user),
+        "Pulled changes from the original",
+        tx,
+      );
+    });
     return { success: true };
   } catch (err) {
     return {
       success: false,
-      error: err instanceof Error ? err.message : "Failed to update tags",
+      error: err instanceof Error ? err.message : "Failed to update recipe",
+    };
+  }
+}
+
+export type UpdateRecipeResult =
+  | { success: true; recipeId: string }
+  | { success: false; error: string }
+  | MutationDenied;
+
+/**
+ * Save the editor's changes. Like tag edits, changes to a recipe someone
+ * else added go to the user's own version of it.
+ */
+export async function updateRecipeAction(
+  recipeId: string,
+  edit: RecipeEdit,
+): Promise<UpdateRecipeResult> {
+  const checked = validateRecipeEdit(edit);
+  if (!checked.ok) return { success: false, error: checked.error };
+  const recipe = checked.value;
+
+  try {
+    const access = await authorizeRecipeMutation(recipeId);
+    if (!access.ok) return access.denied;
+    const { user } = access;
+    const targetId = await mutationTarget(access);
+    await db.transaction(async (tx) => {
+      await ensureBaseRevision(targetId, tx);
+
+      await tx
+        .update(recipesTable)
+        .set({
+          title: recipe.title,
+          description: recipe.description,
+          servings: recipe.servings,
+          prepMinutes: recipe.prepMinutes,
+          cookMinutes: recipe.cookMinutes,
+          restMinutes: recipe.restMinutes,
+          totalMinutes: effectiveTotalMinutes({
+            prepMinutes: recipe.prepMinutes ?? undefined,
+            cookMinutes: recipe.cookMinutes ?? undefined,
+            restMinutes: recipe.restMinutes ?? undefined,
+            totalMinutes: recipe.totalMinutes ?? undefined,
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(recipesTable.id, targetId));
+
+      await tx
+        .delete(ingredientsTable)
+        .where(eq(ingredientsTable.recipeId, targetId));
+      const parsed = recipe.ingredients.map(parseIngredientLine);
+      if (parsed.length > 0) {
+        await tx.insert(ingredientsTable).values(
+          parsed.map((ingredient, i) => ({
+            recipeId: targetId,
+            ...ingredient,
+            orderIndex: i,
+            section: sectionNameAt(recipe.ingredientSections, i),
+          })),
+        );
+      }
+
+      await tx
+        .delete(instructionsTable)
+        .where(eq(instructionsTable.recipeId, targetId));
+      if (recipe.instructions.length > 0) {
+        await tx.insert(instructionsTable).values(
+          recipe.instructions.map((content, i) => {
+            const picked = recipe.stepIngredients[i];
+            return {
+              recipeId: targetId,
+              stepNumber: i + 1,
+              content,
+              section: sectionNameAt(recipe.instructionSections, i),
+              ingredientIndexes: picked ?? ingredientsInStep(content, parsed),
+              ingredientsManual: picked !== null,
+            };
+          }),
+        );
+      }
+
+      await refreshSearchVector(targetId, tx);
+      await recordRevision(targetId, revisionAuthor(user), "Edited recipe", tx);
+    });
+
+    return { success: true, recipeId: targetId };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to save recipe",
+    };
+  }
+}
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Replace the recipe's cover image with an upload (form field "image").
+ * The rest of the gallery is kept.
+ */
+export async function replaceRecipeImageAction(
+  recipeId: string,
+  formData: FormData,
+): Promise<UpdateRecipeResult> {
+  const file = formData.get("image");
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: "Please choose an image." };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { success: false, error: "Images can be at most 10 MB." };
+  }
+  const buf = Buffer.from(await file.arrayBuffer());
+  if (!imageExtension(buf)) {
+    return { success: false, error: "Only JPEG, PNG and WebP images are supported." };
+  }
+
+  try {
+    const access = await authorizeRecipeMutation(recipeId);
+    if (!access.ok) return access.denied;
+    const { user } = access;
+    const targetId = await mutationTarget(access);
+    // A new key each time so cached copies of the old cover aren't served
+    const url = await uploadRecipeImage(`${targetId}/cover-${Date.now()}`, buf);
+
+    await db.transaction(async (tx) => {
+      await ensureBaseRevision(targetId, tx);
+      const cover = await tx.query.recipeImages.findFirst({
+        where: eq(recipeImagesTable.recipeId, targetId),
+        orderBy: (i, { asc }) => [asc(i.orderIndex)],
+      });
+      if (cover) {
+        await tx
+          .update(recipeImagesTable)
+          .set({ url })
+          .where(eq(recipeImagesTable.id, cover.id));
+      } else {
+        await tx
+          .insert(recipeImagesTable)
+          .values({ recipeId: targetId, url, orderIndex: 0 });
+      }
+      await tx
+        .update(recipesTable)
+        .set({ updatedAt: new Date() })
+        .where(eq(recipesTable.id, targetId));
+      await recordRevision(
+        targetId,
+        revisionAuthor(user),
+        "Replaced image",
+        tx,
+      );
+    });
+
+    return { success: true, recipeId: targetId };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to upload image",
     };
   }
 }
+
+/**
+ * Put a recipe back the way an earlier revision recorded it. The restore
+ * is itself a new revision, so it can be undone the same way.
+ */
+export async function restoreRevisionAction(
+  recipeId: string,
+  revisionId: string,
+): Promise<UpdateRecipeResult> {
+  try {
+    const access = await authorizeRecipeMutation(recipeId);
+    if (!access.ok) return access.denied;
+    const { user } = access;
+
+    const revision = isUuid(revisionId)
+      ? await db.query.recipeRevisions.findFirst({
+          where: and(
+            eq(recipeRevisionsTable.id, revisionId),
+            eq(recipeRevisionsTable.recipeId, recipeId),
+          ),
+        })
+      : undefined;
+    if (!revision) {
+      return { success: false, error: "Revision not found." };
+    }
+    const targetId = await mutationTarget(access);
+
+    await db.transaction(async (tx) => {
+      await ensureBaseRevision(targetId, tx);
+      await applySnapshot(targetId, revision.snapshot, tx);
+      await recordRevision(
+        targetId,
+        revisionAuthor(user),
+        `Restored the version from ${revision.createdAt.toISOString().slice(0, 10)}`,
+        tx,
+      );
+    });
+    return { success: true, recipeId: targetId };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to restore revision",
+    };
+  }
+}
+
+export type UpdateVisibilityResult =
+  | { success: true }
+  | { success: false; error: string }
+  | MutationDenied;
+
+/** Only whoever added the recipe (or an admin) decides who can see it. */
+export async function updateRecipeVisibilityAction(
+  recipeId: string,
+  visibility: RecipeVisibility,
+): Promise<UpdateVisibilityResult> {
+  if (!isRecipeVisibility(visibility)) {
+    return { success: false, error: "Invalid visibility." };
+  }
+  try {
+    const access = await authorizeRecipeMutation(recipeId, { ownerOnly: true });
+    if (!access.ok) return access.denied;
+
+    await db
+      .update(recipesTable)
+      .set({ visibility, updatedAt: new Date() })
+      .where(eq(recipesTable.id, access.recipeId));
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error:
+        err instanceof Error ? err.message : "Failed to update visibility",
+    };
+  }
+}
+
+export type RecipePageResult =
+  | { success: true; page: RecipeListPage }
+  | { success: false; error: string };
+
+/**
+ * Next page of /recipes for infinite scroll. `query` is the list's query
+ * string (see recipesQuery) and is parsed like the page's own URL.
+ */
+export async function loadRecipePageAction(
+  query: string,
+  cursor: string,
+): Promise<RecipePageResult> {
+  if (typeof query !== "string" || typeof cursor !== "string") {
+    return { success: false, error: "Invalid request." };
+  }
+  try {
+    const params = parseRecipeListParams(searchParamsOf(query));
+    const { data: session } = await auth.getSession();
+    return {
+      success: true,
+      page: await queryRecipeList(params, session?.user?.id, cursor),
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load recipes",
+    };
+  }
+}
+
+export type HouseholdResult =
+  | { success: true }
+  | { success: false; error: string };
+
+type HouseholdAccess =
+  | {
+      ok: true;
+      user: { id: string; name: string; email: string };
+      role: HouseholdRole;
+    }
+  | { ok: false; error: string };
+
+/** The signed-in user and their role, if they belong to the household. */
+async function householdAccess(
+  householdId: string,
+  { ownerOnly = false }: { ownerOnly?: boolean } = {},
+): Promise<HouseholdAccess> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { ok: false, error: "You must be signed in." };
+  const role = await householdRole(householdId, session.user.id);
+  if (!role) return { ok: false, error: "Household not found." };
+  if (ownerOnly && role !== "owner") {
+    return { ok: false, error: "Only owners can manage the household." };
+  }
+  return { ok: true, user: session.user, role };
+}
+
+function householdName(
+  input: unknown,
+): { ok: true; value: string } | { ok: false; error: string } {
+  const name = typeof input === "string" ? input.trim() : "";
+  if (!name) return { ok: false, error: "Name is required." };
+  if (name.length > MAX_HOUSEHOLD_NAME) {
+    return {
+      ok: false,
+      error: `Name must be at most ${MAX_HOUSEHOLD_NAME} characters.`,
+    };
+  }
+  return { ok: true, value: name };
+}
+
+/** Households of the signed-in user, for "Save to" choices. */
+export async function myHouseholdsAction(): Promise<UserHousehold[]> {
+  const { data: session } = await auth.getSession();
+  return session?.user ? userHouseholds(session.user.id) : [];
+}
+
+export async function createHouseholdAction(
+  name: string,
+): Promise<
+  { success: true; householdId: string } | { success: false; error: string }
+> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user)
+    return { success: false, error: "You must be signed in." };
+  const checked = householdName(name);
+  if (!checked.ok) return { success: false, error: checked.error };
+
+  const [household] = await db
+    .insert(householdsTable)
+    .values({ name: checked.value })
+    .returning({ id: householdsTable.id });
+  await db.insert(householdMembersTable).values({
+    householdId: household.id,
+    userId: session.user.id,
+    userName: session.user.name || session.user.email,
+    role: "owner",
+  });
+  return { success: true, householdId: household.id };
+}
+
+export async function renameHouseholdAction(
+  householdId: string,
+  name: string,
+): Promise<HouseholdResult> {
+  const access = await householdAccess(householdId, { ownerOnly: true });
+  if (!access.ok) return { success: false, error: access.error };
+  const checked = householdName(name);
+  if (!checked.ok) return { success: false, error: checked.error };
+
+  await db
+    .update(householdsTable)
+    .set({ name: checked.value })
+    .where(eq(householdsTable.id, householdId));
+  return { success: true };
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Invite by link, or by email when `email` is given. Nothing is sent: an
+ * email invite waits on /households for whoever signs in with that address,
+ * and its link only works for them.
+ */
+export async function createHouseholdInviteAction(
+  householdId: string,
+  email: string | null,
+): Promise<
+  { success: true; token: string } | { success: false; error: string }
+> {
+  const access = await householdAccess(householdId, { ownerOnly: true });
+  if (!access.ok) return { success: false, error: access.error };
+  const address = typeof email === "string" ? email.trim() : "";
+  if (address && !EMAIL_RE.test(address)) {
+    return { success: false, error: "Invalid email address." };
+  }
+
+  const token = await createInvite(
+    householdId,
+    access.user.id,
+    address || null,
+  );
+  return { success: true, token };
+}
+
+export async function revokeHouseholdInviteAction(
+  inviteId: string,
+): Promise<HouseholdResult> {
+  if (!isUuid(inviteId)) return { success: false, error: "Invite not found." };
+  const invite = await db.query.householdInvites.findFirst({
+    columns: { householdId: true },
+    where: eq(householdInvitesTable.id, inviteId),
+  });
+  if (!invite) return { success: false, error: "Invite not found." };
+  const access = await householdAccess(invite.householdId, { ownerOnly: true });
+  if (!access.ok) return { success: false, error: access.error };
+
+  await db
+    .delete(householdInvitesTable)
+    .where(eq(householdInvitesTable.id, inviteId));
+  return { success: true };
+}
+
+export async function acceptHouseholdInviteAction(
+  token: string,
+): Promise<
+  { success: true; householdId: string } | { success: false; error: string }
+> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user)
+    return { success: false, error: "You must be signed in." };
+  const invite =
+    typeof token === "string" ? await findInvite(token) : undefined;
+  if (!invite) {
+    return { success: false, error: "This invite has expired or was revoked." };
+  }
+  if (invite.email && invite.email !== session.user.email.toLowerCase()) {
+    return {
+      success: false,
+      error: `This invite is for ${invite.email}. Sign in with that address to accept it.`,
+    };
+  }
+
+  await db
+    .insert(householdMembersTable)
+    .values({
+      householdId: invite.householdId,
+      userId: session.user.id,
+      userName: session.user.name || session.user.email,
+    })
+    .onConflictDoNothing();
+  // Invite links can be shared with the whole family; email invites are single use
+  if (invite.email) {
+    await db
+      .delete(householdInvitesTable)
+      .where(eq(householdInvitesTable.id, invite.id));
+  }
+  return { success: true, householdId: invite.householdId };
+}
+
+/**
+ * Leave the household (`memberId` is yourself) or, as an owner, remove
+ * someone. The last owner can't go while others remain; when the last
+ * member leaves the household is deleted with its recipe box.
+ */
+export async function removeHouseholdMemberAction(
+  householdId: string,
+  memberId: string,
+): Promise<HouseholdResult> {
+  const access = await householdAccess(householdId);
+  if (!access.ok) return { success: false, error: access.error };
+  const leaving = memberId === access.user.id;
+  if (!leaving && access.role !== "owner") {
+    return { success: false, error: "Only owners can manage the household." };
+  }
+  const memberRole = await householdRole(householdId, memberId);
+  if (!memberRole) return { success: false, error: "Member not found." };
+
+  const members = await db.query.householdMembers.findMany({
+    columns: { userId: true },
+    where: eq(householdMembersTable.householdId, householdId),
+  });
+  if (members.length === 1) {
+    await db.delete(householdsTable).where(eq(householdsTable.id, householdId));
+    return { success: true };
+  }
+  if (memberRole === "owner" && (await ownerCount(householdId)) === 1) {
+    return {
+      success: false,
+      error: "Make someone else an owner before the last owner leaves.",
+    };
+  }
+
+  await db
+    .delete(householdMembersTable)
+    .where(
+      and(
+        eq(householdMembersTable.householdId, householdId),
+        eq(householdMembersTable.userId, memberId),
+      ),
+    );
+  return { success: true };
+}
+
+export async function setHouseholdRoleAction(
+  householdId: string,
+  memberId: string,
+  role: HouseholdRole,
+): Promise<HouseholdResult> {
+  if (role !== "owner" && role !== "member") {
+    return { success: false, error: "Invalid role." };
+  }
+  const access = await householdAccess(householdId, { ownerOnly: true });
+  if (!access.ok) return { success: false, error: access.error };
+  const current = await householdRole(householdId, memberId);
+  if (!current) return { success: false, error: "Member not found." };
+  if (
+    current === "owner" &&
+    role === "member" &&
+    (await ownerCount(householdId)) === 1
+  ) {
+    return { success: false, error: "A household needs at least one owner." };
+  }
+
+  await db
+    .update(householdMembersTable)
+    .set({ role })
+    .where(
+      and(
+        eq(householdMembersTable.householdId, householdId),
+        eq(householdMembersTable.userId, memberId),
+      ),
+    );
+  return { success: true };
+}
+
+/** Add a recipe to, or take it out of, a household's recipe box. */
+export async function setHouseholdRecipeAction(
+  householdId: string,
+  recipeId: string,
+  saved: boolean,
+): Promise<HouseholdResult> {
+  const access = await householdAccess(householdId);
+  if (!access.ok) return { success: false, error: access.error };
+  if (!isUuid(recipeId)) return { success: false, error: "Recipe not found." };
+
+  if (!saved) {
+    await db
+      .delete(householdRecipesTable)
+      .where(
+        and(
+          eq(householdRecipesTable.householdId, householdId),
+          eq(householdRecipesTable.recipeId, recipeId),
+        ),
+      );
+    return { success: true };
+  }
+
+  const recipe = await db.query.recipes.findFirst({
+    columns: { id: true, visibility: true, createdById: true },
+    where: eq(recipesTable.id, recipeId),
+  });
+  if (!recipe || !(await canViewRecipe(recipe, access.user))) {
+    return { success: false, error: "Recipe not found." };
+  }
+  if (!(await mayAddToHousehold(householdId, recipe, access.user))) {
+    return { success: false, error: NOT_YOURS_TO_SHARE };
+  }
+  await addToHousehold(householdId, recipeId, access.user.id);
+  return { success: true };
+}
+
+export type ShareLinkResult =
+  | { success: true; shareId: string; token: string }
+  | { success: false; error: string };
+
+const MAX_SHARE_DAYS = 365;
+
+/**
+ * Create a public link to the recipe, valid for `expiresInDays` or until
+ * revoked. Anyone who can see a public recipe may share it; recipes with
+ * narrower visibility only by whoever added them (or an admin).
+ */
+export async function createShareLinkAction(
+  recipeId: string,
+  expiresInDays: number | null,
+): Promise<ShareLinkResult> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { success: false, error: "You must be signed in." };
+  const user = session.user;
+  if (!sharingEnabled()) {
+    return { success: false, error: "Share links aren't set up here." };
+  }
+  if (
+    expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > MAX_SHARE_DAYS)
+  ) {
+    return {
+      success: false,
+      error: `Links can last at most ${MAX_SHARE_DAYS} days.`,
+    };
+  }
+  if (!isUuid(recipeId)) return { success: false, error: "Recipe not found." };
+
+  const recipe = await db.query.recipes.findFirst({
+    columns: { id: true, visibility: true, createdById: true },
+    where: eq(recipesTable.id, recipeId),
+  });
+  if (!recipe || !(await canViewRecipe(recipe, user))) {
+    return { success: false, error: "Recipe not found." };
+  }
+  if (
+    recipe.visibility !== "public" &&
+    recipe.createdById !== user.id &&
+    !isAdmin(user)
+  ) {
+    return {
+      success: false,
+      error: "Only whoever added this recipe can share it publicly.",
+    };
+  }
+
+  try {
+    const [share] = await db
+      .insert(recipeSharesTable)
+      .values({
+        recipeId,
+        createdById: user.id,
+        expiresAt:
+          expiresInDays === null
+            ? null
+            : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      })
+      .returning({ id: recipeSharesTable.id });
+    return { success: true, shareId: share.id, token: shareToken(share.id) };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to create link",
+    };
+  }
+}
+
+export type RevokeShareLinkResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/** Whoever made the link, whoever added the recipe, or an admin. */
+export async function revokeShareLinkAction(
+  shareId: string,
+): Promise<RevokeShareLinkResult> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { success: false, error: "You must be signed in." };
+  if (!isUuid(shareId)) return { success: false, error: "Link not found." };
+
+  const share = await db.query.recipeShares.findFirst({
+    where: eq(recipeSharesTable.id, shareId),
+    with: { recipe: { columns: { createdById: true } } },
+  });
+  if (!share) return { success: false, error: "Link not found." };
+  if (
+    share.createdById !== session.user.id &&
+    share.recipe.createdById !== session.user.id &&
+    !isAdmin(session.user)
+  ) {
+    return { success: false, error: "You can't revoke this link." };
+  }
+
+  await db
+    .update(recipeSharesTable)
+    .set({ revokedAt: new Date() })
+    .where(eq(recipeSharesTable.id, shareId));
+  return { success: true };
+}
+
+export type CollectionResult =
+  | { success: true }
+  | { success: false; error: string };
+
+export type CollectionFields = { name: string; description: string };
+
+function checkCollectionFields(
+  input: unknown,
+):
+  | { ok: true; value: { name: string; description: string | null } }
+  | { ok: false; error: string } {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  const description =
+    typeof fields.description === "string" ? fields.description.trim() : "";
+  if (!name) return { ok: false, error: "Name is required." };
+  if (name.length > MAX_COLLECTION_NAME) {
+    return {
+      ok: false,
+      error: `Name must be at most ${MAX_COLLECTION_NAME} characters.`,
+    };
+  }
+  if (description.length > MAX_COLLECTION_DESCRIPTION) {
+    return {
+      ok: false,
+      error: `Description must be at most ${MAX_COLLECTION_DESCRIPTION} characters.`,
+    };
+  }
+  return { ok: true, value: { name, description: description || null } };
+}
+
+/** The signed-in user's collection; collections are only their owner's. */
+async function collectionAccess(collectionId: string) {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) {
+    return { ok: false as const, error: "You must be signed in." };
+  }
+  const collection = await ownedCollection(collectionId, session.user.id);
+  if (!collection) return { ok: false as const, error: "Collection not found." };
+  return { ok: true as const, user: session.user, collection };
+}
+
+async function touchCollection(collectionId: string): Promise<void> {
+  await db
+    .update(collectionsTable)
+    .set({ updatedAt: new Date() })
+    .where(eq(collectionsTable.id, collectionId));
+}
+
+/** Create a collection, optionally starting it with one recipe. */
+export async function createCollectionAction(
+  fields: CollectionFields,
+  recipeId?: string,
+): Promise<
+  { success: true; collectionId: string } | { success: false; error: string }
+> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { success: false, error: "You must be signed in." };
+  const checked = checkCollectionFields(fields);
+  if (!checked.ok) return { success: false, error: checked.error };
+
+  if (recipeId) {
+    const recipe = isUuid(recipeId)
+      ? await db.query.recipes.findFirst({
+          columns: { id: true, visibility: true, createdById: true },
+          where: eq(recipesTable.id, recipeId),
+        })
+      : undefined;
+    if (!recipe || !(await canViewRecipe(recipe, session.user))) {
+      return { success: false, error: "Recipe not found." };
+    }
+  }
+
+  // Together, so a failed add leaves no empty collection behind
+  const collectionId = await db.transaction(async (tx) => {
+    const [collection] = await tx
+      .insert(collectionsTable)
+      .values({ ownerId: session.user.id, ...checked.value })
+      .returning({ id: collectionsTable.id });
+    if (recipeId) {
+      await tx
+        .insert(collectionRecipesTable)
+        .values({ collectionId: collection.id, recipeId, position: 0 });
+    }
+    return collection.id;
+  });
+  return { success: true, collectionId };
+}
+
+export async function updateCollectionAction(
+  collectionId: string,
+  fields: CollectionFields,
+): Promise<CollectionResult> {
+  const access = await collectionAccess(collectionId);
+  if (!access.ok) return { success: false, error: access.error };
+  const checked = checkCollectionFields(fields);
+  if (!checked.ok) return { success: false, error: checked.error };
+
+  await db
+    .update(collectionsTable)
+    .set({ ...checked.value, updatedAt: new Date() })
+    .where(eq(collectionsTable.id, collectionId));
+  return { success: true };
+}
+
+/**
+ * Upload a cover (form field "image"), or with no form data go back to
+ * showing the first recipe's image.
+ */
+export async function replaceCollectionCoverAction(
+  collectionId: string,
+  formData: FormData | null,
+): Promise<CollectionResult> {
+  const access = await collectionAccess(collectionId);
+  if (!access.ok) return { success: false, error: access.error };
+
+  if (!formData) {
+    await db
+      .update(collectionsTable)
+      .set({ coverImageUrl: null, updatedAt: new Date() })
+      .where(eq(collectionsTable.id, collectionId));
+    return { success: true };
+  }
+
+  const file = formData.get("image");
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, error: "Please choose an image." };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { success: false, error: "Images can be at most 10 MB." };
+  }
+  const buf = Buffer.from(await file.arrayBuffer());
+  if (!imageExtension(buf)) {
+    return {
+      success: false,
+      error: "Only JPEG, PNG and WebP images are supported.",
+    };
+  }
+
+  try {
+    const url = await uploadRecipeImage(
+      `collections/${collectionId}/cover-${Date.now()}`,
+      buf,
+    );
+    await db
+      .update(collectionsTable)
+      .set({ coverImageUrl: url, updatedAt: new Date() })
+      .where(eq(collectionsTable.id, collectionId));
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to upload image",
+    };
+  }
+}
+
+export async function deleteCollectionAction(
+  collectionId: string,
+): Promise<CollectionResult> {
+  const access = await collectionAccess(collectionId);
+  if (!access.ok) return { success: false, error: access.error };
+  await db
+    .delete(collectionsTable)
+    .where(eq(collectionsTable.id, collectionId));
+  return { success: true };
+}
+
+/** Add a recipe to the end of the collection, or take it out. */
+export async function setCollectionRecipeAction(
+  collectionId: string,
+  recipeId: string,
+  included: boolean,
+): Promise<CollectionResult> {
+  const access = await collectionAccess(collectionId);
+  if (!access.ok) return { success: false, error: access.error };
+  if (!isUuid(recipeId)) return { success: false, error: "Recipe not found." };
+
+  if (!included) {
+    await db
+      .delete(collectionRecipesTable)
+      .where(
+        and(
+          eq(collectionRecipesTable.collectionId, collectionId),
+          eq(collectionRecipesTable.recipeId, recipeId),
+        ),
+      );
+    await touchCollection(collectionId);
+    return { success: true };
+  }
+
+  const recipe = await db.query.recipes.findFirst({
+    columns: { id: true, visibility: true, createdById: true },
+    where: eq(recipesTable.id, recipeId),
+  });
+  if (!recipe || !(await canViewRecipe(recipe, access.user))) {
+    return { success: false, error: "Recipe not found." };
+  }
+  await db
+    .insert(collectionRecipesTable)
+    .values({
+      collectionId,
+      recipeId,
+      position: await nextPosition(collectionId),
+    })
+    .onConflictDoNothing();
+  await touchCollection(collectionId);
+  return { success: true };
+}
+
+/**
+ * Save a new order. Recipes left out of `recipeIds` (such as ones the user
+ * can no longer see) keep their relative order after the listed ones.
+ */
+export async function reorderCollectionAction(
+  collectionId: string,
+  recipeIds: string[],
+): Promise<CollectionResult> {
+  const access = await collectionAccess(collectionId);
+  if (!access.ok) return { success: false, error: access.error };
+
+  const current = await db.query.collectionRecipes.findMany({
+    columns: { recipeId: true },
+    where: eq(collectionRecipesTable.collectionId, collectionId),
+    orderBy: (r, { asc }) => [asc(r.position)],
+  });
+  const ids = new Set(current.map((row) => row.recipeId));
+  if (
+    !Array.isArray(recipeIds) ||
+    new Set(recipeIds).size !== recipeIds.length ||
+    !recipeIds.every((id) => ids.has(id))
+  ) {
+    return {
+      success: false,
+      error: "The collection changed. Reload and try again.",
+    };
+  }
+  const listed = new Set(recipeIds);
+  const order = [
+    ...recipeIds,
+    ...current.map((row) => row.recipeId).filter((id) => !listed.has(id)),
+  ];
+
+  await db.transaction(async (tx) => {
+    for (const [position, recipeId] of order.entries()) {
+      await tx
+        .update(collectionRecipesTable)
+        .set({ position })
+        .where(
+          and(
+            eq(collectionRecipesTable.collectionId, collectionId),
+            eq(collectionRecipesTable.recipeId, recipeId),
+          ),
+        );
+    }
+  });
+  await touchCollection(collectionId);
+  return { success: true };
+}
+
+export type TagAdminResult =
+  | { success: true }
+  | { success: false; error: string };
+
+async function tagAdmin() {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) {
+    return { ok: false as const, error: "You must be signed in." };
+  }
+  if (!isAdmin(session.user)) {
+    return { ok: false as const, error: "Only admins can manage tags." };
+  }
+  return { ok: true as const, user: session.user };
+}
+
+function checkTagName(tag: unknown): string | null {
+  if (typeof tag !== "string" || !tag.trim()) return "Enter a tag.";
+  if (tag.trim().length > MAX_TAG) {
+    return `Tags can be at most ${MAX_TAG} characters.`;
+  }
+  return null;
+}
+
+/**
+ * Rename a tag (one source) or merge several into one, on every recipe at
+ * once. The old names become aliases of the new one.
+ */
+export async function mergeTagsAction(
+  sources: string[],
+  target: string,
+): Promise<TagAdminResult> {
+  const admin = await tagAdmin();
+  if (!admin.ok) return { success: false, error: admin.error };
+  if (
+    !Array.isArray(sources) ||
+    sources.length === 0 ||
+    sources.some((t) => typeof t !== "string" || !t.trim())
+  ) {
+    return { success: false, error: "Choose the tags to rename." };
+  }
+  const invalid = checkTagName(target);
+  if (invalid) return { success: false, error: invalid };
+
+  try {
+    await mergeTags(sources, target.trim(), revisionAuthor(admin.user));
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to rename tags",
+    };
+  }
+}
+
+/**
+ * Make `alias` stand for `tag` from now on. Recipes already tagged with
+ * the alias are merged into the tag so the two never coexist.
+ */
+export async function setTagAliasAction(
+  alias: string,
+  tag: string,
+): Promise<TagAdminResult> {
+  const admin = await tagAdmin();
+  if (!admin.ok) return { success: false, error: admin.error };
+  const invalid = checkTagName(alias) ?? checkTagName(tag);
+  if (invalid) return { success: false, error: invalid };
+  if (tagKey(alias) === tagKey(tag)) {
+    return { success: false, error: "A tag can't be an alias of itself." };
+  }
+  const isTarget = await db.query.tagAliases.findFirst({
+    columns: { tag: true },
+    where: eq(tagAliasesTable.alias, tagKey(tag)),
+  });
+  if (isTarget) {
+    return {
+      success: false,
+      error: `"${tag.trim()}" is itself an alias of "${isTarget.tag}".`,
+    };
+  }
+
+  try {
+    await mergeTags([alias], tag.trim(), revisionAuthor(admin.user));
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to add alias",
+    };
+  }
+}
+
+export async function removeTagAliasAction(
+  alias: string,
+): Promise<TagAdminResult> {
+  const admin = await tagAdmin();
+  if (!admin.ok) return { success: false, error: admin.error };
+  if (typeof alias !== "string") {
+    return { success: false, error: "Alias not found." };
+  }
+  await db
+    .delete(tagAliasesTable)
+    .where(eq(tagAliasesTable.alias, tagKey(alias)));
+  return { success: true };
+}
+
+/** Nest a tag under another, or pass null to make it top-level again. */
+export async function setTagParentAction(
+  tag: string,
+  parent: string | null,
+): Promise<TagAdminResult> {
+  const admin = await tagAdmin();
+  if (!admin.ok) return { success: false, error: admin.error };
+  const invalid =
+    checkTagName(tag) ?? (parent === null ? null : checkTagName(parent));
+  if (invalid) return { success: false, error: invalid };
+  if (parent !== null && tagKey(parent) === tagKey(tag)) {
+    return { success: false, error: "A tag can't be nested under itself." };
+  }
+
+  const error = await setTagParent(tag, parent);
+  return error ? { success: false, error } : { success: true };
+}
+
+export type UnitPreferencesResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/** Make a measuring system the default for every recipe the user opens. */
+export async function updateUnitPreferencesAction(
+  preferences: UnitPreferences,
+): Promise<UnitPreferencesResult> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { success: false, error: "You must be signed in." };
+  if (
+    !isUnitSystem(preferences?.unitSystem) ||
+    typeof preferences.byWeight !== "boolean"
+  ) {
+    return { success: false, error: "Invalid units." };
+  }
+
+  await saveUnitPreferences(session.user.id, {
+    unitSystem: preferences.unitSystem,
+    byWeight: preferences.byWeight,
+  });
+  return { success: true };
+}
+
+/** Whether `recipeId` names a recipe the user may see. */
+async function canViewRecipeId(
+  recipeId: string,
+  user: { id: string },
+): Promise<boolean> {
+  if (!isUuid(recipeId)) return false;
+  const recipe = await db.query.recipes.findFirst({
+    columns: { id: true, visibility: true, createdById: true },
+    where: eq(recipesTable.id, recipeId),
+  });
+  return !!recipe && (await canViewRecipe(recipe, user));
+}
+
+export type CookingSessionResult =
+  | { success: true; session: CookingSession | null }
+  | { success: false; error: string };
+
+/** The user's progress on the recipe, for devices to catch up. */
+export async function cookingSessionAction(
+  recipeId: string,
+): Promise<CookingSessionResult> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { success: false, error: "You must be signed in." };
+  if (!(await canViewRecipeId(recipeId, session.user))) {
+    return { success: false, error: "Recipe not found." };
+  }
+  return {
+    success: true,
+    session: await cookingSession(session.user.id, recipeId),
+  };
+}
+
+export type SaveCookingSessionResult =
+  | { success: true; updatedAt: number | null }
+  | { success: false; error: string };
+
+/** Store the user's progress so their other devices pick it up. */
+export async function saveCookingSessionAction(
+  recipeId: string,
+  progress: CookingProgress,
+): Promise<SaveCookingSessionResult> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { success: false, error: "You must be signed in." };
+  const checked = validateCookingProgress(progress);
+  if (!checked) return { success: false, error: "Invalid progress." };
+  if (!(await canViewRecipeId(recipeId, session.user))) {
+    return { success: false, error: "Recipe not found." };
+  }
+  return {
+    success: true,
+    updatedAt: await saveCookingSession(session.user.id, recipeId, checked),
+  };
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { auth } from "../../../lib/auth/server";
+import { importRouteHandler } from "../../../lib/import-route";
+import { extractTikTokPost, isTikTokUrl } from "../../../lib/tiktok";
+
+const handler = importRouteHandler({
+  source: "TikTok",
+  isSourceUrl: isTikTokUrl,
+  extract: async (url) => {
+    const result = await extractTikTokPost(url);
+    return {
+      caption: result.caption,
+      imageBase64: result.imageData
+        ? result.imageData.toString("base64")
+        : null,
+    };
+  },
+});
+
+// Every request starts a headless browser, so it is for signed-in users only.
+// The import extractor calls it with the user's cookies (postInternalApi).
+export async function POST(request: Request) {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: "You must be signed in." },
+      { status: 401 },
+    );
+  }
+  return handler(request);
+}
@@ -0,0 +1,35 @@
+import Link from "next/link";
+import type { CollectionSummary } from "../../lib/collections";
+
+export function CollectionCard({
+  collection,
+}: {
+  collection: CollectionSummary;
+}) {
+  return (
+    <Link
+      href={`/collections/${collection.id}`}
+      className="flex flex-col overflow-hidden rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 transition-colors"
+    >
+      {collection.coverUrl ? (
+        // biome-ignore lint/performance/noImgElement: covers can be on any recipe site, which next/image would need listed in remotePatterns
+        <img
+          src={collection.coverUrl}
+          alt=""
+          className="aspect-[4/3] w-full object-cover"
+        />
+      ) : (
+        <div className="aspect-[4/3] w-full bg-zinc-100 dark:bg-zinc-800" />
+      )}
+      <div className="flex flex-col gap-0.5 p-3">
+        <span className="truncate text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+          {collection.name}
+        </span>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {collection.recipeCount}{" "}
+          {collection.recipeCount === 1 ? "recipe" : "recipes"}
+        </span>
+      </div>
+    </Link>
+  );
+}
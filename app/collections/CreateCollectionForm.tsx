@@ -0,0 +1,52 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { createCollectionAction } from "../actions";
+
+export function CreateCollectionForm() {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    const result = await createCollectionAction({ name, description: "" });
+    setCreating(false);
+    if (result.success) {
+      router.push(`/collections/${result.collectionId}`);
+    } else {
+      setError(result.error);
+    }
+  }
+
+  return (
+    <form onSubmit={create} className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Christmas 2026, Grandma's"
+          aria-label="Collection name"
+          required
+          disabled={creating}
+          className="flex-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={creating}
+          className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {creating ? "Creating…" : "New collection"}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </form>
+  );
+}
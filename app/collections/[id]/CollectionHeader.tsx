@@ -0,0 +1,201 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useRef, useState } from "react";
+import {
+  deleteCollectionAction,
+  replaceCollectionCoverAction,
+  updateCollectionAction,
+} from "../../actions";
+
+const inputClass =
+  "w-full rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500";
+
+export function CollectionHeader({
+  collectionId,
+  name,
+  description,
+  coverUrl,
+  hasUploadedCover,
+}: {
+  collectionId: string;
+  name: string;
+  description: string | null;
+  coverUrl: string | null;
+  hasUploadedCover: boolean;
+}) {
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [fields, setFields] = useState({
+    name,
+    description: description ?? "",
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  async function run(
+    action: () => Promise<{ success: boolean; error?: string }>,
+  ) {
+    setBusy(true);
+    setError(null);
+    const result = await action();
+    setBusy(false);
+    if (!result.success) {
+      setError(result.error ?? "Something went wrong.");
+      return false;
+    }
+    router.refresh();
+    return true;
+  }
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    if (await run(() => updateCollectionAction(collectionId, fields))) {
+      setEditing(false);
+    }
+  }
+
+  function uploadCover(file: File | null) {
+    if (!file) return;
+    const formData = new FormData();
+    formData.append("image", file);
+    run(() => replaceCollectionCoverAction(collectionId, formData));
+  }
+
+  async function remove() {
+    if (!window.confirm(`Delete "${name}"? The recipes in it are kept.`)) {
+      return;
+    }
+    setBusy(true);
+    const result = await deleteCollectionAction(collectionId);
+    if (result.success) {
+      router.push("/collections");
+    } else {
+      setBusy(false);
+      setError(result.error);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {coverUrl && (
+        // biome-ignore lint/performance/noImgElement: same cover as the collection card, from hosts next/image isn't configured for
+        <img
+          src={coverUrl}
+          alt=""
+          className="aspect-[3/1] w-full rounded-xl object-cover"
+        />
+      )}
+
+      {editing ? (
+        <form onSubmit={save} className="flex flex-col gap-3">
+          <input
+            type="text"
+            value={fields.name}
+            onChange={(e) => setFields((f) => ({ ...f, name: e.target.value }))}
+            aria-label="Name"
+            required
+            className={inputClass}
+          />
+          <textarea
+            value={fields.description}
+            onChange={(e) =>
+              setFields((f) => ({ ...f, description: e.target.value }))
+            }
+            placeholder="What's this collection for?"
+            aria-label="Description"
+            rows={3}
+            className={inputClass}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setEditing(false);
+                setFields({ name, description: description ?? "" });
+                setError(null);
+              }}
+              disabled={busy}
+              className="rounded-lg px-4 py-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+            >
+              {busy ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            {name}
+          </h1>
+          {description && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 whitespace-pre-line">
+              {description}
+            </p>
+          )}
+        </div>
+      )}
+
+      {!editing && (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            disabled={busy}
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors disabled:opacity-50"
+          >
+            Edit details
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            onChange={(e) => uploadCover(e.target.files?.[0] ?? null)}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors disabled:opacity-50"
+          >
+            {hasUploadedCover ? "Replace cover" : "Upload cover"}
+          </button>
+          {hasUploadedCover && (
+            <button
+              type="button"
+              onClick={() =>
+                run(() => replaceCollectionCoverAction(collectionId, null))
+              }
+              disabled={busy}
+              className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors disabled:opacity-50"
+            >
+              Use first recipe&rsquo;s image
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={remove}
+            disabled={busy}
+            className="ml-auto text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition-colors disabled:opacity-50"
+          >
+            Delete collection
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="rounded-lg border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
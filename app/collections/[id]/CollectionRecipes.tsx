@@ -0,0 +1,146 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CollectionItem } from "../../../lib/collections";
+import { formatMinutes } from "../../../lib/durations";
+import {
+  reorderCollectionAction,
+  setCollectionRecipeAction,
+} from "../../actions";
+
+const smallButtonClass =
+  "rounded p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-700 dark:hover:bg-zinc-800 dark:hover:text-zinc-200 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+/** The collection's recipes in order, with controls to reorder and remove. */
+export function CollectionRecipes({
+  collectionId,
+  items: initialItems,
+}: {
+  collectionId: string;
+  items: CollectionItem[];
+}) {
+  const [items, setItems] = useState(initialItems);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setItems(initialItems);
+  }, [initialItems]);
+
+  async function move(index: number, by: number) {
+    const previous = items;
+    const next = [...items];
+    const [item] = next.splice(index, 1);
+    next.splice(index + by, 0, item);
+    setItems(next);
+    setSaving(true);
+    setError(null);
+    const result = await reorderCollectionAction(
+      collectionId,
+      next.map((i) => i.id),
+    );
+    setSaving(false);
+    if (!result.success) {
+      setItems(previous);
+      setError(result.error);
+    }
+  }
+
+  async function remove(recipeId: string) {
+    setSaving(true);
+    setError(null);
+    const result = await setCollectionRecipeAction(
+      collectionId,
+      recipeId,
+      false,
+    );
+    setSaving(false);
+    if (result.success) {
+      setItems((prev) => prev.filter((i) => i.id !== recipeId));
+    } else {
+      setError(result.error);
+    }
+  }
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
+        Nothing here yet. Use &ldquo;Add to collection&rdquo; on a recipe to add
+        it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <ol className="flex flex-col gap-3">
+        {items.map((item, i) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-3 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-3"
+          >
+            <span className="w-5 shrink-0 text-right text-xs tabular-nums text-zinc-400">
+              {i + 1}
+            </span>
+            <Link
+              href={`/recipes/${item.id}`}
+              className="flex min-w-0 flex-1 items-center gap-3 hover:opacity-80 transition-opacity"
+            >
+              {item.imageUrl && (
+                // biome-ignore lint/performance/noImgElement: recipe images come from arbitrary source sites
+                <img
+                  src={item.imageUrl}
+                  alt=""
+                  className="h-14 w-14 shrink-0 rounded-lg object-cover"
+                />
+              )}
+              <span className="flex min-w-0 flex-col">
+                <span className="truncate font-semibold text-zinc-900 dark:text-zinc-100">
+                  {item.title}
+                </span>
+                {item.totalMinutes !== null && (
+                  <span className="text-xs text-zinc-400 dark:text-zinc-500">
+                    {formatMinutes(item.totalMinutes)}
+                  </span>
+                )}
+              </span>
+            </Link>
+            <div className="flex shrink-0 items-center">
+              <button
+                type="button"
+                onClick={() => move(i, -1)}
+                disabled={saving || i === 0}
+                aria-label="Move up"
+                className={smallButtonClass}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(i, 1)}
+                disabled={saving || i === items.length - 1}
+                aria-label="Move down"
+                className={smallButtonClass}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(item.id)}
+                disabled={saving}
+                aria-label="Remove from collection"
+                className={smallButtonClass}
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
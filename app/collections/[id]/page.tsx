@@ -0,0 +1,46 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { auth } from "../../../lib/auth/server";
+import { collectionItems, ownedCollection } from "../../../lib/collections";
+import { CollectionHeader } from "./CollectionHeader";
+import { CollectionRecipes } from "./CollectionRecipes";
+
+export default async function CollectionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const { data: session } = await auth.getSession();
+  const collection = session?.user
+    ? await ownedCollection(id, session.user.id)
+    : undefined;
+  if (!session?.user || !collection) notFound();
+
+  const items = await collectionItems(collection.id, session.user.id);
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-6 py-12 px-5 bg-white dark:bg-black">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/collections"
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            &larr; Collections
+          </Link>
+        </div>
+        <CollectionHeader
+          collectionId={collection.id}
+          name={collection.name}
+          description={collection.description}
+          coverUrl={collection.coverImageUrl ?? items[0]?.imageUrl ?? null}
+          hasUploadedCover={collection.coverImageUrl !== null}
+        />
+        <CollectionRecipes collectionId={collection.id} items={items} />
+      </main>
+    </div>
+  );
+}
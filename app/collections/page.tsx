@@ -0,0 +1,47 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { auth } from "../../lib/auth/server";
+import { userCollections } from "../../lib/collections";
+import { CollectionCard } from "./CollectionCard";
+import { CreateCollectionForm } from "./CreateCollectionForm";
+
+export default async function CollectionsPage() {
+  const { data: session } = await auth.getSession();
+  const collections = session?.user
+    ? await userCollections(session.user.id)
+    : [];
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-8 py-12 px-5 bg-white dark:bg-black">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            Collections
+          </h1>
+          <Link
+            href="/recipes"
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            All recipes
+          </Link>
+        </div>
+
+        <CreateCollectionForm />
+
+        {collections.length === 0 ? (
+          <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
+            No collections yet. Create one here, or add a recipe to a new
+            collection from its page.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+            {collections.map((collection) => (
+              <CollectionCard key={collection.id} collection={collection} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { acceptHouseholdInviteAction } from "../actions";
+
+export function AcceptInviteButton({ token }: { token: string }) {
+  const router = useRouter();
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function accept() {
+    setAccepting(true);
+    setError(null);
+    const result = await acceptHouseholdInviteAction(token);
+    setAccepting(false);
+    if (result.success) {
+      router.push(`/households/${result.householdId}`);
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  return (
+    <span className="flex items-center gap-2">
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+      )}
+      <button
+        type="button"
+        onClick={accept}
+        disabled={accepting}
+        className="rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+      >
+        {accepting ? "Joining…" : "Join household"}
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import {
+  createHouseholdInviteAction,
+  revokeHouseholdInviteAction,
+} from "../../actions";
+
+type Invite = {
+  id: string;
+  token: string;
+  email: string | null;
+  expiresAt: string;
+};
+
+export function HouseholdInvites({
+  householdId,
+  invites,
+}: {
+  householdId: string;
+  invites: Invite[];
+}) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Links are shown absolute so they can be pasted into a message
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  function inviteUrl(token: string) {
+    return `${origin}/invite/${token}`;
+  }
+
+  async function create(withEmail: boolean) {
+    setCreating(true);
+    setError(null);
+    const result = await createHouseholdInviteAction(
+      householdId,
+      withEmail ? email : null,
+    );
+    setCreating(false);
+    if (result.success) {
+      setEmail("");
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  async function revoke(inviteId: string) {
+    setError(null);
+    const result = await revokeHouseholdInviteAction(inviteId);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  async function copy(token: string) {
+    await navigator.clipboard.writeText(inviteUrl(token));
+    setCopied(token);
+  }
+
+  return (
+    <section className="flex flex-col gap-3">
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+        Invites
+      </h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        Anyone with an invite link can join. An email invite only works for that
+        address, and shows up on their Households page once they sign in.
+      </p>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          create(true);
+        }}
+        className="flex flex-wrap gap-2"
+      >
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="name@example.com"
+          aria-label="Email to invite"
+          disabled={creating}
+          className="flex-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={creating || !email.trim()}
+          className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          Invite by email
+        </button>
+        <button
+          type="button"
+          onClick={() => create(false)}
+          disabled={creating}
+          className="rounded-lg border border-zinc-200 dark:border-zinc-700 px-4 py-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+        >
+          Create invite link
+        </button>
+      </form>
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {invites.length > 0 && (
+        <ul className="flex flex-col divide-y divide-zinc-100 dark:divide-zinc-800 rounded-xl border border-zinc-200 dark:border-zinc-800">
+          {invites.map((invite) => (
+            <li
+              key={invite.id}
+              className="flex flex-wrap items-center gap-3 px-4 py-3"
+            >
+              <span className="flex min-w-0 flex-col">
+                <span className="text-sm text-zinc-900 dark:text-zinc-100">
+                  {invite.email ?? "Invite link"}
+                </span>
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                </span>
+              </span>
+              <span className="ml-auto flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => copy(invite.token)}
+                  className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+                >
+                  {copied === invite.token ? "Copied" : "Copy link"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => revoke(invite.id)}
+                  className="text-xs font-medium text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+                >
+                  Revoke
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { HouseholdRole } from "../../../lib/households";
+import {
+  removeHouseholdMemberAction,
+  setHouseholdRoleAction,
+} from "../../actions";
+
+type Member = { userId: string; name: string | null; role: HouseholdRole };
+
+export function HouseholdMembers({
+  householdId,
+  members,
+  currentUserId,
+  isOwner,
+}: {
+  householdId: string;
+  members: Member[];
+  currentUserId: string;
+  isOwner: boolean;
+}) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(
+    userId: string,
+    action: () => Promise<
+      { success: true } | { success: false; error: string }
+    >,
+    leaving = false,
+  ) {
+    setPending(userId);
+    setError(null);
+    const result = await action();
+    setPending(null);
+    if (!result.success) {
+      setError(result.error);
+    } else if (leaving) {
+      router.push("/households");
+      router.refresh();
+    } else {
+      router.refresh();
+    }
+  }
+
+  function remove(member: Member) {
+    const self = member.userId === currentUserId;
+    const question = self
+      ? "Leave this household? Its recipe box stays with the other members."
+      : `Remove ${member.name ?? "this member"} from the household?`;
+    if (!window.confirm(question)) return;
+    run(
+      member.userId,
+      () => removeHouseholdMemberAction(householdId, member.userId),
+      self,
+    );
+  }
+
+  function toggleRole(member: Member) {
+    run(member.userId, () =>
+      setHouseholdRoleAction(
+        householdId,
+        member.userId,
+        member.role === "owner" ? "member" : "owner",
+      ),
+    );
+  }
+
+  return (
+    <section className="flex flex-col gap-3">
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+        Members
+      </h2>
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <ul className="flex flex-col divide-y divide-zinc-100 dark:divide-zinc-800 rounded-xl border border-zinc-200 dark:border-zinc-800">
+        {members.map((member) => {
+          const self = member.userId === currentUserId;
+          return (
+            <li
+              key={member.userId}
+              className="flex flex-wrap items-center gap-3 px-4 py-3"
+            >
+              <span className="text-sm text-zinc-900 dark:text-zinc-100">
+                {member.name ?? "Unknown"}
+                {self && (
+                  <span className="ml-1 text-zinc-400 dark:text-zinc-500">
+                    (you)
+                  </span>
+                )}
+              </span>
+              <span className="rounded-full bg-zinc-100 dark:bg-zinc-800 px-2 py-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                {member.role === "owner" ? "Owner" : "Member"}
+              </span>
+              <span className="ml-auto flex items-center gap-3">
+                {isOwner && !self && (
+                  <button
+                    type="button"
+                    onClick={() => toggleRole(member)}
+                    disabled={pending !== null}
+                    className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors disabled:opacity-50"
+                  >
+                    {member.role === "owner" ? "Make member" : "Make owner"}
+                  </button>
+                )}
+                {(isOwner || self) && (
+                  <button
+                    type="button"
+                    onClick={() => remove(member)}
+                    disabled={pending !== null}
+                    className="text-xs font-medium text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition-colors disabled:opacity-50"
+                  >
+                    {pending === member.userId
+                      ? "…"
+                      : self
+                        ? "Leave"
+                        : "Remove"}
+                  </button>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { renameHouseholdAction } from "../../actions";
+
+export function HouseholdName({
+  householdId,
+  name,
+  editable,
+}: {
+  householdId: string;
+  name: string;
+  editable: boolean;
+}) {
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(name);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    const result = await renameHouseholdAction(householdId, value);
+    setSaving(false);
+    if (result.success) {
+      setEditing(false);
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="flex items-center gap-3">
+        <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+          {name}
+        </h1>
+        {editable && (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            Rename
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={save} className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          aria-label="Household name"
+          required
+          disabled={saving}
+          className="flex-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={() => {
+            setEditing(false);
+            setValue(name);
+            setError(null);
+          }}
+          disabled={saving}
+          className="rounded-lg px-3 py-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,99 @@
+export const dynamic = "force-dynamic";
+
+import { asc, desc, eq } from "drizzle-orm";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { db } from "../../../db";
+import {
+  householdInvites,
+  householdMembers,
+  households,
+} from "../../../db/schema";
+import { auth } from "../../../lib/auth/server";
+import { householdRole } from "../../../lib/households";
+import {
+  parseRecipeListParams,
+  recipesHref,
+} from "../../../lib/recipe-list-params";
+import { HouseholdInvites } from "./HouseholdInvites";
+import { HouseholdMembers } from "./HouseholdMembers";
+import { HouseholdName } from "./HouseholdName";
+
+export default async function HouseholdPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const { data: session } = await auth.getSession();
+  const role = session?.user ? await householdRole(id, session.user.id) : null;
+  if (!session?.user || !role) notFound();
+
+  const household = await db.query.households.findFirst({
+    where: eq(households.id, id),
+    with: {
+      members: { orderBy: [asc(householdMembers.joinedAt)] },
+      invites: { orderBy: [desc(householdInvites.createdAt)] },
+    },
+  });
+  if (!household) notFound();
+
+  const isOwner = role === "owner";
+  const now = new Date();
+  const boxHref = recipesHref({
+    ...parseRecipeListParams({}),
+    household: household.id,
+  });
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-8 py-12 px-5 bg-white dark:bg-black">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/households"
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            &larr; Households
+          </Link>
+          <Link
+            href={boxHref}
+            className="ml-auto text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            Recipe box &rarr;
+          </Link>
+        </div>
+
+        <HouseholdName
+          householdId={household.id}
+          name={household.name}
+          editable={isOwner}
+        />
+
+        <HouseholdMembers
+          householdId={household.id}
+          members={household.members.map((m) => ({
+            userId: m.userId,
+            name: m.userName,
+            role: m.role,
+          }))}
+          currentUserId={session.user.id}
+          isOwner={isOwner}
+        />
+
+        {isOwner && (
+          <HouseholdInvites
+            householdId={household.id}
+            invites={household.invites
+              .filter((i) => i.expiresAt > now)
+              .map((i) => ({
+                id: i.id,
+                token: i.token,
+                email: i.email,
+                expiresAt: i.expiresAt.toISOString(),
+              }))}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
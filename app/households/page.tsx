@@ -0,0 +1,90 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { auth } from "../../lib/auth/server";
+import { invitesForEmail, userHouseholds } from "../../lib/households";
+import { AcceptInviteButton } from "./AcceptInviteButton";
+import { CreateHouseholdForm } from "./CreateHouseholdForm";
+
+export default async function HouseholdsPage() {
+  const { data: session } = await auth.getSession();
+  const [households, invites] = session?.user
+    ? await Promise.all([
+        userHouseholds(session.user.id),
+        invitesForEmail(session.user.email),
+      ])
+    : [[], []];
+  const memberOf = new Set(households.map((h) => h.id));
+  const pending = invites.filter((i) => !memberOf.has(i.householdId));
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-8 py-12 px-5 bg-white dark:bg-black">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            Households
+          </h1>
+          <Link
+            href="/recipes"
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            My Recipes
+          </Link>
+        </div>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          A household shares a recipe box between family members or a team.
+          Recipes set to &ldquo;My household&rdquo; are visible to everyone in
+          your households.
+        </p>
+
+        {pending.length > 0 && (
+          <section className="flex flex-col gap-3">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+              Invitations for you
+            </h2>
+            <ul className="flex flex-col gap-2">
+              {pending.map((invite) => (
+                <li
+                  key={invite.id}
+                  className="flex items-center justify-between gap-4 rounded-xl border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/30 px-4 py-3"
+                >
+                  <span className="text-sm text-zinc-900 dark:text-zinc-100">
+                    {invite.household.name}
+                  </span>
+                  <AcceptInviteButton token={invite.token} />
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="flex flex-col gap-3">
+          {households.length === 0 ? (
+            <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
+              You aren&rsquo;t in a household yet.
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {households.map((household) => (
+                <li key={household.id}>
+                  <Link
+                    href={`/households/${household.id}`}
+                    className="flex items-center justify-between rounded-xl border border-zinc-200 dark:border-zinc-800 px-4 py-3 hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                  >
+                    <span className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                      {household.name}
+                    </span>
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {household.role === "owner" ? "Owner" : "Member"}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+          <CreateHouseholdForm />
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "../../../lib/auth/server";
+import { findInvite, householdRole } from "../../../lib/households";
+import { AcceptInviteButton } from "../../households/AcceptInviteButton";
+
+export default async function InvitePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const { data: session } = await auth.getSession();
+  const invite = await findInvite(token);
+
+  if (
+    invite &&
+    session?.user &&
+    (await householdRole(invite.householdId, session.user.id))
+  ) {
+    redirect(`/households/${invite.householdId}`);
+  }
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-6 py-12 px-5 bg-white dark:bg-black">
+        {invite ? (
+          <>
+            <h1 className="text-2xl font-semibold tracking-tight text-black dark:text-zinc-50">
+              Join {invite.household.name}
+            </h1>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              You&rsquo;ve been invited to share a recipe box with this
+              household.
+            </p>
+            <div>
+              <AcceptInviteButton token={token} />
+            </div>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-semibold tracking-tight text-black dark:text-zinc-50">
+              Invite not found
+            </h1>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              This invite has expired or was revoked. Ask the household owner
+              for a new one.
+            </p>
+            <Link
+              href="/households"
+              className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+            >
+              Your households &rarr;
+            </Link>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -31,6 +31,12 @@ export default function RootLayout({
 			>
 				<AuthProvider>
 					<header className="flex justify-end items-center p-4 gap-4 h-16 max-w-2xl mx-auto">
+						<Link
+							href="/households"
+							className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+						>
+							Households
+						</Link>
 						<Link
 							href="/integrations"
 							className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
@@ -3,8 +3,14 @@
 import Link from "next/link";
 import { useActionState, useEffect, useState } from "react";
 import type { ParseResult } from "./actions";
-import { parseUrlAction } from "./actions";
+import { myHouseholdsAction, parseUrlAction } from "./actions";
 import { RecipeCard } from "../components/RecipeCard";
+import type { UserHousehold } from "../lib/households";
+import {
+  DEFAULT_VISIBILITY,
+  RECIPE_VISIBILITIES,
+  VISIBILITY_LABELS,
+} from "../lib/visibility";
 
 const initialState: ParseResult | null = null;
 const OPENAI_KEY_STORAGE = "savorit_openai_key";
@@ -15,10 +21,12 @@ export default function Home() {
     initialState,
   );
   const [openaiKey, setOpenaiKey] = useState("");
+  const [households, setHouseholds] = useState<UserHousehold[]>([]);
 
   useEffect(() => {
     const stored = localStorage.getItem(OPENAI_KEY_STORAGE);
     if (stored) setOpenaiKey(stored);
+    myHouseholdsAction().then(setHouseholds);
   }, []);
 
   return (
@@ -55,6 +63,43 @@ export default function Home() {
                 className="w-full rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-4 py-2.5 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
               />
             </label>
+            {households.length > 0 && (
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium text-zinc-600 dark:text-zinc-400">
+                  Save to
+                </span>
+                <select
+                  name="household"
+                  defaultValue=""
+                  disabled={isPending}
+                  className="h-11 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+                >
+                  <option value="">My recipes</option>
+                  {households.map((household) => (
+                    <option key={household.id} value={household.id}>
+                      {household.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-col gap-2">
+              <span className="text-sm font-medium text-zinc-600 dark:text-zinc-400">
+                Visible to
+              </span>
+              <select
+                name="visibility"
+                defaultValue={DEFAULT_VISIBILITY}
+                disabled={isPending}
+                className="h-11 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 text-sm text-zinc-900 dark:text-zinc-100 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+              >
+                {RECIPE_VISIBILITIES.map((value) => (
+                  <option key={value} value={value}>
+                    {VISIBILITY_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
             <button
               type="submit"
               disabled={isPending}
@@ -68,7 +113,7 @@ export default function Home() {
         {state && (
           <div className="w-full">
             {state.success ? (
-              <RecipeCard recipe={state.recipe} recipeId={state.id} />
+              <RecipeCard recipe={state.recipe} recipeId={state.id} editable />
             ) : (
               <p className="rounded-lg border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30 px-4 py-3 text-sm text-red-800 dark:text-red-200">
                 {state.error}
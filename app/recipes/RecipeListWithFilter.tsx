@@ -1,88 +1,180 @@
 "use client";
 
 import Link from "next/link";
-import { useMemo, useState } from "react";
-
-export type RecipeListItem = {
-  id: string;
-  title: string;
-  description: string | null;
-  imageUrl: string | null;
-  tags: string[];
-  createdBy?: string | null;
-  createdAt: Date | string;
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { formatMinutes } from "../../lib/durations";
+import type {
+  FacetValue,
+  RecipeFacets,
+  RecipeListItem,
+  RecipeListPage,
+} from "../../lib/recipe-list";
+import {
+  hasActiveFilters,
+  type RecipeListParams,
+  type RecipeSort,
+  recipesHref,
+  recipesQuery,
+} from "../../lib/recipe-list-params";
+import { loadRecipePageAction } from "../actions";
+
+// Wait for a pause in typing before running a search
+const SEARCH_DEBOUNCE_MS = 300;
+
+const TIME_LIMITS = [15, 30, 60];
+
+const SORT_LABELS: Record<RecipeSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  title: "Title",
+  time: "Quickest",
 };
 
-function recipeMatchesSearch(recipe: RecipeListItem, query: string): boolean {
-  if (!query.trim()) return true;
-  const q = query.trim().toLowerCase();
-  return (recipe.tags ?? []).some((tag) => tag.toLowerCase().includes(q));
+function FacetChips({
+  label,
+  values,
+  isActive,
+  onToggle,
+}: {
+  label: string;
+  values: FacetValue[];
+  isActive: (value: string) => boolean;
+  onToggle: (value: string) => void;
+}) {
+  if (values.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-zinc-500 dark:text-zinc-400">{label}:</span>
+      {values.map(({ value, count }) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onToggle(value)}
+          className={`rounded-full px-2.5 py-0.5 text-xs transition-colors ${
+            isActive(value)
+              ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+              : "bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+          }`}
+        >
+          {value} <span className="opacity-60 tabular-nums">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
 }
 
-function recipeHasAllTags(recipe: RecipeListItem, tags: string[]): boolean {
-  if (tags.length === 0) return true;
-  const recipeTags = new Set((recipe.tags ?? []).map((t) => t.toLowerCase()));
-  return tags.every((t) => recipeTags.has(t.toLowerCase()));
-}
+export function RecipeListWithFilter({
+  params,
+  initialPage,
+  facets,
+}: {
+  params: RecipeListParams;
+  initialPage: RecipeListPage;
+  facets: RecipeFacets;
+}) {
+  const router = useRouter();
+  const [searchQuery, setSearchQuery] = useState(params.q);
+  const [recipes, setRecipes] = useState<RecipeListItem[]>(initialPage.items);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // A new server render (changed filters) replaces what was scrolled in
+  useEffect(() => {
+    setRecipes(initialPage.items);
+    setNextCursor(initialPage.nextCursor);
+  }, [initialPage]);
+
+  // All list state lives in the URL so views can be linked and bookmarked
+  const navigate = useCallback(
+    (changes: Partial<RecipeListParams>) => {
+      router.replace(recipesHref({ ...params, ...changes }), { scroll: false });
+    },
+    [params, router],
+  );
 
-export function RecipeListWithFilter({ recipes }: { recipes: RecipeListItem[] }) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    const trimmed = searchQuery.trim();
+    if (trimmed === params.q) return;
+    const timer = setTimeout(() => {
+      // The sort default depends on whether there's a query, so re-derive it
+      navigate({
+        q: trimmed,
+        sort: params.sort === "relevance" && !trimmed ? "newest" : params.sort,
+      });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery, params.q, params.sort, navigate]);
 
-  const uniqueTags = useMemo(() => {
-    const set = new Set<string>();
-    for (const r of recipes) {
-      for (const t of r.tags ?? []) {
-        if (t.trim()) set.add(t);
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const result = await loadRecipePageAction(
+        recipesQuery(params),
+        nextCursor,
+      );
+      // Stop rather than retry on every scroll; a reload starts over
+      if (!result.success) {
+        setNextCursor(null);
+        return;
       }
+      setRecipes((prev) => [...prev, ...result.page.items]);
+      setNextCursor(result.page.nextCursor);
+    } finally {
+      setLoadingMore(false);
     }
-    return [...set].sort((a, b) => a.localeCompare(b));
-  }, [recipes]);
+  }, [params, nextCursor, loadingMore]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore();
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
 
   const suggestedTags = useMemo(() => {
-    if (!searchQuery.trim()) return uniqueTags.slice(0, 8);
     const q = searchQuery.trim().toLowerCase();
-    return uniqueTags
+    if (!q) return [];
+    return facets.tags
+      .map((t) => t.value)
       .filter((tag) => tag.toLowerCase().includes(q))
       .slice(0, 8);
-  }, [uniqueTags, searchQuery]);
+  }, [facets.tags, searchQuery]);
 
-  const filteredRecipes = useMemo(() => {
-    return recipes.filter(
-      (r) =>
-        recipeMatchesSearch(r, searchQuery) &&
-        recipeHasAllTags(r, [...activeFilters]),
-    );
-  }, [recipes, searchQuery, activeFilters]);
-
-  function toggleFilter(tag: string) {
-    setActiveFilters((prev) => {
-      const next = new Set(prev);
-      const key = [...prev].find((t) => t.toLowerCase() === tag.toLowerCase());
-      if (key) {
-        next.delete(key);
-      } else {
-        next.add(tag);
-      }
-      return next;
-    });
+  function tagIsActive(tag: string): boolean {
+    return params.tags.some((t) => t.toLowerCase() === tag.toLowerCase());
   }
 
-  function addFilter(tag: string) {
-    setActiveFilters((prev) => new Set([...prev, tag]));
-    setSearchQuery("");
+  function toggleTag(tag: string) {
+    navigate({
+      tags: tagIsActive(tag)
+        ? params.tags.filter((t) => t.toLowerCase() !== tag.toLowerCase())
+        : [...params.tags, tag],
+    });
   }
 
-  function removeFilter(tag: string) {
-    setActiveFilters((prev) => {
-      const next = new Set(prev);
-      const key = [...prev].find((t) => t.toLowerCase() === tag.toLowerCase());
-      if (key) next.delete(key);
-      return next;
+  function addTagFromSearch(tag: string) {
+    setSearchQuery("");
+    navigate({
+      q: "",
+      sort: params.sort === "relevance" ? "newest" : params.sort,
+      tags: tagIsActive(tag) ? params.tags : [...params.tags, tag],
     });
   }
 
-  const hasActiveFilters = activeFilters.size > 0;
+  const sorts: RecipeSort[] =
+    params.q || params.cook
+      ? ["relevance", "newest", "title", "time"]
+      : ["newest", "title", "time"];
+  const filtersActive = hasActiveFilters(params);
 
   return (
     <div className="flex flex-col gap-6">
@@ -92,17 +184,17 @@ export function RecipeListWithFilter({ recipes }: { recipes: RecipeListItem[] })
           type="text"
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
-          placeholder="Filter by tag..."
+          placeholder="Search recipes, ingredients or tags..."
           className="w-full rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-4 py-2.5 text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500"
         />
         {/* Tag suggestions when typing */}
-        {searchQuery.trim() && suggestedTags.length > 0 && (
+        {suggestedTags.length > 0 && (
           <div className="flex flex-wrap gap-1.5">
             {suggestedTags.map((tag) => (
               <button
                 key={tag}
                 type="button"
-                onClick={() => addFilter(tag)}
+                onClick={() => addTagFromSearch(tag)}
                 className="rounded-full bg-zinc-200 dark:bg-zinc-700 px-2.5 py-0.5 text-xs text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors"
               >
                 + {tag}
@@ -110,61 +202,102 @@ export function RecipeListWithFilter({ recipes }: { recipes: RecipeListItem[] })
             ))}
           </div>
         )}
-      </div>
-
-      {/* Active filters */}
-      {hasActiveFilters && (
-        <div className="flex flex-wrap items-center gap-2">
-          <span className="text-xs text-zinc-500 dark:text-zinc-400">
-            Filtering by:
-          </span>
-          {[...activeFilters].map((tag) => (
-            <span
-              key={tag}
-              className="inline-flex items-center gap-1 rounded-full bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900 px-2.5 py-0.5 text-xs"
+        {/* Time filter and sort */}
+        <div className="flex flex-wrap items-center gap-1.5">
+          {TIME_LIMITS.map((limit) => (
+            <button
+              key={limit}
+              type="button"
+              onClick={() =>
+                navigate({
+                  maxMinutes: params.maxMinutes === limit ? null : limit,
+                })
+              }
+              className={`rounded-full px-2.5 py-0.5 text-xs transition-colors ${
+                params.maxMinutes === limit
+                  ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                  : "bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+              }`}
             >
-              {tag}
-              <button
-                type="button"
-                onClick={() => removeFilter(tag)}
-                aria-label={`Remove filter ${tag}`}
-                className="rounded p-0.5 hover:bg-zinc-700 dark:hover:bg-zinc-300 transition-colors"
-              >
-                <svg
-                  className="h-3 w-3"
-                  viewBox="0 0 12 12"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                >
-                  <path
-                    d="M2 2l8 8M10 2L2 10"
-                    strokeLinecap="round"
-                  />
-                </svg>
-              </button>
-            </span>
+              Under {formatMinutes(limit)}
+            </button>
           ))}
+          <label className="ml-auto flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+            Sort
+            <select
+              value={params.sort}
+              onChange={(e) => navigate({ sort: e.target.value as RecipeSort })}
+              className="rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-2 py-1 text-xs text-zinc-700 dark:text-zinc-300 focus:border-zinc-500 focus:outline-none"
+            >
+              {sorts.map((sort) => (
+                <option key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
-      )}
+        {/* Facets, counted on the server over the current results */}
+        <FacetChips
+          label="Tags"
+          values={facets.tags.slice(0, 12)}
+          isActive={tagIsActive}
+          onToggle={toggleTag}
+        />
+        <FacetChips
+          label="Source"
+          values={facets.domains.slice(0, 8)}
+          isActive={(value) => params.domain === value}
+          onToggle={(value) =>
+            navigate({ domain: params.domain === value ? null : value })
+          }
+        />
+        <FacetChips
+          label="Added by"
+          values={facets.creators.slice(0, 8)}
+          isActive={(value) => params.creator === value}
+          onToggle={(value) =>
+            navigate({ creator: params.creator === value ? null : value })
+          }
+        />
+      </div>
 
-      {/* Recipe count when filtered */}
-      {hasActiveFilters && (
-        <p className="text-sm text-zinc-500 dark:text-zinc-400">
-          Showing {filteredRecipes.length} of {recipes.length} recipes
-        </p>
+      {/* Recipe count */}
+      {(params.q || filtersActive) && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            {facets.total} {facets.total === 1 ? "recipe" : "recipes"}
+            {params.q && <> for &ldquo;{params.q}&rdquo;</>}
+          </p>
+          {filtersActive && (
+            <button
+              type="button"
+              onClick={() =>
+                navigate({
+                  tags: [],
+                  domain: null,
+                  creator: null,
+                  maxMinutes: null,
+                })
+              }
+              className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
       )}
 
       {/* Recipe list */}
-      {filteredRecipes.length === 0 ? (
+      {recipes.length === 0 ? (
         <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
-          {recipes.length === 0
-            ? "No recipes saved yet."
-            : "No recipes match the selected tags."}
+          {params.q
+            ? `No recipes match "${params.q}".`
+            : "No recipes match the selected filters."}
         </p>
       ) : (
         <div className="flex flex-col gap-4">
-          {filteredRecipes.map((recipe) => (
+          {recipes.map((recipe) => (
             <Link
               key={recipe.id}
               href={`/recipes/${recipe.id}`}
@@ -182,46 +315,91 @@ export function RecipeListWithFilter({ recipes }: { recipes: RecipeListItem[] })
                 <h2 className="font-semibold text-zinc-900 dark:text-zinc-100 truncate">
                   {recipe.title}
                 </h2>
-                {recipe.description && (
+                {recipe.snippet && recipe.snippet.length > 0 ? (
                   <p className="text-sm text-zinc-500 dark:text-zinc-400 line-clamp-2">
-                    {recipe.description}
+                    {recipe.snippet.map((part, i) =>
+                      part.highlight ? (
+                        <mark
+                          // biome-ignore lint/suspicious/noArrayIndexKey: snippet parts have no identity
+                          key={i}
+                          className="rounded bg-amber-100 px-0.5 text-zinc-900 dark:bg-amber-900/60 dark:text-zinc-100"
+                        >
+                          {part.text}
+                        </mark>
+                      ) : (
+                        // biome-ignore lint/suspicious/noArrayIndexKey: snippet parts have no identity
+                        <span key={i}>{part.text}</span>
+                      ),
+                    )}
                   </p>
+                ) : (
+                  recipe.description && (
+                    <p className="text-sm text-zinc-500 dark:text-zinc-400 line-clamp-2">
+                      {recipe.description}
+                    </p>
+                  )
                 )}
-                {recipe.tags && recipe.tags.length > 0 && (
+                {recipe.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1.5 mt-1">
-                    {recipe.tags.map((tag, i) => {
-                      const isActive = [...activeFilters].some(
-                        (f) => f.toLowerCase() === tag.toLowerCase(),
-                      );
-                      return (
-                        <button
-                          key={`${tag}-${i}`}
-                          type="button"
-                          onClick={(e) => {
-                            e.preventDefault();
-                            e.stopPropagation();
-                            toggleFilter(tag);
-                          }}
-                          className={`inline-flex rounded-full px-2 py-0.5 text-xs transition-colors cursor-pointer ${
-                            isActive
-                              ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
-                              : "bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
-                          }`}
-                        >
-                          {tag}
-                        </button>
-                      );
-                    })}
+                    {recipe.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          toggleTag(tag);
+                        }}
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs transition-colors cursor-pointer ${
+                          tagIsActive(tag)
+                            ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                            : "bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                        }`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
                   </div>
                 )}
+                {recipe.coverage && (
+                  <p className="text-xs text-zinc-600 dark:text-zinc-300">
+                    <span className="font-medium">
+                      {recipe.coverage.matched}/{recipe.coverage.total}{" "}
+                      ingredients on hand
+                    </span>
+                    {recipe.coverage.missing.length > 0 && (
+                      <span className="text-zinc-500 dark:text-zinc-400">
+                        {" "}
+                        · missing {recipe.coverage.missing.join(", ")}
+                      </span>
+                    )}
+                  </p>
+                )}
                 <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-auto">
-                  {recipe.createdBy && `${recipe.createdBy} · `}{new Date(recipe.createdAt).toLocaleDateString()}
+                  {recipe.totalMinutes !== null &&
+                    `${formatMinutes(recipe.totalMinutes)} · `}
+                  {recipe.createdBy && `${recipe.createdBy} · `}
+                  {new Date(recipe.createdAt).toLocaleDateString()}
                 </p>
               </div>
             </Link>
           ))}
         </div>
       )}
+
+      {/* Infinite scroll: loads the next page as this comes into view */}
+      {nextCursor && (
+        <div ref={sentinelRef} className="flex justify-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="rounded-lg border border-zinc-200 dark:border-zinc-700 px-4 py-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-60"
+          >
+            {loadingMore ? "Loading…" : "Load more"}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,124 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+
+export function WhatCanICook({
+  have,
+  ignoreStaples,
+}: {
+  have: string[];
+  ignoreStaples: boolean;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [input, setInput] = useState("");
+
+  // The ingredient list lives in the URL so the page can rank on the server
+  function update(changes: { cook?: string | null; staples?: string | null }) {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        params.delete(key);
+      } else if (value !== undefined) {
+        params.set(key, value);
+      }
+    }
+    const qs = params.toString();
+    router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
+  }
+
+  function addIngredients(value: string) {
+    const added = value
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (added.length === 0) return;
+    update({ cook: [...have, ...added].join(",") });
+    setInput("");
+  }
+
+  function removeIngredient(index: number) {
+    update({ cook: have.filter((_, i) => i !== index).join(",") });
+  }
+
+  return (
+    <section className="flex flex-col gap-3 rounded-xl border border-zinc-200 dark:border-zinc-800 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-base font-semibold text-zinc-900 dark:text-zinc-100">
+          What can I cook?
+        </h2>
+        <button
+          type="button"
+          onClick={() => update({ cook: null, staples: null })}
+          className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        List what you have and recipes are ranked by how much of them you can
+        already make.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {have.map((ingredient, i) => (
+          <span
+            key={ingredient}
+            className="inline-flex items-center gap-1 rounded-full bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900 px-2.5 py-0.5 text-xs"
+          >
+            {ingredient}
+            <button
+              type="button"
+              onClick={() => removeIngredient(i)}
+              aria-label={`Remove ${ingredient}`}
+              className="rounded p-0.5 hover:bg-zinc-700 dark:hover:bg-zinc-300 transition-colors"
+            >
+              <svg
+                aria-hidden="true"
+                className="h-3 w-3"
+                viewBox="0 0 12 12"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M2 2l8 8M10 2L2 10" strokeLinecap="round" />
+              </svg>
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addIngredients(input);
+            } else if (e.key === "Backspace" && !input && have.length > 0) {
+              removeIngredient(have.length - 1);
+            }
+          }}
+          onBlur={() => addIngredients(input)}
+          placeholder={
+            have.length > 0 ? "Add more..." : "e.g. chickpeas, spinach, onion"
+          }
+          className="min-w-40 flex-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-1.5 text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+        <input
+          type="checkbox"
+          checked={ignoreStaples}
+          onChange={(e) =>
+            update({ staples: e.target.checked ? null : "include" })
+          }
+          className="h-4 w-4 rounded border-zinc-300 dark:border-zinc-600"
+        />
+        Ignore pantry staples (salt, pepper, oil, water…)
+      </label>
+    </section>
+  );
+}
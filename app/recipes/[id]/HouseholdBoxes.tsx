@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import type { UserHousehold } from "../../../lib/households";
+import { setHouseholdRecipeAction } from "../../actions";
+
+/** Checkboxes for putting the recipe in the user's households' boxes. */
+export function HouseholdBoxes({
+  recipeId,
+  households,
+  savedIn,
+}: {
+  recipeId: string;
+  households: UserHousehold[];
+  savedIn: string[];
+}) {
+  const [saved, setSaved] = useState(() => new Set(savedIn));
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function toggle(householdId: string) {
+    const next = !saved.has(householdId);
+    setPending(householdId);
+    setError(null);
+    const result = await setHouseholdRecipeAction(householdId, recipeId, next);
+    setPending(null);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setSaved((prev) => {
+      const updated = new Set(prev);
+      if (next) updated.add(householdId);
+      else updated.delete(householdId);
+      return updated;
+    });
+  }
+
+  return (
+    <div className="print:hidden flex flex-wrap items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400">
+      <span>Saved to</span>
+      {households.map((household) => (
+        <label key={household.id} className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={saved.has(household.id)}
+            onChange={() => toggle(household.id)}
+            disabled={pending !== null}
+            className="rounded border-zinc-300 dark:border-zinc-600"
+          />
+          {household.name}
+        </label>
+      ))}
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { createShareLinkAction, revokeShareLinkAction } from "../../actions";
+
+type ShareLink = { id: string; token: string; expiresAt: string | null };
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never expires", days: null },
+  { label: "Expires in 1 day", days: 1 },
+  { label: "Expires in 7 days", days: 7 },
+  { label: "Expires in 30 days", days: 30 },
+];
+
+/** Public links to the recipe that work without an account. */
+export function ShareLinks({
+  recipeId,
+  links,
+}: {
+  recipeId: string;
+  links: ShareLink[];
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(links.length > 0);
+  const [expiry, setExpiry] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  function shareUrl(token: string) {
+    return `${origin}/s/${token}`;
+  }
+
+  async function copy(token: string) {
+    await navigator.clipboard.writeText(shareUrl(token));
+    setCopied(token);
+  }
+
+  async function create() {
+    setCreating(true);
+    setError(null);
+    const result = await createShareLinkAction(
+      recipeId,
+      EXPIRY_OPTIONS[expiry].days,
+    );
+    setCreating(false);
+    if (result.success) {
+      await copy(result.token);
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  async function revoke(shareId: string) {
+    if (!window.confirm("Revoke this link? Anyone who has it loses access.")) {
+      return;
+    }
+    setError(null);
+    const result = await revokeShareLinkAction(shareId);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="print:hidden self-start text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+      >
+        Share a public link…
+      </button>
+    );
+  }
+
+  return (
+    <section className="print:hidden flex flex-col gap-3 rounded-xl border border-zinc-200 dark:border-zinc-800 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+          Public links
+        </span>
+        <select
+          value={expiry}
+          onChange={(e) => setExpiry(Number(e.target.value))}
+          disabled={creating}
+          aria-label="Link expiry"
+          className="ml-auto rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-2 py-1 text-xs text-zinc-700 dark:text-zinc-300 focus:border-zinc-500 focus:outline-none disabled:opacity-50"
+        >
+          {EXPIRY_OPTIONS.map((option, i) => (
+            <option key={option.label} value={i}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={create}
+          disabled={creating}
+          className="rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {creating ? "Creating…" : "Create link"}
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+        Anyone with a link can read this recipe without signing in.
+      </p>
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {links.length > 0 && (
+        <ul className="flex flex-col divide-y divide-zinc-100 dark:divide-zinc-800">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center gap-3 py-2">
+              <span className="min-w-0 flex-1 truncate font-mono text-xs text-zinc-600 dark:text-zinc-400">
+                {shareUrl(link.token)}
+              </span>
+              <span className="shrink-0 text-xs text-zinc-400 dark:text-zinc-500">
+                {link.expiresAt
+                  ? `until ${new Date(link.expiresAt).toLocaleDateString()}`
+                  : "no expiry"}
+              </span>
+              <button
+                type="button"
+                onClick={() => copy(link.token)}
+                className="shrink-0 text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+              >
+                {copied === link.token ? "Copied" : "Copy"}
+              </button>
+              <button
+                type="button"
+                onClick={() => revoke(link.id)}
+                className="shrink-0 text-xs font-medium text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { RecipeVisibility } from "../../../lib/visibility";
+import {
+  isRecipeVisibility,
+  RECIPE_VISIBILITIES,
+  VISIBILITY_LABELS,
+} from "../../../lib/visibility";
+import { updateRecipeVisibilityAction } from "../../actions";
+
+export function VisibilitySelect({
+  recipeId,
+  visibility,
+}: {
+  recipeId: string;
+  visibility: RecipeVisibility;
+}) {
+  const router = useRouter();
+  const [value, setValue] = useState(visibility);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function change(next: string) {
+    if (!isRecipeVisibility(next) || next === value) return;
+    const previous = value;
+    setValue(next);
+    setSaving(true);
+    setError(null);
+    const result = await updateRecipeVisibilityAction(recipeId, next);
+    setSaving(false);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setValue(previous);
+      setError(result.error);
+    }
+  }
+
+  return (
+    <span className="flex items-center gap-2">
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+      )}
+      <label className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
+        Visible to
+        <select
+          value={value}
+          onChange={(e) => change(e.target.value)}
+          disabled={saving}
+          className="rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-2 py-1 text-sm text-zinc-700 dark:text-zinc-300 focus:border-zinc-500 focus:outline-none disabled:opacity-50"
+        >
+          {RECIPE_VISIBILITIES.map((option) => (
+            <option key={option} value={option}>
+              {VISIBILITY_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </span>
+  );
+}
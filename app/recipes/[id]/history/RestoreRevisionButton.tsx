@@ -0,0 +1,47 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { restoreRevisionAction } from "../../../actions";
+
+export function RestoreRevisionButton({
+  recipeId,
+  revisionId,
+}: {
+  recipeId: string;
+  revisionId: string;
+}) {
+  const router = useRouter();
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function restore() {
+    if (!window.confirm("Restore the recipe to this version?")) return;
+    setRestoring(true);
+    setError(null);
+    const result = await restoreRevisionAction(recipeId, revisionId);
+    setRestoring(false);
+    if (result.success) {
+      router.push(`/recipes/${result.recipeId}`);
+      router.refresh();
+    } else {
+      setError(result.error);
+    }
+  }
+
+  return (
+    <span className="flex items-center gap-2">
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+      )}
+      <button
+        type="button"
+        onClick={restore}
+        disabled={restoring}
+        className="rounded-lg border border-zinc-200 dark:border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+      >
+        {restoring ? "Restoring…" : "Restore this version"}
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,169 @@
+export const dynamic = "force-dynamic";
+
+import { desc, eq } from "drizzle-orm";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { db } from "../../../../db";
+import { recipeRevisions, recipes } from "../../../../db/schema";
+import { canViewRecipe } from "../../../../lib/auth/permissions";
+import { auth } from "../../../../lib/auth/server";
+import type { DiffLine } from "../../../../lib/revisions";
+import { diffSnapshots } from "../../../../lib/revisions";
+import { RestoreRevisionButton } from "./RestoreRevisionButton";
+
+const LINE_STYLES: Record<DiffLine["op"], string> = {
+  same: "text-zinc-500 dark:text-zinc-400",
+  added: "bg-green-50 text-green-800 dark:bg-green-950/40 dark:text-green-300",
+  removed:
+    "bg-red-50 text-red-800 line-through dark:bg-red-950/40 dark:text-red-300",
+};
+
+const LINE_MARKERS: Record<DiffLine["op"], string> = {
+  same: " ",
+  added: "+",
+  removed: "−",
+};
+
+export default async function RecipeHistoryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const { data: session } = await auth.getSession();
+
+  const recipe = await db.query.recipes.findFirst({
+    columns: { id: true, title: true, visibility: true, createdById: true },
+    where: eq(recipes.id, id),
+  });
+  if (!recipe || !(await canViewRecipe(recipe, session?.user))) notFound();
+
+  const revisions = await db.query.recipeRevisions.findMany({
+    where: eq(recipeRevisions.recipeId, id),
+    orderBy: [desc(recipeRevisions.createdAt)],
+  });
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-6 py-12 px-5 bg-white dark:bg-black">
+        <div className="flex items-center gap-4">
+          <Link
+            href={`/recipes/${id}`}
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            &larr; Back to recipe
+          </Link>
+        </div>
+        <h1 className="text-2xl font-semibold tracking-tight text-black dark:text-zinc-50">
+          History of {recipe.title}
+        </h1>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
+            No changes have been recorded for this recipe yet.
+          </p>
+        ) : (
+          <ol className="flex flex-col gap-4">
+            {revisions.map((revision, i) => {
+              // Each revision is compared with the one before it
+              const diff = diffSnapshots(
+                revisions[i + 1]?.snapshot ?? null,
+                revision.snapshot,
+              );
+              const unchanged =
+                diff.fields.length === 0 && diff.lists.length === 0;
+              return (
+                <li
+                  key={revision.id}
+                  className="flex flex-col gap-3 rounded-xl border border-zinc-200 dark:border-zinc-800 p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-col">
+                      <span className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                        {revision.summary}
+                        {i === 0 && (
+                          <span className="ml-2 rounded-full bg-zinc-100 dark:bg-zinc-800 px-2 py-0.5 text-xs font-normal text-zinc-500 dark:text-zinc-400">
+                            Current
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                        {revision.authorName ?? "Unknown"} ·{" "}
+                        {revision.createdAt.toLocaleString()}
+                      </span>
+                    </div>
+                    {i > 0 && session?.user && (
+                      <RestoreRevisionButton
+                        recipeId={id}
+                        revisionId={revision.id}
+                      />
+                    )}
+                  </div>
+
+                  {unchanged && (
+                    <p className="text-xs text-zinc-400 dark:text-zinc-500 italic">
+                      No visible changes.
+                    </p>
+                  )}
+
+                  {diff.fields.map((field) => (
+                    <div
+                      key={field.label}
+                      className="flex flex-col gap-1 text-sm"
+                    >
+                      <span className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                        {field.label}
+                      </span>
+                      {field.before && (
+                        <span
+                          className={`rounded px-2 py-0.5 ${LINE_STYLES.removed}`}
+                        >
+                          {field.before}
+                        </span>
+                      )}
+                      {field.after && (
+                        <span
+                          className={`rounded px-2 py-0.5 ${LINE_STYLES.added}`}
+                        >
+                          {field.after}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+
+                  {diff.lists.map((list) => (
+                    <div
+                      key={list.label}
+                      className="flex flex-col gap-1 text-sm"
+                    >
+                      <span className="text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                        {list.label}
+                      </span>
+                      <ul className="flex flex-col gap-0.5">
+                        {list.lines.map((line, j) => (
+                          <li
+                            // biome-ignore lint/suspicious/noArrayIndexKey: diff lines repeat and have no identity
+                            key={j}
+                            className={`flex gap-2 rounded px-2 py-0.5 break-words ${LINE_STYLES[line.op]}`}
+                          >
+                            <span
+                              aria-hidden="true"
+                              className="w-3 shrink-0 font-mono"
+                            >
+                              {LINE_MARKERS[line.op]}
+                            </span>
+                            <span className="min-w-0">{line.text}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </main>
+    </div>
+  );
+}
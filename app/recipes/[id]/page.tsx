@@ -1,12 +1,29 @@
 export const dynamic = "force-dynamic";
 
-import Link from "next/link";
 import { eq } from "drizzle-orm";
+import Link from "next/link";
 import { notFound } from "next/navigation";
+import { after } from "next/server";
+import { RecipeCard } from "../../../components/RecipeCard";
 import { db } from "../../../db";
 import { recipes } from "../../../db/schema";
+import { canViewRecipe, recipePermission } from "../../../lib/auth/permissions";
+import { auth } from "../../../lib/auth/server";
+import { collectionChoices } from "../../../lib/collections";
+import {
+  cookingSession,
+  deleteExpiredCookingSessions,
+} from "../../../lib/cooking-sessions";
+import { recipeVersion } from "../../../lib/forks";
+import { householdsWithRecipe, userHouseholds } from "../../../lib/households";
+import { stepIngredientsFromRows } from "../../../lib/ingredients";
+import { unitPreferences } from "../../../lib/preferences";
+import { sectionsFromRows } from "../../../lib/sections";
+import { activeShares, shareToken, sharingEnabled } from "../../../lib/shares";
 import type { RecipeData } from "../../actions";
-import { RecipeCard } from "../../../components/RecipeCard";
+import { HouseholdBoxes } from "./HouseholdBoxes";
+import { ShareLinks } from "./ShareLinks";
+import { VisibilitySelect } from "./VisibilitySelect";
 
 export default async function RecipeDetailPage({
   params,
@@ -14,26 +31,78 @@ export default async function RecipeDetailPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
+  const { data: session } = await auth.getSession();
 
   const result = await db.query.recipes.findFirst({
     where: eq(recipes.id, id),
     with: {
+      images: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
       ingredients: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
       instructions: { orderBy: (i, { asc }) => [asc(i.stepNumber)] },
     },
   });
 
-  if (!result) notFound();
+  if (!result || !(await canViewRecipe(result, session?.user))) notFound();
+
+  const version = await recipeVersion(result, session?.user?.id);
+  const permission = session?.user
+    ? await recipePermission(result.id, session.user)
+    : null;
+  const editable = permission?.allowed ?? false;
+  // Savers can edit their own version but not who sees the original
+  const isOwner = permission?.allowed === true && permission.role !== "saver";
+  const [households, savedIn, collections, units, progress] = session?.user
+    ? await Promise.all([
+        userHouseholds(session.user.id),
+        householdsWithRecipe(result.id, session.user.id),
+        collectionChoices(result.id, session.user.id),
+        unitPreferences(session.user.id),
+        cookingSession(session.user.id, result.id),
+      ])
+    : [[], [], undefined, undefined, undefined];
+  if (session?.user) {
+    const userId = session.user.id;
+    after(() => deleteExpiredCookingSessions(userId));
+  }
+  // Owners see every link to the recipe, others only the ones they made
+  const canShare =
+    sharingEnabled() &&
+    session?.user !== undefined &&
+    (result.visibility === "public" || isOwner);
+  const shares =
+    canShare && session?.user
+      ? (await activeShares(result.id)).filter(
+          (share) => isOwner || share.createdById === session.user.id,
+        )
+      : [];
 
   const recipe: RecipeData = {
     title: result.title,
     description: result.description ?? undefined,
     servings: result.servings ?? undefined,
-    ingredients: result.ingredients.map((i) =>
-      i.quantity ? `${i.quantity} ${i.name}` : i.name,
-    ),
+    prepMinutes: result.prepMinutes ?? undefined,
+    cookMinutes: result.cookMinutes ?? undefined,
+    restMinutes: result.restMinutes ?? undefined,
+    totalMinutes: result.totalMinutes ?? undefined,
+    ingredients: result.ingredients.map((i) => i.text),
     instructions: result.instructions.map((i) => i.content),
-    images: result.imageUrl ? [result.imageUrl] : [],
+    parsedIngredients: result.ingredients.map(
+      ({ text, quantityMin, quantityMax, unit, name, note }) => ({
+        text,
+        quantityMin,
+        quantityMax,
+        unit,
+        name,
+        note,
+      }),
+    ),
+    stepIngredients: stepIngredientsFromRows(
+      result.instructions,
+      result.ingredients,
+    ),
+    ingredientSections: sectionsFromRows(result.ingredients),
+    instructionSections: sectionsFromRows(result.instructions),
+    images: result.images.map((i) => i.url),
     sourceUrl: result.sourceUrl,
     tags: result.tags && result.tags.length > 0 ? result.tags : undefined,
   };
@@ -48,13 +117,52 @@ export default async function RecipeDetailPage({
           >
             &larr; Back to recipes
           </Link>
+          <Link
+            href={`/recipes/${result.id}/history`}
+            className="ml-auto text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            History
+          </Link>
+        </div>
+        <div className="print:hidden flex flex-wrap items-center justify-between gap-2">
+          {result.createdBy && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              Added by {result.createdBy}
+            </p>
+          )}
+          {isOwner && (
+            <VisibilitySelect
+              recipeId={result.id}
+              visibility={result.visibility}
+            />
+          )}
         </div>
-        {result.createdBy && (
-          <p className="text-sm text-zinc-500 dark:text-zinc-400">
-            Added by {result.createdBy}
-          </p>
+        {households.length > 0 && (
+          <HouseholdBoxes
+            recipeId={result.id}
+            households={households}
+            savedIn={savedIn}
+          />
+        )}
+        {canShare && (
+          <ShareLinks
+            recipeId={result.id}
+            links={shares.map((share) => ({
+              id: share.id,
+              token: shareToken(share.id),
+              expiresAt: share.expiresAt?.toISOString() ?? null,
+            }))}
+          />
         )}
-        <RecipeCard recipe={recipe} recipeId={result.id} />
+        <RecipeCard
+          recipe={recipe}
+          recipeId={result.id}
+          version={version}
+          editable={editable}
+          collections={collections}
+          unitPreferences={units}
+          cookingSession={progress}
+        />
       </main>
     </div>
   );
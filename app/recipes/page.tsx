@@ -1,100 +1,150 @@
 export const dynamic = "force-dynamic";
 
 import Link from "next/link";
-import { desc, eq } from "drizzle-orm";
-import { db } from "../../db";
-import { recipes, userRecipes } from "../../db/schema";
+import { isAdmin } from "../../lib/auth/permissions";
 import { auth } from "../../lib/auth/server";
+import { userCollections } from "../../lib/collections";
+import { userHouseholds } from "../../lib/households";
+import { parseHaveList } from "../../lib/pantry";
+import { queryRecipeFacets, queryRecipeList } from "../../lib/recipe-list";
+import type { RecipeSearchParams } from "../../lib/recipe-list-params";
+import {
+  hasActiveFilters,
+  parseRecipeListParams,
+  recipesHref,
+} from "../../lib/recipe-list-params";
+import { CollectionCard } from "../collections/CollectionCard";
 import { RecipeListWithFilter } from "./RecipeListWithFilter";
+import { WhatCanICook } from "./WhatCanICook";
 
 export default async function RecipesPage({
   searchParams,
 }: {
-  searchParams: Promise<{ filter?: string }>;
+  searchParams: Promise<RecipeSearchParams>;
 }) {
   const { data: session } = await auth.getSession();
   const userId = session?.user?.id;
-  const { filter } = await searchParams;
-  const showMine = filter === "mine";
+  const params = parseRecipeListParams(await searchParams);
+  const showMine = params.mine;
+  const [households, collections] = userId
+    ? await Promise.all([userHouseholds(userId), userCollections(userId)])
+    : [[], []];
+  const household = params.mine
+    ? undefined
+    : households.find((h) => h.id === params.household);
+  const cookMode = params.cook !== null;
+  const have = params.cook ? parseHaveList(params.cook) : [];
 
-  const allRecipes =
-    showMine && userId
-      ? await db
-          .select({
-            id: recipes.id,
-            title: recipes.title,
-            description: recipes.description,
-            imageUrl: recipes.imageUrl,
-            tags: recipes.tags,
-            createdBy: recipes.createdBy,
-            createdAt: recipes.createdAt,
-          })
-          .from(userRecipes)
-          .innerJoin(recipes, eq(userRecipes.recipeId, recipes.id))
-          .where(eq(userRecipes.userId, userId))
-          .orderBy(desc(recipes.createdAt))
-      : await db
-          .select({
-            id: recipes.id,
-            title: recipes.title,
-            description: recipes.description,
-            imageUrl: recipes.imageUrl,
-            tags: recipes.tags,
-            createdBy: recipes.createdBy,
-            createdAt: recipes.createdAt,
-          })
-          .from(recipes)
-          .orderBy(desc(recipes.createdAt));
-
-  const recipeList = allRecipes.map((r) => ({
-    id: r.id,
-    title: r.title,
-    description: r.description,
-    imageUrl: r.imageUrl,
-    tags: r.tags ?? [],
-    createdBy: r.createdBy,
-    createdAt: r.createdAt,
-  }));
+  const [page, facets] = await Promise.all([
+    queryRecipeList(params, userId),
+    queryRecipeFacets(params, userId),
+  ]);
+  const isEmptyLibrary =
+    facets.total === 0 &&
+    !params.q &&
+    have.length === 0 &&
+    !hasActiveFilters(params);
 
   return (
     <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
       <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-8 py-12 px-5 bg-white dark:bg-black">
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
-            {showMine ? "My Recipes" : "All Recipes"}
+            {showMine
+              ? "My Recipes"
+              : household
+                ? household.name
+                : "All Recipes"}
           </h1>
-          <Link
-            href="/"
-            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
-          >
-            Add Recipe
-          </Link>
+          <div className="flex items-center gap-4">
+            {session?.user && isAdmin(session.user) && (
+              <Link
+                href="/tags"
+                className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+              >
+                Manage tags
+              </Link>
+            )}
+            <Link
+              href="/"
+              className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+            >
+              Add Recipe
+            </Link>
+          </div>
         </div>
 
-        <div className="flex gap-2">
-          <Link
-            href="/recipes"
-            className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
-              !showMine
-                ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
-                : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
-            }`}
-          >
-            All
-          </Link>
-          <Link
-            href="/recipes?filter=mine"
-            className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
-              showMine
-                ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
-                : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
-            }`}
-          >
-            Mine
-          </Link>
+        <div className="flex flex-wrap gap-2">
+          {[
+            {
+              key: "all",
+              label: "All",
+              href: recipesHref({ ...params, mine: false, household: null }),
+              active: !showMine && !params.household,
+            },
+            {
+              key: "mine",
+              label: "Mine",
+              href: recipesHref({ ...params, mine: true, household: null }),
+              active: showMine,
+            },
+            ...households.map((h) => ({
+              key: h.id,
+              label: h.name,
+              href: recipesHref({ ...params, mine: false, household: h.id }),
+              active: household?.id === h.id,
+            })),
+          ].map((tab) => (
+            <Link
+              key={tab.key}
+              href={tab.href}
+              className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                tab.active
+                  ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                  : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+              }`}
+            >
+              {tab.label}
+            </Link>
+          ))}
+          {!cookMode && (
+            <Link
+              href={recipesHref({ ...params, cook: "" })}
+              className="ml-auto rounded-full px-3 py-1 text-sm font-medium transition-colors bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+            >
+              What can I cook?
+            </Link>
+          )}
         </div>
 
-        {allRecipes.length === 0 ? (
+        {collections.length > 0 && !cookMode && (
+          <section className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+                Collections
+              </h2>
+              <Link
+                href="/collections"
+                className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+              >
+                All collections &rarr;
+              </Link>
+            </div>
+            <div className="-mx-5 flex gap-3 overflow-x-auto px-5 pb-1">
+              {collections.map((collection) => (
+                <div key={collection.id} className="w-36 shrink-0">
+                  <CollectionCard collection={collection} />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {cookMode && (
+          <WhatCanICook have={have} ignoreStaples={!params.includeStaples} />
+        )}
+
+        {isEmptyLibrary ? (
           <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
             No recipes saved yet.{" "}
             <Link href="/" className="underline hover:text-zinc-600">
@@ -103,7 +153,11 @@ export default async function RecipesPage({
             .
           </p>
         ) : (
-          <RecipeListWithFilter recipes={recipeList} />
+          <RecipeListWithFilter
+            params={params}
+            initialPage={page}
+            facets={facets}
+          />
         )}
       </main>
     </div>
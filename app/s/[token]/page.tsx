@@ -0,0 +1,139 @@
+export const dynamic = "force-dynamic";
+
+import { eq } from "drizzle-orm";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { RecipeCard } from "../../../components/RecipeCard";
+import { db } from "../../../db";
+import { recipes } from "../../../db/schema";
+import { isAdmin } from "../../../lib/auth/permissions";
+import { stepIngredientsFromRows } from "../../../lib/ingredients";
+import { sectionsFromRows } from "../../../lib/sections";
+import { findShare } from "../../../lib/shares";
+import type { RecipeData } from "../../actions";
+
+// Public: this route is left out of the auth matcher in proxy.ts, so the
+// token is the only check. Metadata and page share one lookup per request.
+const loadSharedRecipe = cache(async (token: string) => {
+  const share = await findShare(token);
+  if (!share) return null;
+  const result = await db.query.recipes.findFirst({
+    where: eq(recipes.id, share.recipeId),
+    with: {
+      images: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
+      ingredients: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
+      instructions: { orderBy: (i, { asc }) => [asc(i.stepNumber)] },
+    },
+  });
+  if (!result) return null;
+  // Someone else's link to a once-public recipe stops working when the
+  // owner narrows who can see it
+  if (
+    result.visibility !== "public" &&
+    share.createdById !== result.createdById &&
+    !isAdmin({ id: share.createdById })
+  ) {
+    return null;
+  }
+  return result;
+});
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}): Promise<Metadata> {
+  const { token } = await params;
+  const result = await loadSharedRecipe(token);
+  if (!result) return { title: "Recipe not found · Savorit" };
+
+  const description =
+    result.description?.slice(0, 200) ??
+    `${result.ingredients.length} ingredients · shared from Savorit`;
+  const image = result.images[0]?.url;
+  return {
+    title: `${result.title} · Savorit`,
+    description,
+    // Share links are for the people they're sent to, not for search
+    robots: { index: false, follow: false },
+    openGraph: {
+      type: "article",
+      title: result.title,
+      description,
+      siteName: "Savorit",
+      images: image ? [{ url: image, alt: result.title }] : undefined,
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title: result.title,
+      description,
+      images: image ? [image] : undefined,
+    },
+  };
+}
+
+export default async function SharedRecipePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const result = await loadSharedRecipe(token);
+  if (!result) notFound();
+
+  const recipe: RecipeData = {
+    title: result.title,
+    description: result.description ?? undefined,
+    servings: result.servings ?? undefined,
+    prepMinutes: result.prepMinutes ?? undefined,
+    cookMinutes: result.cookMinutes ?? undefined,
+    restMinutes: result.restMinutes ?? undefined,
+    totalMinutes: result.totalMinutes ?? undefined,
+    ingredients: result.ingredients.map((i) => i.text),
+    instructions: result.instructions.map((i) => i.content),
+    parsedIngredients: result.ingredients.map(
+      ({ text, quantityMin, quantityMax, unit, name, note }) => ({
+        text,
+        quantityMin,
+        quantityMax,
+        unit,
+        name,
+        note,
+      }),
+    ),
+    stepIngredients: stepIngredientsFromRows(
+      result.instructions,
+      result.ingredients,
+    ),
+    ingredientSections: sectionsFromRows(result.ingredients),
+    instructionSections: sectionsFromRows(result.instructions),
+    images: result.images.map((i) => i.url),
+    sourceUrl: result.sourceUrl,
+    tags: result.tags && result.tags.length > 0 ? result.tags : undefined,
+  };
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-6 py-12 px-5 bg-white dark:bg-black">
+        {result.createdBy && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Shared by {result.createdBy}
+          </p>
+        )}
+        <RecipeCard recipe={recipe} />
+        <p className="print:hidden text-center text-sm text-zinc-500 dark:text-zinc-400">
+          Save recipes from any site with{" "}
+          <Link
+            href="/auth/sign-up"
+            className="font-medium underline hover:text-zinc-900 dark:hover:text-zinc-100"
+          >
+            Savorit
+          </Link>
+          .
+        </p>
+      </main>
+    </div>
+  );
+}
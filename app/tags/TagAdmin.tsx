@@ -0,0 +1,221 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { TagAdminResult } from "../actions";
+import {
+  mergeTagsAction,
+  removeTagAliasAction,
+  setTagAliasAction,
+  setTagParentAction,
+} from "../actions";
+
+type TagRow = {
+  tag: string;
+  key: string;
+  count: number;
+  parent: string | null;
+};
+
+const inputClass =
+  "rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50";
+const buttonClass =
+  "rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200";
+
+export function TagAdmin({
+  tags,
+  aliases,
+}: {
+  tags: TagRow[];
+  aliases: { alias: string; tag: string }[];
+}) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [target, setTarget] = useState("");
+  const [alias, setAlias] = useState("");
+  const [aliasTag, setAliasTag] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<TagAdminResult>) {
+    setBusy(true);
+    setError(null);
+    const result = await action();
+    setBusy(false);
+    if (!result.success) {
+      setError(result.error);
+      return false;
+    }
+    router.refresh();
+    return true;
+  }
+
+  function toggle(tag: string) {
+    setSelected((current) =>
+      current.includes(tag)
+        ? current.filter((t) => t !== tag)
+        : [...current, tag],
+    );
+  }
+
+  async function merge(e: React.FormEvent) {
+    e.preventDefault();
+    if (await run(() => mergeTagsAction(selected, target))) {
+      setSelected([]);
+      setTarget("");
+    }
+  }
+
+  async function addAlias(e: React.FormEvent) {
+    e.preventDefault();
+    if (await run(() => setTagAliasAction(alias, aliasTag))) {
+      setAlias("");
+      setAliasTag("");
+    }
+  }
+
+  async function setParent(row: TagRow, input: HTMLInputElement) {
+    const parent = input.value.trim() || null;
+    if ((parent?.toLowerCase() ?? null) === row.parent) return;
+    if (!(await run(() => setTagParentAction(row.tag, parent)))) {
+      input.value = row.parent ?? "";
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      {error && (
+        <p className="rounded-lg border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+          {error}
+        </p>
+      )}
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+          Tags in use
+        </h2>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Select one tag to rename it, or several to merge them, on every
+          recipe. Filtering by a tag also shows recipes tagged with anything
+          nested under it.
+        </p>
+        <datalist id="tag-keys">
+          {tags.map((row) => (
+            <option key={row.tag} value={row.key} />
+          ))}
+        </datalist>
+        {tags.length === 0 ? (
+          <p className="text-sm text-zinc-400 dark:text-zinc-500 italic">
+            No recipe has tags yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {tags.map((row) => (
+              <li key={row.tag} className="flex items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(row.tag)}
+                  onChange={() => toggle(row.tag)}
+                  disabled={busy || row.count === 0}
+                  aria-label={`Select ${row.tag}`}
+                />
+                <span className="flex-1 text-sm text-zinc-900 dark:text-zinc-100">
+                  {row.tag}{" "}
+                  <span className="text-xs text-zinc-400 dark:text-zinc-500">
+                    {row.count}
+                  </span>
+                </span>
+                <input
+                  type="text"
+                  list="tag-keys"
+                  defaultValue={row.parent ?? ""}
+                  placeholder="Parent"
+                  aria-label={`Parent of ${row.tag}`}
+                  disabled={busy}
+                  onBlur={(e) => setParent(row, e.currentTarget)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  className={`w-36 ${inputClass}`}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+        {selected.length > 0 && (
+          <form onSubmit={merge} className="flex gap-2">
+            <input
+              type="text"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder={selected.length === 1 ? "New name" : "Merge into"}
+              aria-label={selected.length === 1 ? "New name" : "Merge into"}
+              required
+              disabled={busy}
+              className={`flex-1 ${inputClass}`}
+            />
+            <button type="submit" disabled={busy} className={buttonClass}>
+              {selected.length === 1
+                ? "Rename"
+                : `Merge ${selected.length} tags`}
+            </button>
+          </form>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+          Aliases
+        </h2>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          New and imported recipes tagged with an alias get its tag instead.
+        </p>
+        {aliases.length > 0 && (
+          <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {aliases.map((row) => (
+              <li key={row.alias} className="flex items-center gap-3 py-2">
+                <span className="flex-1 text-sm text-zinc-900 dark:text-zinc-100">
+                  {row.alias} &rarr; {row.tag}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => run(() => removeTagAliasAction(row.alias))}
+                  disabled={busy}
+                  className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={addAlias} className="flex gap-2">
+          <input
+            type="text"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            placeholder="Alias, e.g. veggie"
+            aria-label="Alias"
+            required
+            disabled={busy}
+            className={`min-w-0 flex-1 ${inputClass}`}
+          />
+          <input
+            type="text"
+            list="tag-keys"
+            value={aliasTag}
+            onChange={(e) => setAliasTag(e.target.value)}
+            placeholder="Tag, e.g. vegetarian"
+            aria-label="Tag"
+            required
+            disabled={busy}
+            className={`min-w-0 flex-1 ${inputClass}`}
+          />
+          <button type="submit" disabled={busy} className={buttonClass}>
+            Add
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
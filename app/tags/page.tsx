@@ -0,0 +1,53 @@
+export const dynamic = "force-dynamic";
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { isAdmin } from "../../lib/auth/permissions";
+import { auth } from "../../lib/auth/server";
+import { tagAliasList, tagHierarchy, tagKey, tagUsage } from "../../lib/tags";
+import { TagAdmin } from "./TagAdmin";
+
+export default async function TagsPage() {
+  const { data: session } = await auth.getSession();
+  if (!session?.user || !isAdmin(session.user)) notFound();
+
+  const [usage, hierarchy, aliases] = await Promise.all([
+    tagUsage(),
+    tagHierarchy(),
+    tagAliasList(),
+  ]);
+  const parents = new Map(hierarchy.map((row) => [row.tag, row.parent]));
+  // A parent needn't be on any recipe itself, e.g. "italian" over "pasta",
+  // but it still gets a row so it can be nested in turn
+  const used = new Set(usage.map((row) => tagKey(row.tag)));
+  const unused = [...new Set(hierarchy.map((row) => row.parent))]
+    .filter((key) => !used.has(key))
+    .map((tag) => ({ tag, count: 0 }));
+  const tags = [...usage, ...unused]
+    .map((row) => ({
+      ...row,
+      key: tagKey(row.tag),
+      parent: parents.get(tagKey(row.tag)) ?? null,
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main className="flex min-h-screen w-full max-w-2xl mx-auto flex-col gap-8 py-12 px-5 bg-white dark:bg-black">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+            Tags
+          </h1>
+          <Link
+            href="/recipes"
+            className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            All recipes
+          </Link>
+        </div>
+
+        <TagAdmin tags={tags} aliases={aliases} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  createCollectionAction,
+  setCollectionRecipeAction,
+} from "../app/actions";
+import type { CollectionChoice } from "../lib/collections";
+
+/** "Collections" button with a menu for adding the recipe to them. */
+export function AddToCollection({
+  recipeId,
+  collections,
+}: {
+  recipeId: string;
+  collections: CollectionChoice[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [choices, setChoices] = useState(collections);
+  const [newName, setNewName] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    setChoices(collections);
+  }, [collections]);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return;
+    function onPointerDown(e: PointerEvent) {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("pointerdown", onPointerDown);
+    return () => document.removeEventListener("pointerdown", onPointerDown);
+  }, [open]);
+
+  async function toggle(choice: CollectionChoice) {
+    setPending(true);
+    setError(null);
+    const result = await setCollectionRecipeAction(
+      choice.id,
+      recipeId,
+      !choice.included,
+    );
+    setPending(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setChoices((prev) =>
+      prev.map((c) =>
+        c.id === choice.id ? { ...c, included: !c.included } : c,
+      ),
+    );
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setPending(true);
+    setError(null);
+    const result = await createCollectionAction(
+      { name: newName, description: "" },
+      recipeId,
+    );
+    setPending(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setChoices((prev) =>
+      [
+        ...prev,
+        { id: result.collectionId, name: newName.trim(), included: true },
+      ].sort((a, b) => a.name.localeCompare(b.name)),
+    );
+    setNewName("");
+  }
+
+  const count = choices.filter((c) => c.included).length;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+        className="flex items-center gap-1.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-3 py-2 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
+      >
+        {count > 0
+          ? `In ${count} collection${count === 1 ? "" : "s"}`
+          : "Add to collection"}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 flex w-64 flex-col gap-2 rounded-xl border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-3 shadow-lg">
+          {choices.length > 0 && (
+            <ul className="flex max-h-60 flex-col gap-1 overflow-y-auto">
+              {choices.map((choice) => (
+                <li key={choice.id}>
+                  <label className="flex items-center gap-2 rounded px-1 py-1 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                    <input
+                      type="checkbox"
+                      checked={choice.included}
+                      onChange={() => toggle(choice)}
+                      disabled={pending}
+                      className="rounded border-zinc-300 dark:border-zinc-600"
+                    />
+                    <span className="truncate">{choice.name}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={create} className="flex gap-1.5">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection"
+              aria-label="New collection name"
+              disabled={pending}
+              className="min-w-0 flex-1 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-2 py-1 text-xs text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={pending || !newName.trim()}
+              className="rounded-lg bg-zinc-900 px-2 py-1 text-xs font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+            >
+              Add
+            </button>
+          </form>
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
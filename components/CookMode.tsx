@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { findDurations, formatMinutes } from "../lib/durations";
+import type { CookTimers } from "./CookTimers";
+import { TimerTray } from "./CookTimers";
+
+export type CookStep = {
+  text: string;
+  section: string | null;
+  /** Ingredient lines the step uses, as displayed on the card. */
+  ingredients: string[];
+};
+
+const SWIPE_PX = 50;
+
+/** Step text with each duration as a button that starts a timer. */
+export function StepText({
+  text,
+  onTimer,
+}: {
+  text: string;
+  onTimer: (label: string, seconds: number) => void;
+}) {
+  const durations = findDurations(text);
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const duration of durations) {
+    const label = text.slice(duration.start, duration.end);
+    parts.push(text.slice(last, duration.start));
+    parts.push(
+      <button
+        key={duration.start}
+        type="button"
+        onClick={() => onTimer(label, duration.seconds)}
+        title={`Start a ${formatMinutes(Math.ceil(duration.seconds / 60))} timer`}
+        className="rounded-md bg-amber-100 px-1 text-amber-800 underline decoration-dotted underline-offset-4 hover:bg-amber-200 dark:bg-amber-950/60 dark:text-amber-300 dark:hover:bg-amber-900/60"
+      >
+        ⏲ {label}
+      </button>,
+    );
+    last = duration.end;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+/**
+ * Fullscreen, one step at a time, for cooking with messy hands: swipe or
+ * use the arrow keys to move, tap a duration to start a timer.
+ */
+export function CookMode({
+  title,
+  steps,
+  step: current,
+  timers,
+  onStep,
+  onClose,
+}: {
+  title: string;
+  steps: CookStep[];
+  /** Index of the step shown. */
+  step: number;
+  timers: CookTimers;
+  /** Called on moving to `index`; `done` is the step finished, if any. */
+  onStep: (index: number, done: number | null) => void;
+  onClose: () => void;
+}) {
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+  // The recipe may have lost steps since the saved position
+  const index = Math.max(0, Math.min(current, steps.length - 1));
+  const step = steps[index];
+
+  const go = useCallback(
+    (delta: number) => {
+      const next = Math.min(steps.length - 1, Math.max(0, index + delta));
+      if (next !== index) onStep(next, delta > 0 ? index : null);
+    },
+    [index, steps.length, onStep],
+  );
+
+  const finish = useCallback(() => {
+    onStep(index, index);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onClose();
+  }, [index, onStep, onClose]);
+
+  const close = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onClose();
+  }, [onClose]);
+
+  useEffect(() => {
+    rootRef.current?.requestFullscreen?.().catch(() => {});
+    // The page underneath shouldn't scroll while cooking
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.target instanceof HTMLInputElement) return;
+      if (["ArrowRight", "ArrowDown", "PageDown", " "].includes(e.key)) {
+        e.preventDefault();
+        go(1);
+      } else if (["ArrowLeft", "ArrowUp", "PageUp"].includes(e.key)) {
+        e.preventDefault();
+        go(-1);
+      } else if (e.key === "Escape" && !document.fullscreenElement) {
+        close();
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [go, close]);
+
+  function onTouchEnd(e: React.TouchEvent) {
+    const start = touchStart.current;
+    touchStart.current = null;
+    if (!start) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) > SWIPE_PX && Math.abs(dx) > Math.abs(dy)) {
+      go(dx < 0 ? 1 : -1);
+    }
+  }
+
+  if (!step) return null;
+
+  return (
+    <div
+      ref={rootRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cooking ${title}`}
+      onTouchStart={(e) => {
+        touchStart.current = {
+          x: e.touches[0].clientX,
+          y: e.touches[0].clientY,
+        };
+      }}
+      onTouchEnd={onTouchEnd}
+      className="fixed inset-0 z-50 flex flex-col bg-white font-sans dark:bg-black"
+    >
+      <header className="flex items-center justify-between gap-4 border-b border-zinc-100 px-5 py-3 dark:border-zinc-800">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">
+            {title}
+          </p>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            Step {index + 1} of {steps.length}
+            {step.section && ` · ${step.section}`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={close}
+          className="text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+        >
+          Done
+        </button>
+      </header>
+      <div className="h-1 bg-zinc-100 dark:bg-zinc-800">
+        <div
+          className="h-full bg-amber-500 transition-all"
+          style={{ width: `${((index + 1) / steps.length) * 100}%` }}
+        />
+      </div>
+
+      <main className="flex flex-1 flex-col gap-8 overflow-y-auto px-6 py-8 mx-auto w-full max-w-3xl">
+        <p
+          aria-live="polite"
+          className="text-2xl leading-relaxed text-zinc-900 sm:text-3xl dark:text-zinc-100"
+        >
+          <StepText
+            text={step.text}
+            onTimer={(label, seconds) =>
+              timers.start(`Step ${index + 1} · ${label}`, title, seconds)
+            }
+          />
+        </p>
+        {step.ingredients.length > 0 && (
+          <section>
+            <h2 className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+              For this step
+            </h2>
+            <ul className="flex flex-col gap-1.5 text-lg text-zinc-700 dark:text-zinc-300">
+              {step.ingredients.map((line, i) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: lines can repeat
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+
+      <footer className="flex flex-col gap-3 border-t border-zinc-100 px-5 py-4 dark:border-zinc-800">
+        <TimerTray timers={timers} recipeTitle={title} large />
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => go(-1)}
+            disabled={index === 0}
+            className="flex-1 rounded-xl bg-zinc-100 py-4 text-lg font-medium text-zinc-700 transition-colors hover:bg-zinc-200 disabled:opacity-40 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+          >
+            ← Back
+          </button>
+          {index < steps.length - 1 ? (
+            <button
+              type="button"
+              onClick={() => go(1)}
+              className="flex-[2] rounded-xl bg-zinc-900 py-4 text-lg font-medium text-white transition-colors hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+            >
+              Next →
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={finish}
+              className="flex-[2] rounded-xl bg-zinc-900 py-4 text-lg font-medium text-white transition-colors hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+            >
+              Finish
+            </button>
+          )}
+        </div>
+      </footer>
+    </div>
+  );
+}
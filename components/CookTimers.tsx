@@ -0,0 +1,254 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatClock } from "../lib/durations";
+
+export type CookTimer = {
+  id: string;
+  label: string;
+  /** Which recipe started it, since timers outlive the page. */
+  recipeTitle: string;
+  totalSeconds: number;
+  /** When it rings; null while paused. */
+  endsAt: number | null;
+  /** Seconds left when paused. */
+  remainingSeconds: number;
+  done: boolean;
+};
+
+export type CookTimers = ReturnType<typeof useCookTimers>;
+
+// Shared by every recipe and tab so timers survive reloads and navigation
+const TIMERS_STORAGE = "savorit_timers";
+
+function loadTimers(): CookTimer[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TIMERS_STORAGE) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+let audio: AudioContext | null = null;
+
+// Browsers only allow sound from a context created during a tap
+function unlockAudio() {
+  if (audio || typeof AudioContext === "undefined") return;
+  audio = new AudioContext();
+}
+
+function ring() {
+  if (audio) {
+    for (let i = 0; i < 3; i++) {
+      const start = audio.currentTime + i * 0.4;
+      const tone = audio.createOscillator();
+      const gain = audio.createGain();
+      tone.frequency.value = 880;
+      gain.gain.setValueAtTime(0.3, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+      tone.connect(gain).connect(audio.destination);
+      tone.start(start);
+      tone.stop(start + 0.3);
+    }
+  }
+  navigator.vibrate?.([300, 100, 300]);
+}
+
+function notify(timer: CookTimer) {
+  if (typeof Notification === "undefined") return;
+  if (Notification.permission !== "granted") return;
+  new Notification(`${timer.label} is done`, { body: timer.recipeTitle });
+}
+
+export function timeLeft(timer: CookTimer, now: number): number {
+  return timer.endsAt === null
+    ? timer.remainingSeconds
+    : Math.max(0, (timer.endsAt - now) / 1000);
+}
+
+/**
+ * Kitchen timers kept in localStorage. Any number can run at once; each
+ * rings and notifies once when it reaches zero, including one that ran
+ * out while the page was closed.
+ */
+export function useCookTimers() {
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setTimers(loadTimers());
+    setLoaded(true);
+    function onStorage(e: StorageEvent) {
+      if (e.key === TIMERS_STORAGE) setTimers(loadTimers());
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(TIMERS_STORAGE, JSON.stringify(timers));
+  }, [timers, loaded]);
+
+  const running = timers.some((t) => t.endsAt !== null && !t.done);
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  useEffect(() => {
+    const finished = timers.filter(
+      (t) => !t.done && t.endsAt !== null && t.endsAt <= now,
+    );
+    if (finished.length === 0) return;
+    ring();
+    for (const timer of finished) notify(timer);
+    setTimers((prev) =>
+      prev.map((t) =>
+        finished.some((f) => f.id === t.id)
+          ? { ...t, done: true, remainingSeconds: 0 }
+          : t,
+      ),
+    );
+  }, [timers, now]);
+
+  const start = useCallback(
+    (label: string, recipeTitle: string, seconds: number) => {
+      unlockAudio();
+      if (
+        typeof Notification !== "undefined" &&
+        Notification.permission === "default"
+      ) {
+        Notification.requestPermission();
+      }
+      setNow(Date.now());
+      setTimers((prev) => [
+        ...prev,
+        {
+          id: crypto.randomUUID(),
+          label,
+          recipeTitle,
+          totalSeconds: seconds,
+          endsAt: Date.now() + seconds * 1000,
+          remainingSeconds: seconds,
+          done: false,
+        },
+      ]);
+    },
+    [],
+  );
+
+  const toggle = useCallback((id: string) => {
+    unlockAudio();
+    setTimers((prev) =>
+      prev.map((t) => {
+        if (t.id !== id || t.done) return t;
+        return t.endsAt === null
+          ? { ...t, endsAt: Date.now() + t.remainingSeconds * 1000 }
+          : {
+              ...t,
+              endsAt: null,
+              remainingSeconds: timeLeft(t, Date.now()),
+            };
+      }),
+    );
+  }, []);
+
+  const addMinute = useCallback((id: string) => {
+    setNow(Date.now());
+    setTimers((prev) =>
+      prev.map((t) => {
+        if (t.id !== id) return t;
+        if (t.done) {
+          return {
+            ...t,
+            done: false,
+            endsAt: Date.now() + 60_000,
+            remainingSeconds: 60,
+          };
+        }
+        return t.endsAt === null
+          ? { ...t, remainingSeconds: t.remainingSeconds + 60 }
+          : { ...t, endsAt: t.endsAt + 60_000 };
+      }),
+    );
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setTimers((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  return { timers, now, start, toggle, addMinute, dismiss };
+}
+
+/** Running and finished timers with controls, soonest first. */
+export function TimerTray({
+  timers: { timers, now, toggle, addMinute, dismiss },
+  recipeTitle,
+  large = false,
+}: {
+  timers: CookTimers;
+  /** Timers from other recipes are labelled with theirs. */
+  recipeTitle: string;
+  large?: boolean;
+}) {
+  if (timers.length === 0) return null;
+  const sorted = [...timers].sort(
+    (a, b) => timeLeft(a, now) - timeLeft(b, now),
+  );
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label="Timers">
+      {sorted.map((timer) => (
+        <li
+          key={timer.id}
+          className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 ${
+            timer.done
+              ? "animate-pulse border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-950/40 dark:text-amber-300"
+              : "border-zinc-200 bg-white text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+          } ${large ? "text-base" : "text-xs"}`}
+        >
+          <span className="flex flex-col leading-tight">
+            <span className="font-medium">{timer.label}</span>
+            {timer.recipeTitle !== recipeTitle && (
+              <span className="text-zinc-400 dark:text-zinc-500">
+                {timer.recipeTitle}
+              </span>
+            )}
+          </span>
+          <span
+            className={`font-semibold tabular-nums ${large ? "text-xl" : "text-sm"}`}
+          >
+            {timer.done ? "Done" : formatClock(timeLeft(timer, now))}
+          </span>
+          {!timer.done && (
+            <button
+              type="button"
+              onClick={() => toggle(timer.id)}
+              className="font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+            >
+              {timer.endsAt === null ? "Resume" : "Pause"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => addMinute(timer.id)}
+            className="font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            +1 min
+          </button>
+          <button
+            type="button"
+            onClick={() => dismiss(timer.id)}
+            aria-label={`Remove ${timer.label} timer`}
+            className="text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 transition-colors"
+          >
+            ✕
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
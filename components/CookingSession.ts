@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { cookingSessionAction, saveCookingSessionAction } from "../app/actions";
+import type { CookingProgress, CookingSession } from "../lib/cooking-progress";
+import {
+  EMPTY_COOKING_PROGRESS,
+  isEmptyProgress,
+} from "../lib/cooking-progress";
+
+// Changes are saved once the cook pauses, not on every tap
+const SAVE_DELAY_MS = 800;
+// A failed save (offline, say) is tried again after this long
+const RETRY_DELAY_MS = 10_000;
+const SYNC_INTERVAL_MS = 15_000;
+
+function progressOf(session: CookingSession | null): CookingProgress {
+  if (!session) return EMPTY_COOKING_PROGRESS;
+  const { updatedAt: _, ...progress } = session;
+  return progress;
+}
+
+/**
+ * Cooking progress on one recipe, kept on the server for signed-in users
+ * so a refresh or another device picks up where they were. Other devices'
+ * changes arrive by polling while the page is visible; the last save wins.
+ * Without `initial` (signed out) progress lives only in the page. When
+ * `recipeId` changes to the user's own version, progress moves with it.
+ */
+export function useCookingSession(
+  recipeId: string | undefined,
+  initial: CookingSession | null | undefined,
+) {
+  const [progress, setProgress] = useState(() => progressOf(initial ?? null));
+  const syncedId = initial === undefined ? undefined : recipeId;
+  // updatedAt of the server's copy as last seen here, null when none
+  const seen = useRef(initial?.updatedAt ?? null);
+  const dirty = useRef(false);
+  const saving = useRef(false);
+  const [failedSaves, setFailedSaves] = useState(0);
+  const lastSyncedId = useRef(syncedId);
+
+  const update = useCallback(
+    (change: (progress: CookingProgress) => CookingProgress) => {
+      dirty.current = true;
+      setProgress(change);
+    },
+    [],
+  );
+
+  // Runs before the save below, so the move is saved in the same pass
+  useEffect(() => {
+    if (syncedId === lastSyncedId.current) return;
+    lastSyncedId.current = syncedId;
+    seen.current = null;
+    dirty.current ||= !isEmptyProgress(progress);
+  }, [syncedId, progress]);
+
+  useEffect(() => {
+    if (!syncedId || !dirty.current) return;
+    const timeout = setTimeout(
+      async () => {
+        dirty.current = false;
+        saving.current = true;
+        try {
+          const result = await saveCookingSessionAction(syncedId, progress);
+          if (result.success) seen.current = result.updatedAt;
+          setFailedSaves(0);
+        } catch {
+          // Left unsaved, so the retry sends the latest progress
+          dirty.current = true;
+          setFailedSaves((n) => n + 1);
+        } finally {
+          saving.current = false;
+        }
+      },
+      failedSaves > 0 ? RETRY_DELAY_MS : SAVE_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [progress, syncedId, failedSaves]);
+
+  useEffect(() => {
+    if (!syncedId) return;
+    const id = syncedId;
+    let active = true;
+    async function refresh() {
+      if (document.hidden || dirty.current || saving.current) return;
+      const result = await cookingSessionAction(id).catch(() => null);
+      // Local changes made meanwhile are newer than what came back
+      if (!active || !result?.success || dirty.current || saving.current) {
+        return;
+      }
+      const updatedAt = result.session?.updatedAt ?? null;
+      if (updatedAt === seen.current) return;
+      seen.current = updatedAt;
+      setProgress(progressOf(result.session));
+    }
+    const interval = setInterval(refresh, SYNC_INTERVAL_MS);
+    window.addEventListener("focus", refresh);
+    document.addEventListener("visibilitychange", refresh);
+    return () => {
+      active = false;
+      clearInterval(interval);
+      window.removeEventListener("focus", refresh);
+      document.removeEventListener("visibilitychange", refresh);
+    };
+  }, [syncedId]);
+
+  return { progress, update };
+}
@@ -1,8 +1,48 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { RecipeData } from "../app/actions";
-import { updateRecipeTagsAction } from "../app/actions";
+import {
+  pullUpstreamAction,
+  updateRecipeTagsAction,
+  updateUnitPreferencesAction,
+} from "../app/actions";
+import type { CollectionChoice } from "../lib/collections";
+import type { CookingSession } from "../lib/cooking-progress";
+import {
+  EMPTY_COOKING_PROGRESS,
+  isEmptyProgress,
+} from "../lib/cooking-progress";
+import { effectiveTotalMinutes, formatMinutes } from "../lib/durations";
+import type { RecipeVersion } from "../lib/forks";
+import {
+  combineIngredients,
+  formatQuantityValue,
+  ingredientsInStep,
+  parseIngredientLine,
+  scaleQuantitiesInText,
+} from "../lib/ingredients";
+import { findPan } from "../lib/scaling";
+import { groupBySection, sectionNameAt } from "../lib/sections";
+import type { UnitPreferences } from "../lib/units";
+import {
+  convertedIngredientText,
+  convertIngredient,
+  convertText,
+  DEFAULT_UNIT_PREFERENCES,
+  formatConvertedAmount,
+  UNIT_SYSTEM_LABELS,
+  UNIT_SYSTEMS,
+} from "../lib/units";
+import { AddToCollection } from "./AddToCollection";
+import { useCookingSession } from "./CookingSession";
+import type { CookStep } from "./CookMode";
+import { CookMode, StepText } from "./CookMode";
+import { TimerTray, useCookTimers } from "./CookTimers";
+import { RecipeEditor } from "./RecipeEditor";
+import { ScaleBy } from "./ScaleBy";
 
 function parseServingsNumber(servings: string): number | null {
   // "4-6 servings" → 4
@@ -14,58 +54,57 @@ function parseServingsNumber(servings: string): number | null {
   return null;
 }
 
-function parseLeadingNumber(str: string): { value: number; end: number } | null {
-  // Mixed number: "1 1/2"
-  const mixed = str.match(/^(\d+)\s+(\d+)\/(\d+)/);
-  if (mixed) {
-    return {
-      value: parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]),
-      end: mixed[0].length,
-    };
-  }
-  // Fraction: "1/2"
-  const frac = str.match(/^(\d+)\/(\d+)/);
-  if (frac) {
-    return { value: parseInt(frac[1]) / parseInt(frac[2]), end: frac[0].length };
-  }
-  // Decimal or integer
-  const num = str.match(/^(\d+(?:\.\d+)?)/);
-  if (num) return { value: parseFloat(num[1]), end: num[0].length };
-  return null;
-}
-
-function formatScaledNumber(value: number): string {
-  const fractions: [number, string][] = [
-    [1 / 8, "⅛"], [1 / 4, "¼"], [1 / 3, "⅓"], [3 / 8, "⅜"],
-    [1 / 2, "½"], [5 / 8, "⅝"], [2 / 3, "⅔"], [3 / 4, "¾"], [7 / 8, "⅞"],
-  ];
-  const whole = Math.floor(value);
-  const decimal = value - whole;
-  if (decimal < 0.05) return whole === 0 ? "0" : String(whole);
-  for (const [frac, symbol] of fractions) {
-    if (Math.abs(decimal - frac) < 0.06) {
-      return whole > 0 ? `${whole}${symbol}` : symbol;
-    }
-  }
-  return value.toFixed(1).replace(/\.0$/, "");
-}
-
-function scaleIngredient(ingredient: string, factor: number): string {
-  if (factor === 1) return ingredient;
-  const parsed = parseLeadingNumber(ingredient);
-  if (!parsed) return ingredient;
-  const scaled = parsed.value * factor;
-  return formatScaledNumber(scaled) + ingredient.slice(parsed.end);
+function toggled(indexes: number[], index: number): number[] {
+  return indexes.includes(index)
+    ? indexes.filter((i) => i !== index)
+    : [...indexes, index];
 }
 
 export function RecipeCard({
   recipe,
-  recipeId,
+  recipeId: initialRecipeId,
+  version,
+  editable = false,
+  collections,
+  unitPreferences,
+  cookingSession,
 }: {
   recipe: RecipeData;
   recipeId?: string;
+  version?: RecipeVersion | null;
+  /** Show editing controls; the server still checks who may save. */
+  editable?: boolean;
+  /** The viewer's collections, to offer adding the recipe to them. */
+  collections?: CollectionChoice[];
+  /** The viewer's default units; signed-out viewers start from the original. */
+  unitPreferences?: UnitPreferences;
+  /** The viewer's saved progress; signed-out viewers' isn't kept. */
+  cookingSession?: CookingSession | null;
 }) {
-  const [checked, setChecked] = useState<Set<number>>(new Set());
+  const router = useRouter();
+  const pathname = usePathname();
+  // Becomes the user's own version once an edit has forked the recipe
+  const [recipeId, setRecipeId] = useState(initialRecipeId);
+  const [pulling, setPulling] = useState(false);
+  const [pullError, setPullError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+
+  useEffect(() => {
+    setRecipeId(initialRecipeId);
+  }, [initialRecipeId]);
+
+  const { progress, update: updateProgress } = useCookingSession(
+    recipeId,
+    cookingSession,
+  );
+  const checked = useMemo(
+    () => new Set(progress.checkedIngredients),
+    [progress.checkedIngredients],
+  );
+  const completedSteps = useMemo(
+    () => new Set(progress.completedSteps),
+    [progress.completedSteps],
+  );
   const [wakeLockActive, setWakeLockActive] = useState(false);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
   const [tags, setTags] = useState<string[]>(recipe.tags ?? []);
@@ -83,11 +122,38 @@ export function RecipeCard({
       const result = await updateRecipeTagsAction(recipeId, newTags);
       if (!result.success) {
         setTags(previousTags);
+        return;
+      }
+      if (result.recipeId !== recipeId) {
+        setRecipeId(result.recipeId);
+        if (pathname === `/recipes/${recipeId}`) {
+          router.replace(`/recipes/${result.recipeId}`);
+        }
       }
     },
-    [recipeId],
+    [recipeId, pathname, router],
   );
 
+  async function pullUpstream() {
+    if (!recipeId) return;
+    if (
+      !window.confirm(
+        "Replace your version with the latest original? Your tags are kept, other edits are replaced.",
+      )
+    ) {
+      return;
+    }
+    setPulling(true);
+    setPullError(null);
+    const result = await pullUpstreamAction(recipeId);
+    setPulling(false);
+    if (result.success) {
+      router.refresh();
+    } else {
+      setPullError(result.error);
+    }
+  }
+
   function addTag(value: string) {
     const trimmed = value.trim();
     if (!trimmed) return;
@@ -105,7 +171,80 @@ export function RecipeCard({
     setTags(next);
     syncTagsToServer(next, previous);
   }
-  const [portions, setPortions] = useState<number>(basePortions ?? 1);
+  const portions = progress.portions ?? basePortions ?? 1;
+  // Set when scaling to a pan or an ingredient amount instead of portions
+  const [customFactor, setCustomFactor] = useState<number | null>(null);
+  const [units, setUnits] = useState<UnitPreferences>(
+    unitPreferences ?? DEFAULT_UNIT_PREFERENCES,
+  );
+  const [savedUnits, setSavedUnits] = useState(unitPreferences);
+  const [cooking, setCooking] = useState(false);
+  const timers = useCookTimers();
+  const [activeImage, setActiveImage] = useState(0);
+  // Back to the cover when the images change, in the same render
+  const [shownImages, setShownImages] = useState(recipe.images);
+  if (shownImages !== recipe.images) {
+    setShownImages(recipe.images);
+    setActiveImage(0);
+  }
+  const [shoppingListCopied, setShoppingListCopied] = useState(false);
+
+  // Saved recipes carry the parsed form; only unsaved previews parse here
+  const parsedIngredients = useMemo(
+    () =>
+      recipe.parsedIngredients ??
+      recipe.ingredients.map(parseIngredientLine),
+    [recipe.parsedIngredients, recipe.ingredients],
+  );
+  const scaleFactor =
+    customFactor ?? (basePortions ? portions / basePortions : 1);
+  const ingredientNames = useMemo(
+    () => parsedIngredients.map((i) => i.name),
+    [parsedIngredients],
+  );
+  // Saved recipes carry each step's ingredients; previews match them here
+  const stepIngredients = useMemo(
+    () =>
+      recipe.stepIngredients?.map((step) => step.indexes) ??
+      recipe.instructions.map((step) =>
+        ingredientsInStep(step, parsedIngredients),
+      ),
+    [recipe.stepIngredients, recipe.instructions, parsedIngredients],
+  );
+  const recipePan = useMemo(
+    () => findPan([...recipe.ingredients, ...recipe.instructions]),
+    [recipe.ingredients, recipe.instructions],
+  );
+
+  function stepText(index: number): string {
+    return convertText(
+      scaleQuantitiesInText(
+        recipe.instructions[index],
+        scaleFactor,
+        ingredientNames,
+      ),
+      units.unitSystem,
+    );
+  }
+
+  function startTimer(step: number, label: string, seconds: number) {
+    timers.start(`Step ${step + 1} · ${label}`, recipe.title, seconds);
+  }
+
+  function startCooking() {
+    setCooking(true);
+    if (!wakeLockActive) acquireWakeLock();
+  }
+
+  function stepPortions(delta: number) {
+    const current = basePortions ? basePortions * scaleFactor : portions;
+    const next = Math.max(1, Math.round(current) + delta);
+    updateProgress((p) => ({
+      ...p,
+      portions: next === basePortions ? null : next,
+    }));
+    setCustomFactor(null);
+  }
 
   async function acquireWakeLock() {
     if (!("wakeLock" in navigator)) return;
@@ -149,22 +288,111 @@ export function RecipeCard({
   }, [wakeLockActive]);
 
   function toggleIngredient(index: number) {
-    setChecked((prev) => {
-      const next = new Set(prev);
-      if (next.has(index)) {
-        next.delete(index);
-      } else {
-        next.add(index);
-      }
-      return next;
-    });
+    updateProgress((p) => ({
+      ...p,
+      checkedIngredients: toggled(p.checkedIngredients, index),
+    }));
+  }
+
+  function toggleStep(index: number) {
+    updateProgress((p) => ({
+      ...p,
+      completedSteps: toggled(p.completedSteps, index),
+    }));
+  }
+
+  // Moving on in cook mode marks the step left behind as done
+  function cookToStep(index: number, done: number | null) {
+    updateProgress((p) => ({
+      ...p,
+      currentStep: index,
+      completedSteps:
+        done === null || p.completedSteps.includes(done)
+          ? p.completedSteps
+          : [...p.completedSteps, done],
+    }));
   }
 
-  const image = recipe.images[0];
-  const hasMeta = recipe.prepTime || recipe.cookTime || recipe.servings;
+  function resetProgress() {
+    updateProgress(() => EMPTY_COOKING_PROGRESS);
+    setCustomFactor(null);
+  }
+
+  async function copyShoppingList() {
+    const remaining = parsedIngredients
+      .filter((_, i) => !checked.has(i))
+      .map((i) => convertIngredient(i, units.unitSystem, units.byWeight));
+    const lines = combineIngredients(
+      remaining,
+      scaleFactor,
+      formatConvertedAmount,
+    );
+    try {
+      await navigator.clipboard.writeText(lines.join("\n"));
+      setShoppingListCopied(true);
+      setTimeout(() => setShoppingListCopied(false), 2000);
+    } catch {
+      setShoppingListCopied(false);
+    }
+  }
+
+  async function saveUnitsAsDefault() {
+    const result = await updateUnitPreferencesAction(units);
+    if (result.success) setSavedUnits(units);
+  }
+
+  const image = recipe.images[activeImage] ?? recipe.images[0];
+  const ingredientGroups = groupBySection(
+    recipe.ingredients,
+    recipe.ingredientSections,
+  );
+  const instructionGroups = groupBySection(
+    recipe.instructions,
+    recipe.instructionSections,
+  );
+  const cookSteps: CookStep[] = cooking
+    ? recipe.instructions.map((_, i) => ({
+        text: stepText(i),
+        section: sectionNameAt(recipe.instructionSections, i),
+        ingredients: stepIngredients[i].map((j) =>
+          convertedIngredientText(parsedIngredients[j], scaleFactor, units),
+        ),
+      }))
+    : [];
+  const timeParts = [recipe.prepMinutes, recipe.cookMinutes, recipe.restMinutes].filter(
+    (m): m is number => !!m,
+  );
+  const totalMinutes = effectiveTotalMinutes(recipe);
+  // Skip the total when it just repeats the only known part
+  const showTotal =
+    totalMinutes !== null &&
+    !(timeParts.length === 1 && timeParts[0] === totalMinutes);
+  const hasMeta = timeParts.length > 0 || totalMinutes || recipe.servings;
+
+  if (editing && recipeId) {
+    return (
+      <div className="w-full rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden bg-white dark:bg-zinc-900 shadow-sm">
+        <RecipeEditor
+          recipe={recipe}
+          recipeId={recipeId}
+          onClose={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className="recipe-card w-full rounded-2xl border border-zinc-200 dark:border-zinc-800 overflow-hidden bg-white dark:bg-zinc-900 shadow-sm">
+      {cooking && (
+        <CookMode
+          title={recipe.title}
+          steps={cookSteps}
+          step={progress.currentStep}
+          timers={timers}
+          onStep={cookToStep}
+          onClose={() => setCooking(false)}
+        />
+      )}
       {image && (
         // eslint-disable-next-line @next/next/no-img-element
         <img
@@ -174,7 +402,75 @@ export function RecipeCard({
         />
       )}
 
+      {/* Gallery thumbnails (carousel posts, multiple photos) */}
+      {recipe.images.length > 1 && (
+        <div className="print:hidden flex gap-2 overflow-x-auto px-5 pt-3">
+          {recipe.images.map((src, i) => (
+            <button
+              key={src}
+              type="button"
+              onClick={() => setActiveImage(i)}
+              aria-label={`Show image ${i + 1} of ${recipe.images.length}`}
+              className={`shrink-0 overflow-hidden rounded-lg border-2 transition-colors ${
+                i === activeImage
+                  ? "border-zinc-900 dark:border-zinc-100"
+                  : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+            >
+              {/* biome-ignore lint/performance/noImgElement: gallery images are on R2 or the source site, neither set up for next/image */}
+              <img src={src} alt="" className="h-14 w-14 object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="flex flex-col gap-6 p-5">
+        {/* Personal version vs the shared original */}
+        {version && (
+          <div className="print:hidden flex flex-wrap items-center gap-x-3 gap-y-1 rounded-lg bg-zinc-50 dark:bg-zinc-800/60 px-3 py-2 text-xs text-zinc-600 dark:text-zinc-400">
+            {version.kind === "fork" ? (
+              <>
+                <span className="font-medium text-zinc-800 dark:text-zinc-200">
+                  Your version
+                </span>
+                <Link
+                  href={`/recipes/${version.originalId}`}
+                  className="underline underline-offset-2 hover:text-zinc-900 dark:hover:text-zinc-100"
+                >
+                  View original
+                </Link>
+                {version.upstreamChanged && (
+                  <button
+                    type="button"
+                    onClick={pullUpstream}
+                    disabled={pulling}
+                    className="ml-auto rounded-md bg-amber-50 px-2 py-1 font-medium text-amber-700 border border-amber-200 hover:bg-amber-100 dark:bg-amber-950/30 dark:text-amber-400 dark:border-amber-800 transition-colors disabled:opacity-60"
+                  >
+                    {pulling ? "Updating…" : "Original changed · Pull updates"}
+                  </button>
+                )}
+                {pullError && (
+                  <span className="w-full text-red-600 dark:text-red-400">
+                    {pullError}
+                  </span>
+                )}
+              </>
+            ) : (
+              <>
+                <span className="font-medium text-zinc-800 dark:text-zinc-200">
+                  Original
+                </span>
+                <Link
+                  href={`/recipes/${version.forkId}`}
+                  className="underline underline-offset-2 hover:text-zinc-900 dark:hover:text-zinc-100"
+                >
+                  View your version
+                </Link>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Title + description + PDF button */}
         <div className="flex items-start justify-between gap-3">
           <div className="flex flex-col gap-2 min-w-0">
@@ -187,23 +483,37 @@ export function RecipeCard({
               </p>
             )}
           </div>
-          <button
-            type="button"
-            onClick={() => window.print()}
-            title="Save as PDF"
-            className="print:hidden shrink-0 flex items-center gap-1.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-3 py-2 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
-          >
-            <svg className="h-3.5 w-3.5" viewBox="0 0 16 16" fill="none">
-              <path d="M4 1h8v4H4V1Z" fill="currentColor" opacity=".4" />
-              <path d="M2 6h12a1 1 0 0 1 1 1v5a1 1 0 0 1-1 1h-1v-2H3v2H2a1 1 0 0 1-1-1V7a1 1 0 0 1 1-1Z" fill="currentColor" />
-              <path d="M4 10h8v5H4v-5Z" fill="currentColor" opacity=".4" />
-            </svg>
-            Save as PDF
-          </button>
+          <div className="print:hidden flex shrink-0 gap-2">
+            {collections && recipeId && (
+              <AddToCollection recipeId={recipeId} collections={collections} />
+            )}
+            {editable && recipeId && (
+              <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="flex items-center gap-1.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-3 py-2 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
+              >
+                Edit
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => window.print()}
+              title="Save as PDF"
+              className="print:hidden shrink-0 flex items-center gap-1.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 px-3 py-2 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-700 transition-colors"
+            >
+              <svg className="h-3.5 w-3.5" viewBox="0 0 16 16" fill="none">
+                <path d="M4 1h8v4H4V1Z" fill="currentColor" opacity=".4" />
+                <path d="M2 6h12a1 1 0 0 1 1 1v5a1 1 0 0 1-1 1h-1v-2H3v2H2a1 1 0 0 1-1-1V7a1 1 0 0 1 1-1Z" fill="currentColor" />
+                <path d="M4 10h8v5H4v-5Z" fill="currentColor" opacity=".4" />
+              </svg>
+              Save as PDF
+            </button>
+          </div>
         </div>
 
         {/* Tags */}
-        {(tags.length > 0 || recipeId) && (
+        {(tags.length > 0 || (editable && recipeId)) && (
           <div className="flex flex-wrap items-center gap-2">
             {tags.map((tag, i) => (
               <span
@@ -211,7 +521,7 @@ export function RecipeCard({
                 className="inline-flex items-center gap-1 rounded-full bg-zinc-100 dark:bg-zinc-800 px-2.5 py-0.5 text-xs text-zinc-600 dark:text-zinc-300"
               >
                 {tag}
-                {recipeId && (
+                {editable && recipeId && (
                   <button
                     type="button"
                     onClick={() => removeTag(i)}
@@ -225,7 +535,7 @@ export function RecipeCard({
                 )}
               </span>
             ))}
-            {recipeId && (
+            {editable && recipeId && (
               <input
                 type="text"
                 value={tagInput}
@@ -243,44 +553,64 @@ export function RecipeCard({
           </div>
         )}
 
-        {/* Meta: prep / cook / servings */}
+        {/* Meta: times / servings */}
         {hasMeta && (
           <div className="flex flex-wrap gap-4 text-sm text-zinc-600 dark:text-zinc-400">
-            {recipe.prepTime && (
+            {recipe.prepMinutes && (
               <span>
                 <span className="mr-1">⏱</span>
                 <span className="font-medium text-zinc-800 dark:text-zinc-200">
-                  {recipe.prepTime}
+                  {formatMinutes(recipe.prepMinutes)}
                 </span>{" "}
                 prep
               </span>
             )}
-            {recipe.cookTime && (
+            {recipe.cookMinutes && (
               <span>
                 <span className="mr-1">🍳</span>
                 <span className="font-medium text-zinc-800 dark:text-zinc-200">
-                  {recipe.cookTime}
+                  {formatMinutes(recipe.cookMinutes)}
                 </span>{" "}
                 cook
               </span>
             )}
+            {recipe.restMinutes && (
+              <span>
+                <span className="mr-1">⏸</span>
+                <span className="font-medium text-zinc-800 dark:text-zinc-200">
+                  {formatMinutes(recipe.restMinutes)}
+                </span>{" "}
+                rest
+              </span>
+            )}
+            {showTotal && totalMinutes && (
+              <span>
+                <span className="mr-1">⏲</span>
+                <span className="font-medium text-zinc-800 dark:text-zinc-200">
+                  {formatMinutes(totalMinutes)}
+                </span>{" "}
+                total
+              </span>
+            )}
             {recipe.servings && basePortions && (
               <span className="flex items-center gap-1.5">
                 <span>👥</span>
                 <button
                   type="button"
-                  onClick={() => setPortions((p) => Math.max(1, p - 1))}
+                  onClick={() => stepPortions(-1)}
                   className="flex h-5 w-5 items-center justify-center rounded border border-zinc-300 dark:border-zinc-600 text-zinc-500 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-xs leading-none"
                   aria-label="Decrease portions"
                 >
                   −
                 </button>
                 <span className="font-medium text-zinc-800 dark:text-zinc-200 tabular-nums">
-                  {portions}
+                  {customFactor === null
+                    ? portions
+                    : formatQuantityValue(basePortions * customFactor)}
                 </span>
                 <button
                   type="button"
-                  onClick={() => setPortions((p) => p + 1)}
+                  onClick={() => stepPortions(1)}
                   className="flex h-5 w-5 items-center justify-center rounded border border-zinc-300 dark:border-zinc-600 text-zinc-500 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-xs leading-none"
                   aria-label="Increase portions"
                 >
@@ -294,81 +624,238 @@ export function RecipeCard({
           </div>
         )}
 
+        <ScaleBy
+          ingredients={parsedIngredients}
+          pan={recipePan}
+          factor={customFactor}
+          onScale={setCustomFactor}
+        />
+
         {/* Ingredients */}
         {recipe.ingredients.length > 0 && (
           <section>
-            <h3 className="mb-3 text-base font-semibold text-zinc-900 dark:text-zinc-100">
-              Ingredients
-            </h3>
-            <ul className="flex flex-col gap-2">
-              {recipe.ingredients.map((ingredient, i) => {
-                const scaleFactor = basePortions ? portions / basePortions : 1;
-                const displayIngredient = scaleIngredient(ingredient, scaleFactor);
-                return (
-                <li key={i}>
+            <div className="mb-3 flex items-center justify-between gap-3">
+              <h3 className="text-base font-semibold text-zinc-900 dark:text-zinc-100">
+                Ingredients
+              </h3>
+              <button
+                type="button"
+                onClick={copyShoppingList}
+                title="Copy unchecked ingredients, combined and scaled"
+                className="print:hidden rounded-lg px-2 py-1 text-xs font-medium text-zinc-500 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                {shoppingListCopied ? "Copied!" : "Copy shopping list"}
+              </button>
+            </div>
+            <div className="print:hidden mb-3 flex flex-wrap items-center gap-x-3 gap-y-2 text-xs">
+              <fieldset className="flex rounded-lg border border-zinc-200 dark:border-zinc-700 p-0.5">
+                <legend className="sr-only">Units</legend>
+                {UNIT_SYSTEMS.map((system) => (
                   <button
+                    key={system}
                     type="button"
-                    onClick={() => toggleIngredient(i)}
-                    className="flex w-full items-start gap-3 rounded-lg px-3 py-2.5 text-left text-sm transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-800 active:bg-zinc-100 dark:active:bg-zinc-700"
+                    onClick={() =>
+                      setUnits((u) => ({ ...u, unitSystem: system }))
+                    }
+                    aria-pressed={units.unitSystem === system}
+                    className={`rounded-md px-2 py-1 font-medium transition-colors ${
+                      units.unitSystem === system
+                        ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                        : "text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100"
+                    }`}
                   >
-                    <span
-                      className={`mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded border transition-colors ${
-                        checked.has(i)
-                          ? "border-zinc-400 bg-zinc-400 dark:border-zinc-500 dark:bg-zinc-500"
-                          : "border-zinc-300 dark:border-zinc-600"
-                      }`}
-                    >
-                      {checked.has(i) && (
-                        <svg
-                          className="h-2.5 w-2.5 text-white"
-                          viewBox="0 0 10 10"
-                          fill="none"
-                        >
-                          <path
-                            d="M1.5 5L4 7.5L8.5 2.5"
-                            stroke="currentColor"
-                            strokeWidth="1.5"
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                          />
-                        </svg>
-                      )}
-                    </span>
-                    <span
-                      className={
-                        checked.has(i)
-                          ? "line-through text-zinc-400 dark:text-zinc-500"
-                          : "text-zinc-700 dark:text-zinc-300"
-                      }
-                    >
-                      {displayIngredient}
-                    </span>
+                    {UNIT_SYSTEM_LABELS[system]}
+                  </button>
+                ))}
+              </fieldset>
+              {units.unitSystem !== "original" && (
+                <label className="flex items-center gap-1.5 text-zinc-500 dark:text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={units.byWeight}
+                    onChange={(e) =>
+                      setUnits((u) => ({ ...u, byWeight: e.target.checked }))
+                    }
+                  />
+                  {units.unitSystem === "metric"
+                    ? "Weigh flour, sugar etc."
+                    : "Measure flour, sugar etc. in cups"}
+                </label>
+              )}
+              {savedUnits &&
+                (savedUnits.unitSystem !== units.unitSystem ||
+                  savedUnits.byWeight !== units.byWeight) && (
+                  <button
+                    type="button"
+                    onClick={saveUnitsAsDefault}
+                    className="font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+                  >
+                    Make default
                   </button>
-                </li>
-                );
-              })}
-            </ul>
+                )}
+            </div>
+            <div className="flex flex-col gap-4">
+              {ingredientGroups.map((group) => (
+                <div key={`${group.name}-${group.items[0].index}`}>
+                  {group.name && (
+                    <h4 className="mb-1 px-3 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                      {group.name}
+                    </h4>
+                  )}
+                  <ul className="flex flex-col gap-2">
+                    {group.items.map(({ index: i }) => {
+                      const displayIngredient = convertedIngredientText(
+                        parsedIngredients[i],
+                        scaleFactor,
+                        units,
+                      );
+                      return (
+                      <li key={i}>
+                        <button
+                          type="button"
+                          onClick={() => toggleIngredient(i)}
+                          className="flex w-full items-start gap-3 rounded-lg px-3 py-2.5 text-left text-sm transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-800 active:bg-zinc-100 dark:active:bg-zinc-700"
+                        >
+                          <span
+                            className={`mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded border transition-colors ${
+                              checked.has(i)
+                                ? "border-zinc-400 bg-zinc-400 dark:border-zinc-500 dark:bg-zinc-500"
+                                : "border-zinc-300 dark:border-zinc-600"
+                            }`}
+                          >
+                            {checked.has(i) && (
+                              <svg
+                                className="h-2.5 w-2.5 text-white"
+                                viewBox="0 0 10 10"
+                                fill="none"
+                              >
+                                <path
+                                  d="M1.5 5L4 7.5L8.5 2.5"
+                                  stroke="currentColor"
+                                  strokeWidth="1.5"
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                />
+                              </svg>
+                            )}
+                          </span>
+                          <span
+                            className={
+                              checked.has(i)
+                                ? "line-through text-zinc-400 dark:text-zinc-500"
+                                : "text-zinc-700 dark:text-zinc-300"
+                            }
+                          >
+                            {displayIngredient}
+                          </span>
+                        </button>
+                      </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
           </section>
         )}
 
         {/* Instructions */}
         {recipe.instructions.length > 0 && (
           <section>
-            <h3 className="mb-3 text-base font-semibold text-zinc-900 dark:text-zinc-100">
-              Instructions
-            </h3>
-            <ol className="flex flex-col gap-4">
-              {recipe.instructions.map((step, i) => (
-                <li key={i} className="flex gap-3 text-sm">
-                  <span className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-zinc-100 dark:bg-zinc-800 text-xs font-medium text-zinc-500 dark:text-zinc-400">
-                    {i + 1}
-                  </span>
-                  <span className="text-zinc-700 dark:text-zinc-300 leading-relaxed">
-                    {step}
-                  </span>
-                </li>
+            <div className="mb-3 flex items-center justify-between gap-3">
+              <h3 className="text-base font-semibold text-zinc-900 dark:text-zinc-100">
+                Instructions
+              </h3>
+              <div className="print:hidden flex items-center gap-3">
+                {!isEmptyProgress(progress) && (
+                  <button
+                    type="button"
+                    onClick={resetProgress}
+                    title="Untick ingredients and steps and go back to the recipe's portions"
+                    className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+                  >
+                    Start over
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={startCooking}
+                  className="rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+                >
+                  {progress.currentStep > 0 ? "Continue cooking" : "Start cooking"}
+                </button>
+              </div>
+            </div>
+            <div className="print:hidden mb-3">
+              <TimerTray timers={timers} recipeTitle={recipe.title} />
+            </div>
+            <div className="flex flex-col gap-4">
+              {instructionGroups.map((group) => (
+                <div key={`${group.name}-${group.items[0].index}`}>
+                  {group.name && (
+                    <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                      {group.name}
+                    </h4>
+                  )}
+                  <ol className="flex flex-col gap-4">
+                    {group.items.map(({ index: i }) => (
+                      <li key={i} className="flex gap-3 text-sm">
+                        <button
+                          type="button"
+                          onClick={() => toggleStep(i)}
+                          aria-pressed={completedSteps.has(i)}
+                          aria-label={`Step ${i + 1} done`}
+                          className={`mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs font-medium transition-colors ${
+                            completedSteps.has(i)
+                              ? "bg-zinc-400 text-white dark:bg-zinc-500"
+                              : "bg-zinc-100 text-zinc-500 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                          }`}
+                        >
+                          {completedSteps.has(i) ? "✓" : i + 1}
+                        </button>
+                        <div className="flex flex-col gap-1.5">
+                          <span
+                            className={`leading-relaxed ${
+                              completedSteps.has(i)
+                                ? "text-zinc-400 dark:text-zinc-500"
+                                : "text-zinc-700 dark:text-zinc-300"
+                            }`}
+                          >
+                            <StepText
+                              text={stepText(i)}
+                              onTimer={(label, seconds) =>
+                                startTimer(i, label, seconds)
+                              }
+                            />
+                          </span>
+                          {stepIngredients[i].length > 0 && (
+                            <ul
+                              aria-label={`Ingredients for step ${i + 1}`}
+                              className="flex flex-wrap gap-1.5"
+                            >
+                              {stepIngredients[i].map((j) => (
+                                <li
+                                  key={j}
+                                  className={`rounded-md bg-zinc-100 dark:bg-zinc-800 px-1.5 py-0.5 text-xs text-zinc-600 dark:text-zinc-400 ${
+                                    checked.has(j) ? "line-through opacity-60" : ""
+                                  }`}
+                                >
+                                  {convertedIngredientText(
+                                    parsedIngredients[j],
+                                    scaleFactor,
+                                    units,
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
               ))}
-            </ol>
+            </div>
           </section>
         )}
 
@@ -0,0 +1,522 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { useMemo, useRef, useState } from "react";
+import type { RecipeData } from "../app/actions";
+import { replaceRecipeImageAction, updateRecipeAction } from "../app/actions";
+import type { ParsedIngredient } from "../lib/ingredients";
+import { ingredientsInStep, parseIngredientLine } from "../lib/ingredients";
+import type { EditorLine, RecipeEdit } from "../lib/recipe-edit";
+import { toEditorLines } from "../lib/recipe-edit";
+
+// Rows carry a client-only key so inputs keep focus while rows move. Steps
+// refer to the ingredients picked for them by key for the same reason.
+type Row = EditorLine & { key: number; ingredientKeys?: number[] };
+
+type StepIngredient = { key: number; text: string; parsed: ParsedIngredient };
+
+let nextRowKey = 0;
+
+function toRows(lines: EditorLine[]): Row[] {
+  return lines.map((line) => ({ ...line, key: nextRowKey++ }));
+}
+
+const inputClass =
+  "w-full rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-3 py-2 text-sm text-zinc-900 dark:text-zinc-100 placeholder:text-zinc-400 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500";
+
+const smallButtonClass =
+  "rounded p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-700 dark:hover:bg-zinc-800 dark:hover:text-zinc-200 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+function LineListEditor({
+  label,
+  itemLabel,
+  rows,
+  onChange,
+  multiline,
+  itemFooter,
+}: {
+  label: string;
+  itemLabel: string;
+  rows: Row[];
+  onChange: (rows: Row[]) => void;
+  multiline?: boolean;
+  /** Shown under each item, for settings that belong to it. */
+  itemFooter?: (row: Row, index: number) => React.ReactNode;
+}) {
+  function update(index: number, text: string) {
+    onChange(rows.map((row, i) => (i === index ? { ...row, text } : row)));
+  }
+
+  function move(index: number, by: number) {
+    const next = [...rows];
+    const [row] = next.splice(index, 1);
+    next.splice(index + by, 0, row);
+    onChange(next);
+  }
+
+  function remove(index: number) {
+    onChange(rows.filter((_, i) => i !== index));
+  }
+
+  function add(kind: EditorLine["kind"]) {
+    onChange([...rows, ...toRows([{ kind, text: "" }])]);
+  }
+
+  let step = 0;
+  return (
+    <section className="flex flex-col gap-2">
+      <h3 className="text-base font-semibold text-zinc-900 dark:text-zinc-100">
+        {label}
+      </h3>
+      <ul className="flex flex-col gap-2">
+        {rows.map((row, i) => {
+          if (row.kind === "item") step++;
+          return (
+            <li key={row.key} className="flex items-start gap-2">
+              <span className="mt-2 w-6 shrink-0 text-right text-xs tabular-nums text-zinc-400">
+                {row.kind === "item" ? (multiline ? step : "•") : "§"}
+              </span>
+              {multiline && row.kind === "item" ? (
+                <div className="flex w-full flex-col gap-1.5">
+                  <textarea
+                    value={row.text}
+                    onChange={(e) => update(i, e.target.value)}
+                    rows={2}
+                    aria-label={`${itemLabel} ${step}`}
+                    className={inputClass}
+                  />
+                  {itemFooter?.(row, i)}
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  value={row.text}
+                  onChange={(e) => update(i, e.target.value)}
+                  placeholder={row.kind === "heading" ? "Section heading" : ""}
+                  aria-label={
+                    row.kind === "heading" ? "Section heading" : itemLabel
+                  }
+                  className={`${inputClass} ${row.kind === "heading" ? "font-semibold uppercase tracking-wide text-xs" : ""}`}
+                />
+              )}
+              <div className="mt-1 flex shrink-0 items-center">
+                <button
+                  type="button"
+                  onClick={() => move(i, -1)}
+                  disabled={i === 0}
+                  aria-label="Move up"
+                  className={smallButtonClass}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(i, 1)}
+                  disabled={i === rows.length - 1}
+                  aria-label="Move down"
+                  className={smallButtonClass}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(i)}
+                  aria-label="Remove"
+                  className={smallButtonClass}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex gap-2 pl-8">
+        <button
+          type="button"
+          onClick={() => add("item")}
+          className="rounded-lg px-2 py-1 text-xs font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+        >
+          + Add {itemLabel.toLowerCase()}
+        </button>
+        <button
+          type="button"
+          onClick={() => add("heading")}
+          className="rounded-lg px-2 py-1 text-xs font-medium text-zinc-500 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+        >
+          + Add section heading
+        </button>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * The ingredients a step uses: matched from its wording until someone
+ * picks them by hand.
+ */
+function StepIngredientPicker({
+  step,
+  ingredients,
+  onChange,
+}: {
+  step: Row;
+  ingredients: StepIngredient[];
+  onChange: (keys: number[] | undefined) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const keys =
+    step.ingredientKeys ??
+    ingredientsInStep(
+      step.text,
+      ingredients.map((i) => i.parsed),
+    ).map((i) => ingredients[i].key);
+  const used = ingredients.filter((i) => keys.includes(i.key));
+
+  function toggle(key: number) {
+    onChange(
+      ingredients
+        .map((i) => i.key)
+        .filter((k) => (k === key ? !keys.includes(k) : keys.includes(k))),
+    );
+  }
+
+  if (ingredients.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1.5 text-xs">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-zinc-500 dark:text-zinc-400">
+          {step.ingredientKeys ? "Uses (picked)" : "Uses"}
+        </span>
+        {used.length > 0 ? (
+          used.map((i) => (
+            <span
+              key={i.key}
+              className="rounded-md bg-zinc-100 dark:bg-zinc-800 px-1.5 py-0.5 text-zinc-600 dark:text-zinc-400"
+            >
+              {i.parsed.name || i.text}
+            </span>
+          ))
+        ) : (
+          <span className="text-zinc-400 dark:text-zinc-500">nothing</span>
+        )}
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          className="font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+        >
+          {open ? "Done" : "Change"}
+        </button>
+        {step.ingredientKeys && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+          >
+            Match automatically
+          </button>
+        )}
+      </div>
+      {open && (
+        <fieldset className="flex flex-col gap-1 rounded-lg border border-zinc-200 dark:border-zinc-700 p-2">
+          <legend className="sr-only">Ingredients this step uses</legend>
+          {ingredients.map((i) => (
+            <label
+              key={i.key}
+              className="flex items-center gap-2 text-zinc-700 dark:text-zinc-300"
+            >
+              <input
+                type="checkbox"
+                checked={keys.includes(i.key)}
+                onChange={() => toggle(i.key)}
+              />
+              {i.text}
+            </label>
+          ))}
+        </fieldset>
+      )}
+    </div>
+  );
+}
+
+function minutesValue(value: string): number | null {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+export function RecipeEditor({
+  recipe,
+  recipeId,
+  onClose,
+}: {
+  recipe: RecipeData;
+  recipeId: string;
+  onClose: () => void;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [title, setTitle] = useState(recipe.title);
+  const [description, setDescription] = useState(recipe.description ?? "");
+  const [servings, setServings] = useState(recipe.servings ?? "");
+  const [times, setTimes] = useState({
+    prepMinutes: recipe.prepMinutes?.toString() ?? "",
+    cookMinutes: recipe.cookMinutes?.toString() ?? "",
+    restMinutes: recipe.restMinutes?.toString() ?? "",
+    totalMinutes: recipe.totalMinutes?.toString() ?? "",
+  });
+  const [ingredientRows, setIngredientRows] = useState(() =>
+    toRows(toEditorLines(recipe.ingredients, recipe.ingredientSections)),
+  );
+  const [instructionRows, setInstructionRows] = useState(() => {
+    const ingredientKeys = ingredientRows
+      .filter((row) => row.kind === "item")
+      .map((row) => row.key);
+    let step = -1;
+    return toRows(
+      toEditorLines(recipe.instructions, recipe.instructionSections),
+    ).map((row) => {
+      if (row.kind === "item") step++;
+      const linked = recipe.stepIngredients?.[step];
+      if (row.kind !== "item" || !linked?.manual) return row;
+      return {
+        ...row,
+        ingredientKeys: linked.indexes.flatMap((i) => ingredientKeys[i] ?? []),
+      };
+    });
+  });
+  const stepIngredients = useMemo<StepIngredient[]>(
+    () =>
+      ingredientRows
+        .filter((row) => row.kind === "item" && row.text.trim())
+        .map((row) => ({
+          key: row.key,
+          text: row.text,
+          parsed: parseIngredientLine(row.text.trim()),
+        })),
+    [ingredientRows],
+  );
+  const [image, setImage] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function chooseImage(file: File | null) {
+    if (imagePreview) URL.revokeObjectURL(imagePreview);
+    setImage(file);
+    setImagePreview(file ? URL.createObjectURL(file) : null);
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    const edit: RecipeEdit = {
+      title,
+      description,
+      servings,
+      prepMinutes: minutesValue(times.prepMinutes),
+      cookMinutes: minutesValue(times.cookMinutes),
+      restMinutes: minutesValue(times.restMinutes),
+      totalMinutes: minutesValue(times.totalMinutes),
+      ingredients: ingredientRows.map(({ kind, text }) => ({ kind, text })),
+      instructions: instructionRows.map(({ kind, text, ingredientKeys }) =>
+        ingredientKeys
+          ? {
+              kind,
+              text,
+              ingredients: ingredientKeys
+                .map((key) => ingredientRows.findIndex((r) => r.key === key))
+                .filter((i) => i >= 0),
+            }
+          : { kind, text },
+      ),
+    };
+
+    const result = await updateRecipeAction(recipeId, edit);
+    if (!result.success) {
+      setError(result.error);
+      setSaving(false);
+      return;
+    }
+    if (image) {
+      const formData = new FormData();
+      formData.append("image", image);
+      const upload = await replaceRecipeImageAction(result.recipeId, formData);
+      if (!upload.success) {
+        setError(`Recipe saved, but the image wasn't: ${upload.error}`);
+        setSaving(false);
+        return;
+      }
+    }
+
+    setSaving(false);
+    onClose();
+    // The first edit of someone else's recipe lands in a new personal copy
+    if (result.recipeId !== recipeId && pathname === `/recipes/${recipeId}`) {
+      router.replace(`/recipes/${result.recipeId}`);
+    } else {
+      router.refresh();
+    }
+  }
+
+  const cover = imagePreview ?? recipe.images[0];
+
+  return (
+    <div className="flex flex-col gap-6 p-5">
+      <div className="flex items-center gap-4">
+        {cover && (
+          // biome-ignore lint/performance/noImgElement: often a blob: preview of the picked file, which next/image can't load
+          <img
+            src={cover}
+            alt=""
+            className="h-20 w-20 shrink-0 rounded-lg object-cover"
+          />
+        )}
+        <div className="flex flex-col gap-1">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            onChange={(e) => chooseImage(e.target.files?.[0] ?? null)}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="self-start rounded-lg border border-zinc-200 dark:border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+          >
+            {cover ? "Replace image" : "Add image"}
+          </button>
+          {image && (
+            <button
+              type="button"
+              onClick={() => chooseImage(null)}
+              className="self-start text-xs text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+            >
+              Keep current image
+            </button>
+          )}
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-sm font-medium text-zinc-600 dark:text-zinc-400">
+          Title
+        </span>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          required
+          className={inputClass}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-sm font-medium text-zinc-600 dark:text-zinc-400">
+          Description
+        </span>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        <label className="col-span-2 sm:col-span-1 flex flex-col gap-1">
+          <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400">
+            Servings
+          </span>
+          <input
+            type="text"
+            value={servings}
+            onChange={(e) => setServings(e.target.value)}
+            placeholder="4 servings"
+            className={inputClass}
+          />
+        </label>
+        {(
+          [
+            ["prepMinutes", "Prep (min)"],
+            ["cookMinutes", "Cook (min)"],
+            ["restMinutes", "Rest (min)"],
+            ["totalMinutes", "Total (min)"],
+          ] as const
+        ).map(([field, label]) => (
+          <label key={field} className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400">
+              {label}
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              inputMode="numeric"
+              value={times[field]}
+              onChange={(e) =>
+                setTimes((prev) => ({ ...prev, [field]: e.target.value }))
+              }
+              placeholder={field === "totalMinutes" ? "Sum" : ""}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <LineListEditor
+        label="Ingredients"
+        itemLabel="Ingredient"
+        rows={ingredientRows}
+        onChange={setIngredientRows}
+      />
+      <LineListEditor
+        label="Instructions"
+        itemLabel="Step"
+        rows={instructionRows}
+        onChange={setInstructionRows}
+        multiline
+        itemFooter={(row, i) => (
+          <StepIngredientPicker
+            step={row}
+            ingredients={stepIngredients}
+            onChange={(ingredientKeys) =>
+              setInstructionRows((rows) =>
+                rows.map((r, j) => (j === i ? { ...r, ingredientKeys } : r)),
+              )
+            }
+          />
+        )}
+      />
+
+      {error && (
+        <p className="rounded-lg border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2 border-t border-zinc-100 dark:border-zinc-800 pt-4">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={saving}
+          className="rounded-lg px-4 py-2 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {saving ? "Saving…" : "Save changes"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import type { ParsedIngredient } from "../lib/ingredients";
+import { formatQuantity } from "../lib/ingredients";
+import type { Pan, PanShape, PanUnit } from "../lib/scaling";
+import {
+  isValidPan,
+  PAN_SHAPE_LABELS,
+  PAN_SHAPES,
+  panScaleFactor,
+} from "../lib/scaling";
+import { gramsPerUnit, WEIGHT_UNITS } from "../lib/units";
+
+type Mode = "pan" | "ingredient";
+
+const inputClass =
+  "rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 px-2 py-1 text-xs text-zinc-900 dark:text-zinc-100 focus:border-zinc-500 focus:outline-none focus:ring-1 focus:ring-zinc-500";
+
+const DEFAULT_PAN: Pan = {
+  shape: "round",
+  width: 20,
+  length: null,
+  unit: "cm",
+};
+
+function PanFields({
+  label,
+  pan,
+  onChange,
+}: {
+  label: string;
+  pan: Pan;
+  onChange: (pan: Pan) => void;
+}) {
+  return (
+    <fieldset className="flex flex-wrap items-center gap-1.5">
+      <legend className="mb-1 text-zinc-500 dark:text-zinc-400">{label}</legend>
+      <select
+        value={pan.shape}
+        onChange={(e) =>
+          onChange({ ...pan, shape: e.target.value as PanShape })
+        }
+        aria-label={`${label} shape`}
+        className={inputClass}
+      >
+        {PAN_SHAPES.map((shape) => (
+          <option key={shape} value={shape}>
+            {PAN_SHAPE_LABELS[shape]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={1}
+        step="any"
+        value={pan.width || ""}
+        onChange={(e) => onChange({ ...pan, width: Number(e.target.value) })}
+        aria-label={
+          pan.shape === "round" ? `${label} diameter` : `${label} width`
+        }
+        className={`w-16 ${inputClass}`}
+      />
+      {pan.shape === "rectangle" && (
+        <>
+          <span className="text-zinc-400">×</span>
+          <input
+            type="number"
+            min={1}
+            step="any"
+            value={pan.length ?? ""}
+            onChange={(e) =>
+              onChange({ ...pan, length: Number(e.target.value) || null })
+            }
+            aria-label={`${label} length`}
+            className={`w-16 ${inputClass}`}
+          />
+        </>
+      )}
+      <select
+        value={pan.unit}
+        onChange={(e) => onChange({ ...pan, unit: e.target.value as PanUnit })}
+        aria-label={`${label} unit`}
+        className={inputClass}
+      >
+        <option value="cm">cm</option>
+        <option value="in">in</option>
+      </select>
+    </fieldset>
+  );
+}
+
+/**
+ * Scale the recipe to another pan or to the amount of one ingredient on
+ * hand. Reports the factor; null goes back to scaling by portions.
+ */
+export function ScaleBy({
+  ingredients,
+  pan: recipePan,
+  factor,
+  onScale,
+}: {
+  ingredients: ParsedIngredient[];
+  /** The pan the recipe mentions, if any. */
+  pan: Pan | null;
+  factor: number | null;
+  onScale: (factor: number | null) => void;
+}) {
+  const [mode, setMode] = useState<Mode | null>(null);
+  const [fromPan, setFromPan] = useState<Pan>(recipePan ?? DEFAULT_PAN);
+  const [toPan, setToPan] = useState<Pan>(recipePan ?? DEFAULT_PAN);
+  const measured = ingredients
+    .map((ingredient, index) => ({ ingredient, index }))
+    .filter(({ ingredient }) => ingredient.quantityMin);
+  const [keyIndex, setKeyIndex] = useState(measured[0]?.index ?? -1);
+  const [amount, setAmount] = useState("");
+  const key = ingredients[keyIndex];
+  const [amountUnit, setAmountUnit] = useState(key?.unit ?? "");
+
+  function chooseIngredient(index: number) {
+    setKeyIndex(index);
+    setAmountUnit(ingredients[index]?.unit ?? "");
+  }
+
+  function apply(e: React.FormEvent) {
+    e.preventDefault();
+    if (mode === "pan") {
+      if (!isValidPan(fromPan) || !isValidPan(toPan)) return;
+      onScale(panScaleFactor(fromPan, toPan));
+    } else if (mode === "ingredient" && key?.quantityMin) {
+      const have = Number.parseFloat(amount.replace(",", "."));
+      if (!(have > 0)) return;
+      // Weights can be given in another weight unit: 1 lb of 500 g
+      const from = gramsPerUnit(key.unit) ?? 1;
+      const to = gramsPerUnit(amountUnit) ?? 1;
+      onScale((have * to) / (key.quantityMin * from));
+    }
+    setMode(null);
+  }
+
+  if (measured.length === 0 && !recipePan && factor === null && !mode) {
+    return null;
+  }
+
+  return (
+    <div className="print:hidden flex flex-col gap-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-zinc-500 dark:text-zinc-400">Scale to</span>
+        {(["pan", "ingredient"] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(mode === m ? null : m)}
+            aria-expanded={mode === m}
+            className={`rounded-full px-2.5 py-1 font-medium transition-colors ${
+              mode === m
+                ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+            }`}
+          >
+            {m === "pan" ? "My pan" : "What I have"}
+          </button>
+        ))}
+        {factor !== null && (
+          <>
+            <span className="font-medium text-amber-700 dark:text-amber-400 tabular-nums">
+              ×{formatQuantity(factor, null)}
+            </span>
+            <button
+              type="button"
+              onClick={() => onScale(null)}
+              className="font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100 transition-colors"
+            >
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+
+      {mode && (
+        <form
+          onSubmit={apply}
+          className="flex flex-col gap-2 rounded-lg border border-zinc-200 dark:border-zinc-700 p-3"
+        >
+          {mode === "pan" ? (
+            <>
+              <PanFields
+                label="Recipe pan"
+                pan={fromPan}
+                onChange={setFromPan}
+              />
+              <PanFields label="Your pan" pan={toPan} onChange={setToPan} />
+            </>
+          ) : (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <select
+                value={keyIndex}
+                onChange={(e) => chooseIngredient(Number(e.target.value))}
+                aria-label="Ingredient"
+                className={`min-w-0 max-w-full ${inputClass}`}
+              >
+                {measured.map(({ ingredient, index }) => (
+                  <option key={index} value={index}>
+                    {ingredient.text}
+                  </option>
+                ))}
+              </select>
+              <span className="text-zinc-500 dark:text-zinc-400">I have</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                aria-label="Amount I have"
+                required
+                className={`w-16 ${inputClass}`}
+              />
+              {gramsPerUnit(key?.unit ?? null) ? (
+                <select
+                  value={amountUnit}
+                  onChange={(e) => setAmountUnit(e.target.value)}
+                  aria-label="Unit"
+                  className={inputClass}
+                >
+                  {WEIGHT_UNITS.map((unit) => (
+                    <option key={unit} value={unit}>
+                      {unit}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                key?.unit && (
+                  <span className="text-zinc-500 dark:text-zinc-400">
+                    {key.unit}
+                  </span>
+                )
+              )}
+            </div>
+          )}
+          <button
+            type="submit"
+            className="self-start rounded-lg bg-zinc-900 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+          >
+            Scale
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Fill in the parsed parts of ingredients saved before lines were parsed
+ * (migration 0007 only copied them into `text`). Run after migrating:
+ * `npm run db:migrate` does so. Safe to run again, rows that already
+ * parse the same are left alone.
+ */
+import { and, eq, isNull } from "drizzle-orm";
+import { parseIngredientLine } from "../lib/ingredients";
+import { db } from "./index";
+import { ingredients } from "./schema";
+
+async function main() {
+  // Rows from before 0007 have no quantity, unit or note
+  const rows = await db
+    .select()
+    .from(ingredients)
+    .where(
+      and(
+        isNull(ingredients.quantityMin),
+        isNull(ingredients.unit),
+        isNull(ingredients.note),
+      ),
+    );
+
+  let updated = 0;
+  for (const row of rows) {
+    const parsed = parseIngredientLine(row.text);
+    if (
+      parsed.name === row.name &&
+      parsed.quantityMin === null &&
+      parsed.unit === null &&
+      parsed.note === null
+    ) {
+      continue;
+    }
+    await db
+      .update(ingredients)
+      .set({
+        name: parsed.name,
+        quantityMin: parsed.quantityMin,
+        quantityMax: parsed.quantityMax,
+        unit: parsed.unit,
+        note: parsed.note,
+      })
+      .where(eq(ingredients.id, row.id));
+    updated++;
+  }
+
+  console.log(`Backfilled ${updated} of ${rows.length} ingredients.`);
+}
+
+// The pool would otherwise hold the process open
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
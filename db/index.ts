@@ -1,20 +1,38 @@
-import { neon } from "@neondatabase/serverless";
-import { drizzle } from "drizzle-orm/neon-http";
-import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import { neonConfig, Pool } from "@neondatabase/serverless";
+import type { ExtractTablesWithRelations } from "drizzle-orm";
+import type {
+  NeonDatabase,
+  NeonQueryResultHKT,
+} from "drizzle-orm/neon-serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import ws from "ws";
 import * as schema from "./schema";
 
+// The pooled driver (unlike neon-http) has transactions. It talks over
+// WebSockets, which Node 20 doesn't provide itself.
+neonConfig.webSocketConstructor = ws;
+
+/** `db` or a transaction on it, for helpers that can run inside one. */
+export type Executor = PgDatabase<
+  NeonQueryResultHKT,
+  typeof schema,
+  ExtractTablesWithRelations<typeof schema>
+>;
+
 // Lazily initialise so importing this module during build (without DATABASE_URL)
 // doesn't throw. The connection is created on first property access.
-let _db: NeonHttpDatabase<typeof schema> | undefined;
+let _db: NeonDatabase<typeof schema> | undefined;
 
-function getInstance(): NeonHttpDatabase<typeof schema> {
+function getInstance(): NeonDatabase<typeof schema> {
   if (!_db) {
-    _db = drizzle({ client: neon(process.env.DATABASE_URL!), schema });
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL! });
+    _db = drizzle({ client: pool, schema });
   }
   return _db;
 }
 
-export const db = new Proxy({} as NeonHttpDatabase<typeof schema>, {
+export const db = new Proxy({} as NeonDatabase<typeof schema>, {
   get(_, prop: string | symbol) {
     const instance = getInstance();
     const value = (instance as unknown as Record<string | symbol, unknown>)[prop];
@@ -1,19 +1,62 @@
 import { relations } from "drizzle-orm";
-import { integer, pgTable, primaryKey, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+	type AnyPgColumn,
+	boolean,
+	customType,
+	doublePrecision,
+	index,
+	integer,
+	jsonb,
+	pgTable,
+	primaryKey,
+	text,
+	timestamp,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { UNIT_SYSTEMS } from "../lib/units";
+import { DEFAULT_VISIBILITY, RECIPE_VISIBILITIES } from "../lib/visibility";
+
+const tsvector = customType<{ data: string }>({
+	dataType() {
+		return "tsvector";
+	},
+});
 
 export const recipes = pgTable("recipes", {
 	id: uuid().defaultRandom().primaryKey(),
 	title: text().notNull(),
 	description: text(),
 	sourceUrl: text("source_url").notNull(),
-	imageUrl: text("image_url"),
 	servings: text(),
+	// Durations in minutes; total is the stated total or the sum of the parts
+	prepMinutes: integer("prep_minutes"),
+	cookMinutes: integer("cook_minutes"),
+	restMinutes: integer("rest_minutes"),
+	totalMinutes: integer("total_minutes"),
 	rawCaption: text("raw_caption").notNull(),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 	tags: text().array().default([]).notNull(),
 	createdBy: text("created_by"),
-});
+	// Neon Auth user id of whoever added the recipe; null for older rows
+	createdById: text("created_by_id"),
+	// Set on a user's personal variant of a shared recipe
+	forkedFromId: uuid("forked_from_id").references(
+		(): AnyPgColumn => recipes.id,
+		{ onDelete: "set null" },
+	),
+	// The original's updatedAt when the variant last took its content
+	upstreamSyncedAt: timestamp("upstream_synced_at"),
+	// Who besides the creator can see it; see lib/visibility.ts
+	visibility: text({ enum: RECIPE_VISIBILITIES }).default(DEFAULT_VISIBILITY).notNull(),
+	// Name of the source extractor that produced this recipe
+	extractor: text(),
+	// Title, description, ingredient names and steps; see lib/search.ts
+	searchVector: tsvector("search_vector"),
+}, (t) => [
+	index("recipes_search_vector_idx").using("gin", t.searchVector),
+	index("recipes_forked_from_id_idx").on(t.forkedFromId),
+]);
 
 export const userRecipes = pgTable("user_recipes", {
 	userId: text("user_id").notNull(),
@@ -25,14 +68,31 @@ export const userRecipes = pgTable("user_recipes", {
 	primaryKey({ columns: [t.userId, t.recipeId] }),
 ]);
 
+export const recipeImages = pgTable("recipe_images", {
+	id: uuid().defaultRandom().primaryKey(),
+	recipeId: uuid("recipe_id")
+		.notNull()
+		.references(() => recipes.id, { onDelete: "cascade" }),
+	url: text().notNull(),
+	orderIndex: integer("order_index").notNull(),
+});
+
 export const ingredients = pgTable("ingredients", {
 	id: uuid().defaultRandom().primaryKey(),
 	recipeId: uuid("recipe_id")
 		.notNull()
 		.references(() => recipes.id, { onDelete: "cascade" }),
+	// The line as written in the recipe, shown when not scaled
+	text: text().notNull(),
+	// Parsed parts of `text`, see lib/ingredients.ts
 	name: text().notNull(),
-	quantity: text(),
+	quantityMin: doublePrecision("quantity_min"),
+	quantityMax: doublePrecision("quantity_max"),
+	unit: text(),
+	note: text(),
 	orderIndex: integer("order_index").notNull(),
+	// Sub-heading the ingredient is listed under, e.g. "For the sauce"
+	section: text(),
 });
 
 export const instructions = pgTable("instructions", {
@@ -42,12 +102,204 @@ export const instructions = pgTable("instructions", {
 		.references(() => recipes.id, { onDelete: "cascade" }),
 	stepNumber: integer("step_number").notNull(),
 	content: text().notNull(),
+	section: text(),
+	// Order indexes of the ingredients the step uses; null on steps saved
+	// before they were linked, which are matched when shown
+	ingredientIndexes: integer("ingredient_indexes").array(),
+	// Picked in the editor rather than matched from the wording
+	ingredientsManual: boolean("ingredients_manual").default(false).notNull(),
+});
+
+/** Everything a revision records about a recipe, as it was after a change. */
+export type RecipeSnapshot = {
+	title: string;
+	description: string | null;
+	servings: string | null;
+	prepMinutes: number | null;
+	cookMinutes: number | null;
+	restMinutes: number | null;
+	totalMinutes: number | null;
+	tags: string[];
+	images: string[];
+	ingredients: { text: string; section: string | null }[];
+	instructions: {
+		content: string;
+		section: string | null;
+		/** Ingredient indexes picked in the editor; absent when matched. */
+		ingredients?: number[];
+	}[];
+};
+
+export const recipeRevisions = pgTable("recipe_revisions", {
+	id: uuid().defaultRandom().primaryKey(),
+	recipeId: uuid("recipe_id")
+		.notNull()
+		.references(() => recipes.id, { onDelete: "cascade" }),
+	snapshot: jsonb().$type<RecipeSnapshot>().notNull(),
+	// What changed, e.g. "Edited tags"
+	summary: text().notNull(),
+	authorId: text("author_id"),
+	authorName: text("author_name"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+	index("recipe_revisions_recipe_id_idx").on(t.recipeId, t.createdAt),
+]);
+
+/**
+ * Another spelling of a tag, e.g. "vegansk" for "vegan". Tags written to
+ * recipes are stored under their canonical name; see lib/tags.ts.
+ */
+export const tagAliases = pgTable("tag_aliases", {
+	// Lowercase, like every tag key below
+	alias: text().primaryKey(),
+	tag: text().notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/** Tag hierarchy: filtering by `parent` also finds recipes tagged `tag`. */
+export const tagParents = pgTable("tag_parents", {
+	tag: text().primaryKey(),
+	parent: text().notNull(),
+}, (t) => [
+	index("tag_parents_parent_idx").on(t.parent),
+]);
+
+/** A user's named, hand-ordered group of recipes, e.g. "Christmas 2026". */
+export const collections = pgTable("collections", {
+	id: uuid().defaultRandom().primaryKey(),
+	ownerId: text("owner_id").notNull(),
+	name: text().notNull(),
+	description: text(),
+	// Uploaded cover; without one the first recipe's image is shown
+	coverImageUrl: text("cover_image_url"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => [
+	index("collections_owner_id_idx").on(t.ownerId),
+]);
+
+export const collectionRecipes = pgTable("collection_recipes", {
+	collectionId: uuid("collection_id")
+		.notNull()
+		.references(() => collections.id, { onDelete: "cascade" }),
+	recipeId: uuid("recipe_id")
+		.notNull()
+		.references(() => recipes.id, { onDelete: "cascade" }),
+	// Order within the collection, from 0
+	position: integer().notNull(),
+	addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (t) => [
+	primaryKey({ columns: [t.collectionId, t.recipeId] }),
+	index("collection_recipes_recipe_id_idx").on(t.recipeId),
+]);
+
+/** A public link to one recipe; the token is signed, see lib/shares.ts. */
+export const recipeShares = pgTable("recipe_shares", {
+	id: uuid().defaultRandom().primaryKey(),
+	recipeId: uuid("recipe_id")
+		.notNull()
+		.references(() => recipes.id, { onDelete: "cascade" }),
+	createdById: text("created_by_id").notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	// Null for links that don't expire
+	expiresAt: timestamp("expires_at"),
+	revokedAt: timestamp("revoked_at"),
+}, (t) => [
+	index("recipe_shares_recipe_id_idx").on(t.recipeId),
+]);
+
+/** A family or team sharing a recipe box. Members are Neon Auth users. */
+export const households = pgTable("households", {
+	id: uuid().defaultRandom().primaryKey(),
+	name: text().notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const householdMembers = pgTable("household_members", {
+	householdId: uuid("household_id")
+		.notNull()
+		.references(() => households.id, { onDelete: "cascade" }),
+	userId: text("user_id").notNull(),
+	// Display name at the time of joining, like recipes.createdBy
+	userName: text("user_name"),
+	// Owners rename the household, invite and remove members
+	role: text({ enum: ["owner", "member"] }).default("member").notNull(),
+	joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (t) => [
+	primaryKey({ columns: [t.householdId, t.userId] }),
+	index("household_members_user_id_idx").on(t.userId),
+]);
+
+export const householdInvites = pgTable("household_invites", {
+	id: uuid().defaultRandom().primaryKey(),
+	householdId: uuid("household_id")
+		.notNull()
+		.references(() => households.id, { onDelete: "cascade" }),
+	// Secret in the invite link
+	token: text().notNull().unique(),
+	// Only this address may accept; null for a link anyone can use
+	email: text(),
+	invitedById: text("invited_by_id"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	expiresAt: timestamp("expires_at").notNull(),
 });
 
+export const householdRecipes = pgTable("household_recipes", {
+	householdId: uuid("household_id")
+		.notNull()
+		.references(() => households.id, { onDelete: "cascade" }),
+	recipeId: uuid("recipe_id")
+		.notNull()
+		.references(() => recipes.id, { onDelete: "cascade" }),
+	addedById: text("added_by_id"),
+	addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (t) => [
+	primaryKey({ columns: [t.householdId, t.recipeId] }),
+	index("household_recipes_recipe_id_idx").on(t.recipeId),
+]);
+
+/** Per-user defaults; a missing row means the defaults in lib/units.ts. */
+export const userPreferences = pgTable("user_preferences", {
+	userId: text("user_id").primaryKey(),
+	unitSystem: text("unit_system", { enum: UNIT_SYSTEMS })
+		.default("original")
+		.notNull(),
+	// Cups of flour, sugar etc. become grams and back; see lib/units.ts
+	convertByWeight: boolean("convert_by_weight").default(true).notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Where a user is in cooking a recipe, shared by all their devices. Rows
+ * stop counting once expired and are cleared on the user's next save.
+ */
+export const cookingSessions = pgTable("cooking_sessions", {
+	userId: text("user_id").notNull(),
+	recipeId: uuid("recipe_id")
+		.notNull()
+		.references(() => recipes.id, { onDelete: "cascade" }),
+	// Order indexes of the ticked ingredients and the steps marked done
+	checkedIngredients: integer("checked_ingredients").array().default([]).notNull(),
+	completedSteps: integer("completed_steps").array().default([]).notNull(),
+	// Where cook mode opens
+	currentStep: integer("current_step").default(0).notNull(),
+	// Null while cooking the amount the recipe makes
+	portions: doublePrecision(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	expiresAt: timestamp("expires_at").notNull(),
+}, (t) => [
+	primaryKey({ columns: [t.userId, t.recipeId] }),
+]);
+
 export const recipesRelations = relations(recipes, ({ many }) => ({
+	images: many(recipeImages),
 	ingredients: many(ingredients),
 	instructions: many(instructions),
 	userRecipes: many(userRecipes),
+	revisions: many(recipeRevisions),
+	householdRecipes: many(householdRecipes),
+	shares: many(recipeShares),
+	collectionRecipes: many(collectionRecipes),
 }));
 
 export const userRecipesRelations = relations(userRecipes, ({ one }) => ({
@@ -57,6 +309,13 @@ export const userRecipesRelations = relations(userRecipes, ({ one }) => ({
 	}),
 }));
 
+export const recipeImagesRelations = relations(recipeImages, ({ one }) => ({
+	recipe: one(recipes, {
+		fields: [recipeImages.recipeId],
+		references: [recipes.id],
+	}),
+}));
+
 export const ingredientsRelations = relations(ingredients, ({ one }) => ({
 	recipe: one(recipes, {
 		fields: [ingredients.recipeId],
@@ -70,3 +329,78 @@ export const instructionsRelations = relations(instructions, ({ one }) => ({
 		references: [recipes.id],
 	}),
 }));
+
+export const recipeRevisionsRelations = relations(
+	recipeRevisions,
+	({ one }) => ({
+		recipe: one(recipes, {
+			fields: [recipeRevisions.recipeId],
+			references: [recipes.id],
+		}),
+	}),
+);
+
+export const collectionsRelations = relations(collections, ({ many }) => ({
+	recipes: many(collectionRecipes),
+}));
+
+export const collectionRecipesRelations = relations(
+	collectionRecipes,
+	({ one }) => ({
+		collection: one(collections, {
+			fields: [collectionRecipes.collectionId],
+			references: [collections.id],
+		}),
+		recipe: one(recipes, {
+			fields: [collectionRecipes.recipeId],
+			references: [recipes.id],
+		}),
+	}),
+);
+
+export const recipeSharesRelations = relations(recipeShares, ({ one }) => ({
+	recipe: one(recipes, {
+		fields: [recipeShares.recipeId],
+		references: [recipes.id],
+	}),
+}));
+
+export const householdsRelations = relations(households, ({ many }) => ({
+	members: many(householdMembers),
+	invites: many(householdInvites),
+	recipes: many(householdRecipes),
+}));
+
+export const householdMembersRelations = relations(
+	householdMembers,
+	({ one }) => ({
+		household: one(households, {
+			fields: [householdMembers.householdId],
+			references: [households.id],
+		}),
+	}),
+);
+
+export const householdInvitesRelations = relations(
+	householdInvites,
+	({ one }) => ({
+		household: one(households, {
+			fields: [householdInvites.householdId],
+			references: [households.id],
+		}),
+	}),
+);
+
+export const householdRecipesRelations = relations(
+	householdRecipes,
+	({ one }) => ({
+		household: one(households, {
+			fields: [householdRecipes.householdId],
+			references: [households.id],
+		}),
+		recipe: one(recipes, {
+			fields: [householdRecipes.recipeId],
+			references: [recipes.id],
+		}),
+	}),
+);
@@ -0,0 +1 @@
+ALTER TABLE "recipes" ADD COLUMN "extractor" text;
\ No newline at end of file
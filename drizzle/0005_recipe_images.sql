@@ -0,0 +1,10 @@
+CREATE TABLE "recipe_images" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"order_index" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recipe_images" ADD CONSTRAINT "recipe_images_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "recipe_images" ("recipe_id", "url", "order_index") SELECT "id", "image_url", 0 FROM "recipes" WHERE "image_url" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "recipes" DROP COLUMN "image_url";
\ No newline at end of file
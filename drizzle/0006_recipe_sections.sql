@@ -0,0 +1,2 @@
+ALTER TABLE "ingredients" ADD COLUMN "section" text;--> statement-breakpoint
+ALTER TABLE "instructions" ADD COLUMN "section" text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "ingredients" ADD COLUMN "text" text;--> statement-breakpoint
+ALTER TABLE "ingredients" ADD COLUMN "quantity_min" double precision;--> statement-breakpoint
+ALTER TABLE "ingredients" ADD COLUMN "quantity_max" double precision;--> statement-breakpoint
+ALTER TABLE "ingredients" ADD COLUMN "unit" text;--> statement-breakpoint
+ALTER TABLE "ingredients" ADD COLUMN "note" text;--> statement-breakpoint
+UPDATE "ingredients" SET "text" = CASE WHEN "quantity" IS NOT NULL THEN "quantity" || ' ' || "name" ELSE "name" END;--> statement-breakpoint
+ALTER TABLE "ingredients" ALTER COLUMN "text" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingredients" DROP COLUMN "quantity";
@@ -0,0 +1,4 @@
+ALTER TABLE "recipes" ADD COLUMN "prep_minutes" integer;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "cook_minutes" integer;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "rest_minutes" integer;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "total_minutes" integer;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "recipes" ADD COLUMN "search_vector" "tsvector";--> statement-breakpoint
+CREATE INDEX "recipes_search_vector_idx" ON "recipes" USING gin ("search_vector");--> statement-breakpoint
+UPDATE "recipes" SET "search_vector" =
+	setweight(to_tsvector('simple', coalesce("recipes"."title", '')), 'A') ||
+	setweight(to_tsvector('simple', coalesce((SELECT string_agg("ingredients"."name", ' ' ORDER BY "ingredients"."order_index") FROM "ingredients" WHERE "ingredients"."recipe_id" = "recipes"."id"), '')), 'B') ||
+	setweight(to_tsvector('simple', array_to_string("recipes"."tags", ' ')), 'B') ||
+	setweight(to_tsvector('simple', coalesce("recipes"."description", '')), 'C') ||
+	setweight(to_tsvector('simple', coalesce((SELECT string_agg("instructions"."content", ' ' ORDER BY "instructions"."step_number") FROM "instructions" WHERE "instructions"."recipe_id" = "recipes"."id"), '')), 'D');
@@ -0,0 +1,12 @@
+ALTER TABLE "recipes" ADD COLUMN "created_by_id" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "forked_from_id" uuid;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "upstream_synced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "recipes" ADD CONSTRAINT "recipes_forked_from_id_recipes_id_fk" FOREIGN KEY ("forked_from_id") REFERENCES "public"."recipes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recipes_forked_from_id_idx" ON "recipes" USING btree ("forked_from_id");--> statement-breakpoint
+-- Whoever saved a recipe first is the one who imported it
+UPDATE "recipes" SET "created_by_id" = (
+	SELECT "user_id" FROM "user_recipes"
+	WHERE "user_recipes"."recipe_id" = "recipes"."id"
+	ORDER BY "saved_at"
+	LIMIT 1
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "recipe_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"summary" text NOT NULL,
+	"author_id" text,
+	"author_name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recipe_revisions" ADD CONSTRAINT "recipe_revisions_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recipe_revisions_recipe_id_idx" ON "recipe_revisions" USING btree ("recipe_id","created_at");
\ No newline at end of file
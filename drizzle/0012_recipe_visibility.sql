@@ -0,0 +1,3 @@
+ALTER TABLE "recipes" ADD COLUMN "visibility" text DEFAULT 'public' NOT NULL;--> statement-breakpoint
+-- Personal versions were only ever shown to their owner
+UPDATE "recipes" SET "visibility" = 'private' WHERE "forked_from_id" IS NOT NULL;
@@ -0,0 +1,40 @@
+CREATE TABLE "household_invites" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"email" text,
+	"invited_by_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "household_invites_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "household_members" (
+	"household_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"user_name" text,
+	"role" text DEFAULT 'member' NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "household_members_household_id_user_id_pk" PRIMARY KEY("household_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "household_recipes" (
+	"household_id" uuid NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"added_by_id" text,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "household_recipes_household_id_recipe_id_pk" PRIMARY KEY("household_id","recipe_id")
+);
+--> statement-breakpoint
+CREATE TABLE "households" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "household_invites" ADD CONSTRAINT "household_invites_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_recipes" ADD CONSTRAINT "household_recipes_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_recipes" ADD CONSTRAINT "household_recipes_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "household_members_user_id_idx" ON "household_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "household_recipes_recipe_id_idx" ON "household_recipes" USING btree ("recipe_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "recipe_shares" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"created_by_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "recipe_shares" ADD CONSTRAINT "recipe_shares_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recipe_shares_recipe_id_idx" ON "recipe_shares" USING btree ("recipe_id");
\ No newline at end of file
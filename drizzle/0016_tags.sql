@@ -0,0 +1,12 @@
+CREATE TABLE "tag_aliases" (
+	"alias" text PRIMARY KEY NOT NULL,
+	"tag" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tag_parents" (
+	"tag" text PRIMARY KEY NOT NULL,
+	"parent" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "tag_parents_parent_idx" ON "tag_parents" USING btree ("parent");
\ No newline at end of file
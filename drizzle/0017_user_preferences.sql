@@ -0,0 +1,6 @@
+CREATE TABLE "user_preferences" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"unit_system" text DEFAULT 'original' NOT NULL,
+	"convert_by_weight" boolean DEFAULT true NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
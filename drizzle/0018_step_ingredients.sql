@@ -0,0 +1,2 @@
+ALTER TABLE "instructions" ADD COLUMN "ingredient_indexes" integer[];--> statement-breakpoint
+ALTER TABLE "instructions" ADD COLUMN "ingredients_manual" boolean DEFAULT false NOT NULL;
\ No newline at end of file
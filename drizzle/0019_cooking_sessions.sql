@@ -0,0 +1,13 @@
+CREATE TABLE "cooking_sessions" (
+	"user_id" text NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"checked_ingredients" integer[] DEFAULT '{}' NOT NULL,
+	"completed_steps" integer[] DEFAULT '{}' NOT NULL,
+	"current_step" integer DEFAULT 0 NOT NULL,
+	"portions" double precision,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "cooking_sessions_user_id_recipe_id_pk" PRIMARY KEY("user_id","recipe_id")
+);
+--> statement-breakpoint
+ALTER TABLE "cooking_sessions" ADD CONSTRAINT "cooking_sessions_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "recipes" ALTER COLUMN "visibility" SET DEFAULT 'private';
\ No newline at end of file
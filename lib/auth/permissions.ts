@@ -0,0 +1,226 @@
+import type { SQL } from "drizzle-orm";
+import { and, eq, exists, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "../../db";
+import {
+  householdMembers,
+  householdRecipes,
+  recipes,
+  userRecipes,
+} from "../../db/schema";
+import { findUserFork, forkRecipe } from "../forks";
+import type { RecipeVisibility } from "../visibility";
+import { auth } from "./server";
+
+export type SessionUser = { id: string; name: string; email: string };
+
+/**
+ * Returned by every recipe mutation that isn't allowed, so callers can
+ * tell "sign in" apart from "not yours" without matching on messages.
+ */
+export type MutationDenied = {
+  success: false;
+  error: string;
+  reason: "unauthenticated" | "forbidden" | "not_found";
+};
+
+const DENIED_MESSAGES: Record<MutationDenied["reason"], string> = {
+  unauthenticated: "You must be signed in.",
+  forbidden: "You don't have permission to change this recipe.",
+  not_found: "Recipe not found.",
+};
+
+export function denied(reason: MutationDenied["reason"]): MutationDenied {
+  return { success: false, error: DENIED_MESSAGES[reason], reason };
+}
+
+/** Admins are listed by Neon Auth user id in ADMIN_USER_IDS (comma separated). */
+export function isAdmin(user: { id: string }): boolean {
+  const ids = (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids.includes(user.id);
+}
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Ids from the client are checked before they reach a uuid column. */
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_RE.test(value);
+}
+
+// Outer `recipes` columns, table-qualified for correlated subqueries (see
+// outerRecipeId in lib/search.ts)
+const outerRecipeId = sql`${recipes}.${sql.identifier("id")}`;
+const outerCreatorId = sql`${recipes}.${sql.identifier("created_by_id")}`;
+
+const coMember = alias(householdMembers, "co_member");
+
+/**
+ * Which recipes `user` may see: public ones, their own, everything for
+ * admins, and household recipes when they share a household with whoever
+ * added it or the recipe is in one of their households' boxes.
+ */
+export function recipeVisibleTo(user: { id: string } | undefined): SQL {
+  if (!user) return eq(recipes.visibility, "public");
+  if (isAdmin(user)) return sql`true`;
+  return or(
+    eq(recipes.visibility, "public"),
+    eq(recipes.createdById, user.id),
+    and(
+      eq(recipes.visibility, "household"),
+      or(
+        exists(
+          db
+            .select({ one: sql`1` })
+            .from(householdMembers)
+            .innerJoin(
+              coMember,
+              eq(coMember.householdId, householdMembers.householdId),
+            )
+            .where(
+              and(
+                eq(householdMembers.userId, user.id),
+                sql`${coMember.userId} = ${outerCreatorId}`,
+              ),
+            ),
+        ),
+        exists(
+          db
+            .select({ one: sql`1` })
+            .from(householdRecipes)
+            .innerJoin(
+              householdMembers,
+              eq(householdMembers.householdId, householdRecipes.householdId),
+            )
+            .where(
+              and(
+                eq(householdMembers.userId, user.id),
+                sql`${householdRecipes.recipeId} = ${outerRecipeId}`,
+              ),
+            ),
+        ),
+      ),
+    ),
+  ) as SQL;
+}
+
+/**
+ * Whether `user` may see a recipe at all; see recipeVisibleTo. Only
+ * household recipes need a query.
+ */
+export async function canViewRecipe(
+  recipe: {
+    id: string;
+    visibility: RecipeVisibility;
+    createdById: string | null;
+  },
+  user: { id: string } | undefined,
+): Promise<boolean> {
+  if (recipe.visibility === "public") return true;
+  if (!user) return false;
+  if (isAdmin(user) || recipe.createdById === user.id) return true;
+  if (recipe.visibility !== "household") return false;
+  const [visible] = await db
+    .select({ id: recipes.id })
+    .from(recipes)
+    .where(and(eq(recipes.id, recipe.id), recipeVisibleTo(user)));
+  return visible !== undefined;
+}
+
+/**
+ * Why a user may change a recipe: admins and whoever added it change it in
+ * place, users who saved it change their own version of it.
+ */
+export type RecipePermission =
+  | { allowed: true; role: "admin" | "creator" | "saver" }
+  | { allowed: false; reason: "forbidden" | "not_found" };
+
+export async function recipePermission(
+  recipeId: string,
+  user: { id: string },
+): Promise<RecipePermission> {
+  if (!isUuid(recipeId)) return { allowed: false, reason: "not_found" };
+  const recipe = await db.query.recipes.findFirst({
+    columns: {
+      id: true,
+      createdById: true,
+      forkedFromId: true,
+      visibility: true,
+    },
+    where: eq(recipes.id, recipeId),
+  });
+  // Recipes the user can't see are reported as missing, not forbidden
+  if (!recipe || !(await canViewRecipe(recipe, user))) {
+    return { allowed: false, reason: "not_found" };
+  }
+
+  if (isAdmin(user)) return { allowed: true, role: "admin" };
+  if (recipe.createdById === user.id) return { allowed: true, role: "creator" };
+  // Someone else's personal version is theirs alone
+  if (recipe.forkedFromId) return { allowed: false, reason: "forbidden" };
+
+  const saved = await db.query.userRecipes.findFirst({
+    columns: { recipeId: true },
+    where: and(
+      eq(userRecipes.userId, user.id),
+      eq(userRecipes.recipeId, recipe.id),
+    ),
+  });
+  // Forking moves the saved link to the fork, so a fork counts as saved
+  if (saved || (await findUserFork(recipe.id, user.id))) {
+    return { allowed: true, role: "saver" };
+  }
+  return { allowed: false, reason: "forbidden" };
+}
+
+export type AuthorizedMutation =
+  | {
+      ok: true;
+      user: SessionUser;
+      recipeId: string;
+      /** Savers write to their own version; see mutationTarget. */
+      role: "admin" | "creator" | "saver";
+    }
+  | { ok: false; denied: MutationDenied };
+
+/**
+ * Gate for every server action that changes a recipe. Server actions skip
+ * the auth middleware (see proxy.ts), so this is the only check they get.
+ * With `ownerOnly`, savers are refused instead of getting their own version,
+ * for settings such as visibility that only the owner decides. Nothing is
+ * written here; see mutationTarget.
+ */
+export async function authorizeRecipeMutation(
+  recipeId: string,
+  { ownerOnly = false }: { ownerOnly?: boolean } = {},
+): Promise<AuthorizedMutation> {
+  const { data: session } = await auth.getSession();
+  if (!session?.user) return { ok: false, denied: denied("unauthenticated") };
+  const user = session.user;
+
+  const permission = await recipePermission(recipeId, user);
+  if (!permission.allowed) {
+    return { ok: false, denied: denied(permission.reason) };
+  }
+  if (ownerOnly && permission.role === "saver") {
+    return { ok: false, denied: denied("forbidden") };
+  }
+  return { ok: true, user, recipeId, role: permission.role };
+}
+
+/**
+ * The recipe an authorised change is written to: the recipe itself, or the
+ * saver's own version of it, made now if they have none. Call it once the
+ * change has been checked, so one that is turned down leaves no copy behind.
+ */
+export async function mutationTarget(
+  access: Extract<AuthorizedMutation, { ok: true }>,
+): Promise<string> {
+  const { user, recipeId, role } = access;
+  return role === "saver"
+    ? forkRecipe(recipeId, user.id, user.name || user.email)
+    : recipeId;
+}
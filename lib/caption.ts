@@ -0,0 +1,457 @@
+import { parseTimeLine, type RecipeTimes } from "./durations";
+import type { RecipeData } from "./extractors/types";
+import { parseSectionHeader, splitSectionHeaders } from "./sections";
+
+const JUNK_RE =
+  /^(view all \d|like$|\d+ likes?$|liked by|add a comment|log in|sign up|comment\s+.{0,30}(send|dm|get)|follow\s+me|save\s+this|share\s+this|link\s+in\s+bio|tag\s+a\s+friend|double.?tap|dm\s+me|click\s+(the\s+)?link)/i;
+
+const HASHTAG_HEAVY_RE = /^[#@\s\p{Emoji}]+$/u;
+
+function cleanInstagramCaption(raw: string): string[] {
+  return (
+    raw
+      .split("\n")
+      .map((l) => l.trim())
+      .filter((l) => l.length > 0)
+      .filter((l) => !JUNK_RE.test(l))
+      .filter((l) => !HASHTAG_HEAVY_RE.test(l))
+      // Lines that are >50% hashtags
+      .filter((l) => {
+        const tags = l.match(/#\S+/g);
+        if (!tags) return true;
+        const tagLen = tags.join("").length;
+        return tagLen / l.length < 0.5;
+      })
+  );
+}
+
+function isJunkLine(line: string): boolean {
+  return /^(comment\s+.{0,30}(send|dm|get)|follow\s+me|save\s+this|share\s+this|link\s+in\s+bio|tag\s+a\s+friend|makros?\s+per|macros?\s+per)/i.test(
+    line,
+  );
+}
+
+// Regex matching section headers in multiple languages (English + Swedish)
+export const ING_HEADER_RE = /^(?:ingredients?|ingredienser)\b/i;
+export const INS_HEADER_RE =
+  /^(?:instructions?|directions?|method|steps?|how to make|preparation|tillagning|instruktioner|beredning|s[åa]h[äa]r\s+g[öo]r\s+(?:du|man)|metod)\b/i;
+const ING_INLINE_RE = /^(?:ingredients?|ingredienser)\s*[•\-*:]\s*(.*)/i;
+const INS_INLINE_RE =
+  /^(?:instructions?|directions?|method|steps?|tillagning|instruktioner|beredning)\s*(\d+[.)]\s*.*)/i;
+
+// Extract servings count from patterns like "(6 portioner)" or "(4-6 servings)"
+function extractServingsFromLine(line: string): string | undefined {
+  const m = line.match(
+    /\((\d+(?:[–-]\d+)?)\s*(portioner?|portions?|servings?|personer?)\)/i,
+  );
+  return m ? `${m[1]} ${m[2]}` : undefined;
+}
+
+// Strip leading emoji characters from a string
+function stripLeadingEmoji(str: string): string {
+  return (
+    str
+      .replace(/^[\p{Emoji_Presentation}\p{Extended_Pictographic}\s]+/u, "")
+      .trim() || str.trim()
+  );
+}
+
+/** Instagram embeds prepend the username as line 0. Detect and strip it. */
+function stripUsername(lines: string[]): string[] {
+  if (lines.length < 2) return lines;
+  const first = lines[0];
+  // Username: single word (or with dots/underscores), no spaces, short
+  if (/^[a-zA-Z_][a-zA-Z0-9._]{1,30}$/.test(first) && first.length <= 30) {
+    return lines.slice(1);
+  }
+  return lines;
+}
+
+// Multilingual measurement units
+const UNITS_RE =
+  /\b(msk|tsk|dl|cl|ml|l|krm|st|kopp|paket|tetra|nypa|burk|klyftor?|knippe|cup|cups|tbsp|tsp|tablespoons?|teaspoons?|oz|ounces?|lb|lbs?|pounds?|g|kg|bunch|clove|cloves?|cans?|pinch|dash|pint|quart|gallon|stick|sticks?|head|heads?)\b/i;
+
+const COOKING_VERBS_RE =
+  /\b(cook|bake|fry|saut[ée]|boil|simmer|stir|mix|chop|dice|slice|preheat|heat|add|pour|combine|whisk|fold|season|serve|drain|rinse|set aside|remove|place|spread|transfer|reduce|bring|roast|grill|broil|steam|blanch|marinate|toss|garnish|stek|koka|fräs|blanda|skär|hacka|rör|sjud|häll|servera|smaksätt|låt|vänd|avsluta|smält|sila|ringla|tillsätt|krydda|ha\s+i|lägg)\b/i;
+
+const PREP_WORDS_RE =
+  /,\s*(finhackad[ea]?|hackad[ea]?|skivad[ea]?|tärnad[ea]?|delad[ea]?|i\s+(bitar|skivor|mindre\s+bitar)|diced|chopped|sliced|minced|grated|julienned|crushed|sköljda|avrunna)\b/i;
+
+const SERVINGS_RE =
+  /^(\d+[-–]\d+|\d+)\s*(portioner|servings?|pers(oner)?|portions?)\.?$/i;
+
+const FRACTION_START_RE = /^(\d|½|¼|¾|⅓|⅔|⅛|⅜|⅝|⅞|\d+\/\d+|\d+[.,]\d+)/;
+
+// Swedish/English indefinite quantity words at line start
+const INDEF_QTY_RE =
+  /^(lite|en\s|ett\s|några|ev\b|eventuellt|a\s+few|some|a\s+handful|a\s+pinch|a\s+dash)/i;
+
+export function scoreIngredient(line: string): number {
+  let score = 0;
+  if (FRACTION_START_RE.test(line)) score += 0.35;
+  if (INDEF_QTY_RE.test(line)) score += 0.25;
+  if (UNITS_RE.test(line)) score += 0.25;
+  if (line.length < 60) score += 0.15;
+  if (PREP_WORDS_RE.test(line)) score += 0.1;
+  if (/^[-•·◦▪⁃*]\s/.test(line)) score += 0.1;
+  // Lowercase start without number often means ingredient too ("olja, till stekning", "salt och peppar")
+  if (/^[a-zåäöüé]/.test(line) && line.length < 50) score += 0.1;
+  if (COOKING_VERBS_RE.test(line)) score -= 0.3;
+  if (line.length > 120) score -= 0.4;
+  return Math.max(0, Math.min(1, score));
+}
+
+export function scoreInstruction(line: string): number {
+  let score = 0;
+  if (COOKING_VERBS_RE.test(line)) score += 0.3;
+  if (line.length > 60) score += 0.2;
+  if (/^\d+[.)]\s/.test(line)) score += 0.2;
+  if (
+    /\b\d+\s*(min(ut[ea]r|utes?)?|tim(m?ar|e)|hours?|seconds?|sekunder)\b/i.test(
+      line,
+    )
+  )
+    score += 0.1;
+  if (/\d+\s*°/i.test(line)) score += 0.1;
+  // Starts with uppercase imperative (common in instructions)
+  if (/^[A-ZÅÄÖ][a-zåäöé]+\s/.test(line) && line.length > 30) score += 0.1;
+  return Math.max(0, Math.min(1, score));
+}
+
+function extractServings(lines: string[]): {
+  servings: string | undefined;
+  filtered: string[];
+} {
+  let servings: string | undefined;
+  const filtered: string[] = [];
+  for (const line of lines) {
+    const m = SERVINGS_RE.exec(line);
+    if (m && !servings) {
+      servings = m[0];
+    } else {
+      filtered.push(line);
+    }
+  }
+  return { servings, filtered };
+}
+
+/**
+ * Pull labelled time lines ("Prep time: 10 min | Cook time: 20 min") out
+ * of the caption. A line is only taken when every part of it is a time.
+ */
+function extractTimes(lines: string[]): {
+  times: RecipeTimes;
+  filtered: string[];
+} {
+  const times: RecipeTimes = {};
+  const filtered: string[] = [];
+  for (const line of lines) {
+    const parts = line
+      .split(/\s*[|•·]\s*|,\s+/)
+      .filter(Boolean)
+      .map(parseTimeLine);
+    if (parts.length > 0 && parts.every((p) => p !== null)) {
+      for (const part of parts) {
+        if (part && times[part.field] === undefined) {
+          times[part.field] = part.minutes;
+        }
+      }
+    } else {
+      filtered.push(line);
+    }
+  }
+  return { times, filtered };
+}
+
+function splitIntoSentences(text: string): string[] {
+  // Split on ". " followed by an uppercase letter, or on "! " / "? "
+  const sentences = text.split(/(?<=\.)\s+(?=[A-ZÅÄÖÜÉ])|(?<=[!?])\s+/);
+  return sentences.map((s) => s.trim()).filter((s) => s.length > 5);
+}
+
+/** Split "For the X:" sub-headings out of the parsed lists into sections. */
+function withSections(
+  ingredientLines: string[],
+  instructionLines: string[],
+): Pick<
+  RecipeData,
+  "ingredients" | "instructions" | "ingredientSections" | "instructionSections"
+> {
+  const ingredients = splitSectionHeaders(ingredientLines);
+  const instructions = splitSectionHeaders(instructionLines);
+  return {
+    ingredients: ingredients.items,
+    instructions: instructions.items,
+    ingredientSections: ingredients.sections,
+    instructionSections: instructions.sections,
+  };
+}
+
+export function parseInstagramCaption(
+  caption: string,
+  sourceUrl: string,
+): RecipeData {
+  let lines = cleanInstagramCaption(caption);
+  lines = stripUsername(lines);
+
+  const { servings: extractedServings, filtered } = extractServings(lines);
+  let servings: string | undefined = extractedServings;
+  lines = filtered;
+
+  const { times, filtered: withoutTimes } = extractTimes(lines);
+  lines = withoutTimes;
+
+  // ── Strategy 1: Header-based parsing ──
+  const ingredientHeaderIdx = lines.findIndex((l) => ING_HEADER_RE.test(l));
+  const instructionHeaderIdx = lines.findIndex((l) => INS_HEADER_RE.test(l));
+
+  // Also detect inline section markers like "Ingredients• 1 can..." or "Tillagning: Finhacka..."
+  const inlineIngIdx =
+    ingredientHeaderIdx < 0
+      ? lines.findIndex((l) => ING_INLINE_RE.test(l))
+      : -1;
+  const inlineInsIdx =
+    instructionHeaderIdx < 0
+      ? lines.findIndex((l) => INS_INLINE_RE.test(l))
+      : -1;
+
+  const effectiveIngIdx =
+    ingredientHeaderIdx >= 0 ? ingredientHeaderIdx : inlineIngIdx;
+  const effectiveInsIdx =
+    instructionHeaderIdx >= 0 ? instructionHeaderIdx : inlineInsIdx;
+
+  if (effectiveIngIdx >= 0 || effectiveInsIdx >= 0) {
+    const headerStart = Math.min(
+      ...[effectiveIngIdx, effectiveInsIdx].filter((i) => i >= 0),
+    );
+
+    let title = "Instagram Recipe";
+    const descriptionLines: string[] = [];
+    const ingredients: string[] = [];
+    const instructions: string[] = [];
+
+    // Extract title and description from lines before the first section header.
+    if (headerStart > 0) {
+      // Prefer a later short line as the title over the first (often promo-heavy) line
+      let bestTitleIdx = 0;
+      for (let i = 1; i < headerStart; i++) {
+        const l = lines[i];
+        if (l.includes("@") || l.startsWith("#") || isJunkLine(l)) continue;
+        if (
+          l.length < lines[bestTitleIdx].length &&
+          !l.includes("!") &&
+          !l.includes("?")
+        ) {
+          bestTitleIdx = i;
+        }
+      }
+
+      const rawTitle = lines[bestTitleIdx];
+      if (!servings) servings = extractServingsFromLine(rawTitle);
+      title =
+        stripLeadingEmoji(
+          rawTitle.replace(
+            /\([^)]*(?:portioner?|portions?|servings?)[^)]*\)/i,
+            "",
+          ),
+        ).trim() || rawTitle;
+
+      for (let i = 0; i < headerStart; i++) {
+        if (i === bestTitleIdx) continue;
+        const l = lines[i];
+        if (!isJunkLine(l) && !l.startsWith("#") && !l.includes("@")) {
+          if (!servings) servings = extractServingsFromLine(l);
+          descriptionLines.push(stripLeadingEmoji(l));
+        }
+      }
+    }
+
+    // Determine ingredient/instruction ranges
+    const ingStart = effectiveIngIdx >= 0 ? effectiveIngIdx : -1;
+    const insStart = effectiveInsIdx >= 0 ? effectiveInsIdx : -1;
+
+    if (ingStart >= 0) {
+      const ingEnd = insStart > ingStart ? effectiveInsIdx : lines.length;
+      const headerLine = lines[ingStart];
+      const inlineSplit = ING_INLINE_RE.exec(headerLine);
+      const startOffset = inlineSplit ? ingStart : ingStart + 1;
+      if (inlineSplit?.[1]) ingredients.push(inlineSplit[1].trim());
+
+      for (let i = startOffset; i < ingEnd; i++) {
+        if (i === ingStart && inlineSplit) continue;
+        const line = lines[i].replace(/^[-•·◦▪⁃*]\s*/, "").trim();
+        if (line && !line.startsWith("#")) ingredients.push(line);
+      }
+    }
+
+    if (insStart >= 0) {
+      const insEnd = ingStart > insStart ? effectiveIngIdx : lines.length;
+      const headerLine = lines[insStart];
+      const inlineSplit = INS_INLINE_RE.exec(headerLine);
+      const startOffset = inlineSplit ? insStart : insStart + 1;
+      if (inlineSplit?.[1]) {
+        instructions.push(inlineSplit[1].replace(/^\d+[.):\s-]+/, "").trim());
+      }
+
+      for (let i = startOffset; i < insEnd; i++) {
+        if (i === insStart && inlineSplit) continue;
+        const line = lines[i]
+          .replace(/^(?:step\s*)?\d+[.):\s-]+/i, "")
+          .replace(/^[-•·◦▪⁃*]\s*/, "")
+          .trim();
+        if (!line || line.startsWith("#")) continue;
+        instructions.push(line);
+      }
+    }
+
+    return {
+      title: title.replace(/^[✨⭐🌟\s*]+|[✨⭐🌟\s*]+$/gu, "").trim() || title,
+      description: descriptionLines.join("\n") || undefined,
+      ...withSections(ingredients, instructions),
+      images: [],
+      servings,
+      ...times,
+      sourceUrl,
+    };
+  }
+
+  // ── Strategy 2: Score-based classification ──
+  const scores = lines.map((l) => ({
+    line: l,
+    ing: scoreIngredient(l),
+    ins: scoreInstruction(l),
+    header: parseSectionHeader(l) !== null,
+  }));
+
+  // Find the longest cluster of consecutive ingredient-scored lines (score > 0.3)
+  let bestClusterStart = -1;
+  let bestClusterEnd = -1;
+  let clusterStart = -1;
+  for (let i = 0; i < scores.length; i++) {
+    // "For the sauce:" headers sit inside the ingredient list, keep the cluster going
+    if (
+      (scores[i].ing >= 0.3 && scores[i].ing > scores[i].ins) ||
+      (scores[i].header && clusterStart >= 0)
+    ) {
+      if (clusterStart < 0) clusterStart = i;
+    } else {
+      if (
+        clusterStart >= 0 &&
+        i - clusterStart > bestClusterEnd - bestClusterStart
+      ) {
+        bestClusterStart = clusterStart;
+        bestClusterEnd = i;
+      }
+      clusterStart = -1;
+    }
+  }
+  // Check final cluster
+  if (
+    clusterStart >= 0 &&
+    scores.length - clusterStart > bestClusterEnd - bestClusterStart
+  ) {
+    bestClusterStart = clusterStart;
+    bestClusterEnd = scores.length;
+  }
+
+  // Need at least 2 ingredient lines to count as a cluster
+  if (bestClusterStart >= 0 && bestClusterEnd - bestClusterStart < 2) {
+    bestClusterStart = -1;
+    bestClusterEnd = -1;
+  }
+
+  // Pull a section header directly above the cluster into it
+  if (bestClusterStart > 0 && scores[bestClusterStart - 1].header) {
+    bestClusterStart--;
+  }
+
+  // Extend cluster forward: include short non-instruction lines until a clear instruction line
+  if (bestClusterStart >= 0 && bestClusterEnd < scores.length) {
+    let extended = bestClusterEnd;
+    for (let i = bestClusterEnd; i < scores.length; i++) {
+      const s = scores[i];
+      // Stop at clear instruction lines (long + cooking verbs)
+      if (s.ins >= 0.4) break;
+      // Include short lines that aren't clearly instructions
+      if (s.line.length < 60 && s.ins < 0.2) {
+        extended = i + 1;
+      } else {
+        break;
+      }
+    }
+    bestClusterEnd = extended;
+  }
+
+  // Extract title — prefer a decorated or all-caps-ish line early on
+  let titleIdx = 0;
+  for (let i = 0; i < Math.min(scores.length, 5); i++) {
+    const l = scores[i].line;
+    if (/[✨⭐🌟]/u.test(l) || (l.length > 3 && l === l.toUpperCase())) {
+      titleIdx = i;
+      break;
+    }
+  }
+  const title =
+    (scores[titleIdx]?.line ?? "Instagram Recipe")
+      .replace(/^[✨⭐🌟\s*]+|[✨⭐🌟\s*]+$/gu, "")
+      .trim() || "Instagram Recipe";
+
+  const descriptionLines: string[] = [];
+  const ingredients: string[] = [];
+  const instructions: string[] = [];
+
+  if (bestClusterStart >= 0) {
+    // Description: lines between title and ingredient cluster
+    const descEnd = bestClusterStart;
+    for (let i = titleIdx + 1; i < descEnd; i++) {
+      const l = scores[i].line;
+      if (!l.startsWith("#") && l.length > 2) {
+        descriptionLines.push(l);
+      }
+    }
+
+    // Ingredients: the cluster
+    for (let i = bestClusterStart; i < bestClusterEnd; i++) {
+      const line = scores[i].line.replace(/^[-•·◦▪⁃*]\s*/, "").trim();
+      if (line) ingredients.push(line);
+    }
+
+    // Instructions: lines after the ingredient cluster
+    for (let i = bestClusterEnd; i < scores.length; i++) {
+      const l = scores[i].line;
+      if (l.startsWith("#")) continue;
+      // Long lines → split into sentences
+      if (l.length > 100) {
+        instructions.push(...splitIntoSentences(l));
+      } else {
+        const cleaned = l.replace(/^(?:step\s*)?\d+[.):\s-]+/i, "").trim();
+        if (cleaned) instructions.push(cleaned);
+      }
+    }
+  } else {
+    // No ingredient cluster found — fall back to bullet/number detection + scoring
+    for (let i = titleIdx + 1; i < scores.length; i++) {
+      const l = scores[i].line;
+      if (l.startsWith("#")) continue;
+      if (/^[-•·◦▪⁃*]\s/.test(l)) {
+        ingredients.push(l.replace(/^[-•·◦▪⁃*]\s*/, "").trim());
+      } else if (/^\d+[.)]\s/.test(l)) {
+        instructions.push(l.replace(/^\d+[.)]\s*/, "").trim());
+      } else if (scores[i].ins > 0.3 && l.length > 60) {
+        instructions.push(...splitIntoSentences(l));
+      } else {
+        descriptionLines.push(l);
+      }
+    }
+  }
+
+  return {
+    title,
+    description: descriptionLines.filter(Boolean).join("\n") || undefined,
+    ...withSections(ingredients, instructions),
+    images: [],
+    servings,
+    ...times,
+    sourceUrl,
+  };
+}
@@ -0,0 +1,137 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  collectionRecipes,
+  collections,
+  recipeImages,
+  recipes,
+} from "../db/schema";
+import { isUuid, recipeVisibleTo } from "./auth/permissions";
+import { coverImageUrl } from "./recipe-list";
+
+export const MAX_COLLECTION_NAME = 100;
+export const MAX_COLLECTION_DESCRIPTION = 1000;
+
+export type CollectionSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  /** The uploaded cover, else the first recipe's image. */
+  coverUrl: string | null;
+  recipeCount: number;
+};
+
+/** A collection offered when adding a recipe, and whether it's already in. */
+export type CollectionChoice = { id: string; name: string; included: boolean };
+
+// `collections.id` of the outer query, see outerRecipeId in lib/search.ts
+const outerCollectionId = sql`${collections}.${sql.identifier("id")}`;
+
+const firstRecipeImage = sql<string | null>`(
+  select ${recipeImages.url} from ${collectionRecipes}
+  inner join ${recipeImages} on ${recipeImages.recipeId} = ${collectionRecipes.recipeId}
+  where ${collectionRecipes.collectionId} = ${outerCollectionId}
+  order by ${collectionRecipes.position}, ${recipeImages.orderIndex}
+  limit 1
+)`;
+
+const recipeCount = sql<number>`(
+  select count(*)::int from ${collectionRecipes}
+  where ${collectionRecipes.collectionId} = ${outerCollectionId}
+)`;
+
+/** The user's collections, by name. */
+export async function userCollections(
+  userId: string,
+): Promise<CollectionSummary[]> {
+  return db
+    .select({
+      id: collections.id,
+      name: collections.name,
+      description: collections.description,
+      coverUrl: sql<
+        string | null
+      >`coalesce(${collections.coverImageUrl}, ${firstRecipeImage})`,
+      recipeCount,
+    })
+    .from(collections)
+    .where(eq(collections.ownerId, userId))
+    .orderBy(asc(collections.name));
+}
+
+/** The collection, if it exists and belongs to `userId`. */
+export async function ownedCollection(collectionId: string, userId: string) {
+  if (!isUuid(collectionId)) return undefined;
+  return db.query.collections.findFirst({
+    where: and(
+      eq(collections.id, collectionId),
+      eq(collections.ownerId, userId),
+    ),
+  });
+}
+
+/** The user's collections, marking those the recipe is in. */
+export async function collectionChoices(
+  recipeId: string,
+  userId: string,
+): Promise<CollectionChoice[]> {
+  return db
+    .select({
+      id: collections.id,
+      name: collections.name,
+      included: sql<boolean>`exists (
+        select 1 from ${collectionRecipes}
+        where ${collectionRecipes.collectionId} = ${outerCollectionId}
+        and ${collectionRecipes.recipeId} = ${recipeId}
+      )`,
+    })
+    .from(collections)
+    .where(eq(collections.ownerId, userId))
+    .orderBy(asc(collections.name));
+}
+
+export type CollectionItem = {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  totalMinutes: number | null;
+};
+
+/**
+ * Recipes in the collection in their set order, leaving out any the user
+ * can no longer see.
+ */
+export async function collectionItems(
+  collectionId: string,
+  userId: string,
+): Promise<CollectionItem[]> {
+  return db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      imageUrl: coverImageUrl,
+      totalMinutes: recipes.totalMinutes,
+    })
+    .from(collectionRecipes)
+    .innerJoin(recipes, eq(recipes.id, collectionRecipes.recipeId))
+    .where(
+      and(
+        eq(collectionRecipes.collectionId, collectionId),
+        recipeVisibleTo({ id: userId }),
+      ),
+    )
+    .orderBy(asc(collectionRecipes.position));
+}
+
+/** Position after the last recipe in the collection. */
+export async function nextPosition(collectionId: string): Promise<number> {
+  const [row] = await db
+    .select({
+      next: sql<number>`coalesce(max(${collectionRecipes.position}) + 1, 0)::int`,
+    })
+    .from(collectionRecipes)
+    .where(eq(collectionRecipes.collectionId, collectionId));
+  return row.next;
+}
@@ -0,0 +1,72 @@
+/**
+ * How far a user has got cooking one recipe. Kept free of server imports
+ * so the recipe card can track it; lib/cooking-sessions.ts stores it.
+ */
+export type CookingProgress = {
+  /** Indexes of the ingredients ticked off. */
+  checkedIngredients: number[];
+  /** Indexes of the steps marked done. */
+  completedSteps: number[];
+  /** The step cook mode opens on. */
+  currentStep: number;
+  /** Portions chosen, or null for what the recipe makes. */
+  portions: number | null;
+};
+
+/** Stored progress; devices compare `updatedAt` to spot newer changes. */
+export type CookingSession = CookingProgress & { updatedAt: number };
+
+export const EMPTY_COOKING_PROGRESS: CookingProgress = {
+  checkedIngredients: [],
+  completedSteps: [],
+  currentStep: 0,
+  portions: null,
+};
+
+export function isEmptyProgress(progress: CookingProgress): boolean {
+  return (
+    progress.checkedIngredients.length === 0 &&
+    progress.completedSteps.length === 0 &&
+    progress.currentStep === 0 &&
+    progress.portions === null
+  );
+}
+
+// Matches the longest lists the editor accepts
+const MAX_INDEX = 200;
+const MAX_PORTIONS = 1000;
+
+function isIndex(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value < MAX_INDEX
+  );
+}
+
+function indexList(value: unknown): number[] | null {
+  if (!Array.isArray(value) || !value.every(isIndex)) return null;
+  return [...new Set(value)].sort((a, b) => a - b);
+}
+
+/** Check progress coming from the client, or null when it's malformed. */
+export function validateCookingProgress(
+  input: unknown,
+): CookingProgress | null {
+  if (!input || typeof input !== "object") return null;
+  const progress = input as Record<string, unknown>;
+  const checkedIngredients = indexList(progress.checkedIngredients);
+  const completedSteps = indexList(progress.completedSteps);
+  const { currentStep, portions } = progress;
+  if (!checkedIngredients || !completedSteps || !isIndex(currentStep)) {
+    return null;
+  }
+  if (
+    portions !== null &&
+    (typeof portions !== "number" || !(portions > 0) || portions > MAX_PORTIONS)
+  ) {
+    return null;
+  }
+  return { checkedIngredients, completedSteps, currentStep, portions };
+}
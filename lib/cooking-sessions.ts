@@ -0,0 +1,103 @@
+import { and, eq, gt, lte } from "drizzle-orm";
+import { db, type Executor } from "../db";
+import { cookingSessions } from "../db/schema";
+import type { CookingProgress, CookingSession } from "./cooking-progress";
+import { isEmptyProgress } from "./cooking-progress";
+
+// Long enough for slow braises and overnight rises, short enough that the
+// recipe opened again another day starts fresh
+const SESSION_HOURS = 18;
+
+/** The user's unexpired progress on the recipe, if any. */
+export async function cookingSession(
+  userId: string,
+  recipeId: string,
+): Promise<CookingSession | null> {
+  const row = await db.query.cookingSessions.findFirst({
+    where: and(
+      eq(cookingSessions.userId, userId),
+      eq(cookingSessions.recipeId, recipeId),
+      gt(cookingSessions.expiresAt, new Date()),
+    ),
+  });
+  if (!row) return null;
+  return {
+    checkedIngredients: row.checkedIngredients,
+    completedSteps: row.completedSteps,
+    currentStep: row.currentStep,
+    portions: row.portions,
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+/**
+ * Store the user's progress, pushing its expiry back. Progress back at the
+ * start ends the session. Returns the new `updatedAt`, or null once ended.
+ */
+export async function saveCookingSession(
+  userId: string,
+  recipeId: string,
+  progress: CookingProgress,
+): Promise<number | null> {
+  const now = new Date();
+  if (isEmptyProgress(progress)) {
+    await db
+      .delete(cookingSessions)
+      .where(
+        and(
+          eq(cookingSessions.userId, userId),
+          eq(cookingSessions.recipeId, recipeId),
+        ),
+      );
+    return null;
+  }
+
+  const values = {
+    ...progress,
+    updatedAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_HOURS * 60 * 60 * 1000),
+  };
+  await db
+    .insert(cookingSessions)
+    .values({ userId, recipeId, ...values })
+    .onConflictDoUpdate({
+      target: [cookingSessions.userId, cookingSessions.recipeId],
+      set: values,
+    });
+  return now.getTime();
+}
+
+/**
+ * Drop the user's expired sessions. Reads already skip them, so this only
+ * keeps the table small; run it after the response, not on every save.
+ */
+export async function deleteExpiredCookingSessions(
+  userId: string,
+): Promise<void> {
+  await db
+    .delete(cookingSessions)
+    .where(
+      and(
+        eq(cookingSessions.userId, userId),
+        lte(cookingSessions.expiresAt, new Date()),
+      ),
+    );
+}
+
+/** Carry the user's progress over to their new version of a recipe. */
+export async function moveCookingSession(
+  userId: string,
+  fromId: string,
+  toId: string,
+  tx: Executor,
+): Promise<void> {
+  await tx
+    .update(cookingSessions)
+    .set({ recipeId: toId })
+    .where(
+      and(
+        eq(cookingSessions.userId, userId),
+        eq(cookingSessions.recipeId, fromId),
+      ),
+    );
+}
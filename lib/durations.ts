@@ -0,0 +1,169 @@
+import type { RecipeData } from "./extractors/types";
+
+export type RecipeTimes = Pick<
+  RecipeData,
+  "prepMinutes" | "cookMinutes" | "restMinutes" | "totalMinutes"
+>;
+
+const ISO_DURATION_RE =
+  /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+// "1 hr 30 min", "1½ hours", "45 minutes", "1 timme", "90 min"
+const TEXT_PART_RE =
+  /(\d+(?:[.,]\d+)?\s?½?|½)\s*(d(?:ays?|agar?)?|h(?:ours?|rs?|r)?|tim(?:me|mar)?|m(?:in(?:ute)?s?|inuter)?)\b/gi;
+
+/**
+ * Duration in minutes from an ISO 8601 duration ("PT1H30M", as used by
+ * schema.org) or free text ("1 hr 30 min"). Null when nothing parses.
+ */
+export function parseDurationMinutes(value: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = ISO_DURATION_RE.exec(text);
+  if (iso) {
+    const [days, hours, minutes, seconds] = iso
+      .slice(1)
+      .map((part) => (part ? Number.parseFloat(part) : 0));
+    const total = days * 1440 + hours * 60 + minutes + seconds / 60;
+    return total > 0 ? Math.round(total) : null;
+  }
+
+  let total = 0;
+  let matched = false;
+  for (const match of text.matchAll(TEXT_PART_RE)) {
+    const amount = match[1].includes("½")
+      ? (Number.parseFloat(match[1]) || 0) + 0.5
+      : Number.parseFloat(match[1].replace(",", "."));
+    const unit = match[2].toLowerCase();
+    const factor = unit.startsWith("d")
+      ? 1440
+      : unit.startsWith("h") || unit.startsWith("tim")
+        ? 60
+        : 1;
+    total += amount * factor;
+    matched = true;
+  }
+  if (matched) return total > 0 ? Math.round(total) : null;
+
+  // A bare number is taken as minutes
+  return /^\d+$/.test(text) ? Number.parseInt(text, 10) || null : null;
+}
+
+export function formatMinutes(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days} d`);
+  if (hours > 0) parts.push(`${hours} hr`);
+  if (mins > 0 || parts.length === 0) parts.push(`${mins} min`);
+  return parts.join(" ");
+}
+
+/**
+ * The recipe's total time: the stated one if present, otherwise the sum of
+ * whatever parts are known.
+ */
+export function effectiveTotalMinutes(times: RecipeTimes): number | null {
+  if (times.totalMinutes) return times.totalMinutes;
+  const sum =
+    (times.prepMinutes ?? 0) +
+    (times.cookMinutes ?? 0) +
+    (times.restMinutes ?? 0);
+  return sum > 0 ? sum : null;
+}
+
+const TIME_LINE_RE =
+  /^(prep(?:aration)?|cook(?:ing)?|bak(?:e|ing)|total|rest(?:ing)?|marinat(?:e|ing)|chill(?:ing)?|förberedelse|tillagning|total\s*tid|vila)(?:\s*time|\s*tid)?\s*[:\-–]?\s*([\d½].{0,24})$/i;
+
+/**
+ * Recognise a labelled time line such as "Prep time: 10 min" or
+ * "Marinate: 2 hours". Returns which field it belongs to and the minutes.
+ */
+export function parseTimeLine(
+  line: string,
+): { field: keyof RecipeTimes; minutes: number } | null {
+  const m = TIME_LINE_RE.exec(line.replace(/^[-•·◦▪⁃*⏱⏲🕒🕐\s]+/u, "").trim());
+  // The value must be just a duration, not a step that mentions one
+  if (!m || /[.!?]\s+\S/.test(m[2])) return null;
+  const minutes = parseDurationMinutes(m[2]);
+  if (minutes === null) return null;
+
+  const label = m[1].toLowerCase();
+  const field: keyof RecipeTimes =
+    label.startsWith("prep") || label.startsWith("förb")
+      ? "prepMinutes"
+      : label.startsWith("cook") ||
+          label.startsWith("bak") ||
+          label.startsWith("tillag")
+        ? "cookMinutes"
+        : label.startsWith("rest") ||
+            label.startsWith("marin") ||
+            label.startsWith("chill") ||
+            label === "vila"
+          ? "restMinutes"
+          : "totalMinutes";
+  return { field, minutes };
+}
+
+const STEP_AMOUNT = String.raw`(\d+(?:[.,]\d+)?(?:\s?½)?|½)(?:\s*(?:-|–|to|till)\s*(?:\d+(?:[.,]\d+)?(?:\s?½)?|½))?`;
+// "20 minutes", "10–15 min", "1½ hours", "30 sec", "1 timme"
+const STEP_DURATION_RE = new RegExp(
+  String.raw`(?<![\w.,])${STEP_AMOUNT}\s*(hours?|hrs?|timm(?:e|ar)|minutes?|mins?|minuter|seconds?|secs?|sekunder)\b`,
+  "gi",
+);
+
+export type TextDuration = {
+  start: number;
+  end: number;
+  seconds: number;
+};
+
+function durationAmount(value: string): number {
+  return value.includes("½")
+    ? (Number.parseFloat(value) || 0) + 0.5
+    : Number.parseFloat(value.replace(",", "."));
+}
+
+/**
+ * Durations mentioned in an instruction, for turning into timers. Parts
+ * written together ("1 hour 15 minutes") are one duration, and a range
+ * ("10–15 minutes") starts from its lower bound so the cook can check.
+ */
+export function findDurations(text: string): TextDuration[] {
+  const found: TextDuration[] = [];
+  for (const match of text.matchAll(STEP_DURATION_RE)) {
+    const unit = match[2].toLowerCase();
+    const seconds =
+      durationAmount(match[1]) *
+      (unit.startsWith("h") || unit.startsWith("tim")
+        ? 3600
+        : unit.startsWith("s")
+          ? 1
+          : 60);
+    const start = match.index;
+    const end = start + match[0].length;
+    const previous = found[found.length - 1];
+    if (
+      previous &&
+      /^\s*(?:,|and|och)?\s*$/i.test(text.slice(previous.end, start))
+    ) {
+      previous.end = end;
+      previous.seconds += seconds;
+    } else if (seconds > 0) {
+      found.push({ start, end, seconds });
+    }
+  }
+  return found.map((d) => ({ ...d, seconds: Math.round(d.seconds) }));
+}
+
+/** "1:05:00", "12:30" */
+export function formatClock(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
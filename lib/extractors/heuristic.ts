@@ -0,0 +1,65 @@
+import type { CheerioAPI } from "cheerio";
+import * as cheerio from "cheerio";
+import { scoreRecipeCompleteness } from "./registry";
+import type { RecipeData, SourceExtractor } from "./types";
+
+function extractRecipeHeuristic($: CheerioAPI, url: string): RecipeData {
+  const ogTitle = $('meta[property="og:title"]').attr("content");
+  const h1 = $("h1").first().text().trim();
+  const title = ogTitle || h1 || new URL(url).hostname;
+
+  const description =
+    $('meta[property="og:description"]').attr("content") ||
+    $('meta[name="description"]').attr("content") ||
+    undefined;
+
+  const ogImage = $('meta[property="og:image"]').attr("content");
+  const images = ogImage ? [ogImage] : [];
+
+  // Try to find ingredient-like list items
+  const ingredientCandidates: string[] = [];
+  $(
+    '[class*="ingredient" i], [id*="ingredient" i], [aria-label*="ingredient" i]',
+  ).each((_, el) => {
+    $(el)
+      .find("li")
+      .each((_, li) => {
+        const text = $(li).text().trim();
+        if (text) ingredientCandidates.push(text);
+      });
+  });
+
+  // Try to find instruction-like list items
+  const instructionCandidates: string[] = [];
+  $(
+    '[class*="instruction" i], [id*="instruction" i], [class*="direction" i], [id*="direction" i], [class*="step" i]',
+  ).each((_, el) => {
+    $(el)
+      .find("li, p")
+      .each((_, item) => {
+        const text = $(item).text().trim();
+        if (text) instructionCandidates.push(text);
+      });
+  });
+
+  return {
+    title,
+    description,
+    ingredients: ingredientCandidates,
+    instructions: instructionCandidates,
+    images,
+    sourceUrl: url,
+  };
+}
+export const heuristicExtractor: SourceExtractor = {
+  name: "heuristic",
+  priority: 0,
+  match: () => true,
+  async extract(context) {
+    // Work on a copy so stripping noise doesn't affect other extractors
+    const $ = cheerio.load((await context.loadPage()).html());
+    $("script, style, nav, footer, noscript, iframe").remove();
+    const recipe = extractRecipeHeuristic($, context.url);
+    return { recipe, confidence: scoreRecipeCompleteness(recipe) };
+  },
+};
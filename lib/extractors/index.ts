@@ -0,0 +1,26 @@
+import { heuristicExtractor } from "./heuristic";
+import { instagramExtractor } from "./instagram";
+import { jsonLdExtractor } from "./jsonld";
+import { microdataExtractor } from "./microdata";
+import { registerExtractor } from "./registry";
+import { tiktokExtractor } from "./tiktok";
+import { youtubeExtractor } from "./youtube";
+
+// Site-specific extractors register here. Priority decides the order they
+// are tried in; see runExtractors for how a winner is picked.
+registerExtractor(instagramExtractor);
+registerExtractor(tiktokExtractor);
+registerExtractor(youtubeExtractor);
+registerExtractor(jsonLdExtractor);
+registerExtractor(microdataExtractor);
+registerExtractor(heuristicExtractor);
+
+export type { ExtractorFailure, ExtractorRun } from "./registry";
+export { registerExtractor, runExtractors } from "./registry";
+export type {
+  ExtractContext,
+  ExtractionResult,
+  RecipeData,
+  RecipeSection,
+  SourceExtractor,
+} from "./types";
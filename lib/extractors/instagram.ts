@@ -0,0 +1,28 @@
+import { parseInstagramCaption } from "../caption";
+import { isInstagramUrl } from "../instagram";
+import { postInternalApi } from "./internal-api";
+import { scoreRecipeCompleteness } from "./registry";
+import type { SourceExtractor } from "./types";
+
+export const instagramExtractor: SourceExtractor = {
+  name: "instagram",
+  priority: 100,
+  exclusive: true,
+  match: (url) => isInstagramUrl(url.href),
+  async extract(context) {
+    const data = await postInternalApi<
+      { caption: string; media: string[] } | { error: string }
+    >("/api/instagram", { url: context.url });
+
+    if ("error" in data) {
+      throw new Error(data.error);
+    }
+
+    const recipe = parseInstagramCaption(data.caption, context.url);
+    return {
+      recipe,
+      confidence: scoreRecipeCompleteness(recipe),
+      media: data.media.map((b64) => Buffer.from(b64, "base64")),
+    };
+  },
+};
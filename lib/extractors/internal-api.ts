@@ -0,0 +1,30 @@
+/**
+ * POST to one of this app's own API routes. Playwright-based scrapers run
+ * in route handlers rather than inside server actions, so extractors reach
+ * them over HTTP on the current host. The caller's cookies go along, so the
+ * route (and proxy.ts in front of it) sees the same signed-in user.
+ */
+export async function postInternalApi<T>(
+  path: string,
+  body: unknown,
+): Promise<T> {
+  const { headers: reqHeaders } = await import("next/headers");
+  const incoming = await reqHeaders();
+  const host = incoming.get("host") || "localhost:3000";
+  const protocol = host.startsWith("localhost") ? "http" : "https";
+  const cookie = incoming.get("cookie");
+  const res = await fetch(`${protocol}://${host}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: JSON.stringify(body),
+    // A redirect here is the sign-in page, not an answer
+    redirect: "manual",
+  });
+  if (!res.headers.get("content-type")?.includes("application/json")) {
+    throw new Error(`${path} answered ${res.status} without JSON.`);
+  }
+  return (await res.json()) as T;
+}
@@ -0,0 +1,147 @@
+import type { CheerioAPI } from "cheerio";
+import { parseDurationMinutes } from "../durations";
+import { splitSectionHeaders } from "../sections";
+import { scoreRecipeCompleteness } from "./registry";
+import type { RecipeData, RecipeSection, SourceExtractor } from "./types";
+
+/**
+ * Flatten recipeInstructions into steps. HowToSection groups become
+ * section markers instead of being merged into one step.
+ */
+function normalizeInstructions(
+  raw: unknown,
+  steps: string[] = [],
+  sections: RecipeSection[] = [],
+): { steps: string[]; sections: RecipeSection[] } {
+  if (!raw) return { steps, sections };
+  if (typeof raw === "string") {
+    if (raw.trim()) steps.push(raw.trim());
+    return { steps, sections };
+  }
+  for (const item of Array.isArray(raw) ? raw : [raw]) {
+    if (typeof item === "string") {
+      if (item.trim()) steps.push(item.trim());
+    } else if (typeof item === "object" && item !== null) {
+      const obj = item as Record<string, unknown>;
+      if (Array.isArray(obj.itemListElement)) {
+        const name = typeof obj.name === "string" ? obj.name.trim() : "";
+        if (name) sections.push({ name, start: steps.length });
+        normalizeInstructions(obj.itemListElement, steps, sections);
+      } else if (typeof obj.text === "string" && obj.text.trim()) {
+        steps.push(obj.text.trim());
+      } else if (typeof obj.name === "string" && obj.name.trim()) {
+        steps.push(obj.name.trim());
+      }
+    }
+  }
+  return { steps, sections };
+}
+
+function normalizeImages(raw: unknown): string[] {
+  if (!raw) return [];
+  if (typeof raw === "string") return [raw];
+  if (Array.isArray(raw)) {
+    return raw.flatMap((item) => {
+      if (typeof item === "string") return [item];
+      if (typeof item === "object" && item !== null) {
+        const obj = item as Record<string, unknown>;
+        if (typeof obj.url === "string") return [obj.url];
+      }
+      return [];
+    });
+  }
+  if (typeof raw === "object" && raw !== null) {
+    const obj = raw as Record<string, unknown>;
+    if (typeof obj.url === "string") return [obj.url];
+  }
+  return [];
+}
+
+export function extractRecipeFromJsonLd($: CheerioAPI): RecipeData | null {
+  const scripts = $('script[type="application/ld+json"]');
+  for (let i = 0; i < scripts.length; i++) {
+    const content = $(scripts[i]).html();
+    if (!content) continue;
+    try {
+      const parsed = JSON.parse(content);
+      const candidates: unknown[] = Array.isArray(parsed)
+        ? parsed
+        : parsed["@graph"]
+          ? parsed["@graph"]
+          : [parsed];
+
+      for (const candidate of candidates) {
+        if (typeof candidate !== "object" || candidate === null) continue;
+        const obj = candidate as Record<string, unknown>;
+        const type = obj["@type"];
+        const isRecipe =
+          type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"));
+        if (!isRecipe) continue;
+
+        const title = typeof obj.name === "string" ? obj.name.trim() : "";
+        if (!title) continue;
+
+        const description =
+          typeof obj.description === "string"
+            ? obj.description.trim()
+            : undefined;
+
+        // Some sites list group headings ("For the glaze:") as ingredients
+        const { items: ingredients, sections: ingredientSections } =
+          splitSectionHeaders(
+            Array.isArray(obj.recipeIngredient)
+              ? (obj.recipeIngredient as unknown[])
+                  .filter((x): x is string => typeof x === "string")
+                  .map((x) => x.trim())
+                  .filter(Boolean)
+              : [],
+          );
+
+        const { steps: instructions, sections: instructionSections } =
+          normalizeInstructions(obj.recipeInstructions);
+        const images = normalizeImages(obj.image);
+
+        const minutes = (value: unknown) =>
+          typeof value === "string"
+            ? (parseDurationMinutes(value) ?? undefined)
+            : undefined;
+
+        const servings =
+          typeof obj.recipeYield === "string"
+            ? obj.recipeYield
+            : Array.isArray(obj.recipeYield)
+              ? String(obj.recipeYield[0])
+              : undefined;
+
+        return {
+          title,
+          description,
+          ingredients,
+          instructions,
+          ingredientSections,
+          instructionSections,
+          images,
+          prepMinutes: minutes(obj.prepTime),
+          cookMinutes: minutes(obj.cookTime),
+          totalMinutes: minutes(obj.totalTime),
+          servings,
+          sourceUrl: "",
+        };
+      }
+    } catch {
+      // malformed JSON-LD, continue to next script tag
+    }
+  }
+  return null;
+}
+export const jsonLdExtractor: SourceExtractor = {
+  name: "json-ld",
+  priority: 50,
+  match: () => true,
+  async extract(context) {
+    const recipe = extractRecipeFromJsonLd(await context.loadPage());
+    if (!recipe) return null;
+    recipe.sourceUrl = context.url;
+    return { recipe, confidence: scoreRecipeCompleteness(recipe) };
+  },
+};
@@ -0,0 +1,247 @@
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { Element } from "domhandler";
+import { parseDurationMinutes } from "../durations";
+import { splitSectionHeaders } from "../sections";
+import { scoreRecipeCompleteness } from "./registry";
+import type { RecipeData, RecipeSection, SourceExtractor } from "./types";
+
+/**
+ * The two inline schema.org syntaxes differ only in attribute names:
+ * microdata scopes items with `itemscope`/`itemtype` and names properties
+ * with `itemprop`; RDFa uses `typeof` and `property` (optionally prefixed,
+ * e.g. `schema:name`).
+ */
+type Syntax = {
+  scope: string;
+  prop: string;
+  recipeSelector: string;
+};
+
+const MICRODATA: Syntax = {
+  scope: "itemscope",
+  prop: "itemprop",
+  recipeSelector: '[itemscope][itemtype*="schema.org/Recipe" i]',
+};
+
+const RDFA: Syntax = {
+  scope: "typeof",
+  prop: "property",
+  recipeSelector: '[typeof~="Recipe"], [typeof~="schema:Recipe"]',
+};
+
+function propNames(el: Cheerio<Element>, syntax: Syntax): string[] {
+  return (el.attr(syntax.prop) ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((name) => name.replace(/^(?:schema:|https?:\/\/schema\.org\/)/, ""));
+}
+
+function isScope(el: Cheerio<Element>, syntax: Syntax): boolean {
+  return el.attr(syntax.scope) !== undefined;
+}
+
+/**
+ * Properties of `root` itself, skipping those that belong to a nested item
+ * (e.g. an author's `name`).
+ */
+function itemProps(
+  $: CheerioAPI,
+  root: Cheerio<Element>,
+  syntax: Syntax,
+): Map<string, Cheerio<Element>[]> {
+  const props = new Map<string, Cheerio<Element>[]>();
+  const rootNode = root.get(0);
+
+  root.find(`[${syntax.prop}]`).each((_, node) => {
+    const el = $(node);
+    let owner = el.parent();
+    while (owner.length > 0 && owner.get(0) !== rootNode) {
+      if (isScope(owner, syntax)) return;
+      owner = owner.parent();
+    }
+    for (const name of propNames(el, syntax)) {
+      const list = props.get(name) ?? [];
+      list.push(el);
+      props.set(name, list);
+    }
+  });
+  return props;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Property value per the microdata spec, which RDFa parsers also follow. */
+function propValue(el: Cheerio<Element>, baseUrl: string): string {
+  const content = el.attr("content");
+  if (content !== undefined) return content.trim();
+
+  const tag = el.get(0)?.tagName?.toLowerCase();
+  const urlAttr =
+    tag === "img" || tag === "source" || tag === "video" || tag === "audio"
+      ? "src"
+      : tag === "a" || tag === "link" || tag === "area"
+        ? "href"
+        : null;
+  if (urlAttr) {
+    const raw = el.attr(urlAttr) ?? "";
+    try {
+      return new URL(raw, baseUrl).href;
+    } catch {
+      return raw;
+    }
+  }
+  if (tag === "time") return el.attr("datetime")?.trim() ?? el.text().trim();
+  if (tag === "data" || tag === "meter") return el.attr("value")?.trim() ?? "";
+  return normalizeText(el.text());
+}
+
+function firstValue(
+  props: Map<string, Cheerio<Element>[]>,
+  names: string[],
+  baseUrl: string,
+): string | undefined {
+  for (const name of names) {
+    const el = props.get(name)?.[0];
+    if (el) {
+      const value = propValue(el, baseUrl);
+      if (value) return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * recipeInstructions may be one block of markup holding a list, repeated
+ * plain-text properties, or nested HowToStep/HowToSection items. Named
+ * HowToSections become section markers.
+ */
+function extractInstructions(
+  $: CheerioAPI,
+  elements: Cheerio<Element>[],
+  syntax: Syntax,
+  baseUrl: string,
+  steps: string[] = [],
+  sections: RecipeSection[] = [],
+): { steps: string[]; sections: RecipeSection[] } {
+  for (const el of elements) {
+    if (isScope(el, syntax)) {
+      const nested = itemProps($, el, syntax);
+      const children = [
+        ...(nested.get("itemListElement") ?? []),
+        ...(nested.get("step") ?? []),
+      ];
+      if (children.length > 0) {
+        const name = firstValue(nested, ["name"], baseUrl);
+        if (name) sections.push({ name, start: steps.length });
+        extractInstructions($, children, syntax, baseUrl, steps, sections);
+        continue;
+      }
+      const text = firstValue(nested, ["text", "name"], baseUrl);
+      if (text) steps.push(text);
+      continue;
+    }
+
+    const items = el.find("li, p");
+    if (items.length > 0) {
+      items.each((_, item) => {
+        const text = normalizeText($(item).text());
+        if (text) steps.push(text);
+      });
+      continue;
+    }
+
+    const text = propValue(el, baseUrl);
+    if (text) steps.push(text);
+  }
+  return { steps, sections };
+}
+
+function extractImages(
+  $: CheerioAPI,
+  elements: Cheerio<Element>[],
+  syntax: Syntax,
+  baseUrl: string,
+): string[] {
+  const images: string[] = [];
+  for (const el of elements) {
+    const url = isScope(el, syntax)
+      ? firstValue(itemProps($, el, syntax), ["url", "contentUrl"], baseUrl)
+      : propValue(el, baseUrl);
+    if (url && !images.includes(url)) images.push(url);
+  }
+  return images;
+}
+
+function extractRecipe(
+  $: CheerioAPI,
+  syntax: Syntax,
+  baseUrl: string,
+): RecipeData | null {
+  const root = $<Element, string>(syntax.recipeSelector).first();
+  if (root.length === 0) return null;
+
+  const props = itemProps($, root, syntax);
+  const title = firstValue(props, ["name", "headline"], baseUrl);
+  if (!title) return null;
+
+  // "ingredients" is the pre-2013 name of recipeIngredient
+  const { items: ingredients, sections: ingredientSections } =
+    splitSectionHeaders(
+      [
+        ...(props.get("recipeIngredient") ?? []),
+        ...(props.get("ingredients") ?? []),
+      ]
+        .map((el) => propValue(el, baseUrl))
+        .filter(Boolean),
+    );
+  const { steps: instructions, sections: instructionSections } =
+    extractInstructions(
+      $,
+      props.get("recipeInstructions") ?? [],
+      syntax,
+      baseUrl,
+    );
+
+  const minutes = (name: string) => {
+    const value = firstValue(props, [name], baseUrl);
+    return value ? (parseDurationMinutes(value) ?? undefined) : undefined;
+  };
+
+  return {
+    title,
+    description: firstValue(props, ["description"], baseUrl),
+    ingredients,
+    instructions,
+    ingredientSections,
+    instructionSections,
+    images: extractImages($, props.get("image") ?? [], syntax, baseUrl),
+    prepMinutes: minutes("prepTime"),
+    cookMinutes: minutes("cookTime"),
+    totalMinutes: minutes("totalTime"),
+    servings: firstValue(props, ["recipeYield", "yield"], baseUrl),
+    sourceUrl: baseUrl,
+  };
+}
+
+export function extractRecipeFromMicrodata(
+  $: CheerioAPI,
+  url: string,
+): RecipeData | null {
+  return extractRecipe($, MICRODATA, url) ?? extractRecipe($, RDFA, url);
+}
+
+export const microdataExtractor: SourceExtractor = {
+  name: "microdata",
+  priority: 40,
+  match: () => true,
+  async extract(context) {
+    const recipe = extractRecipeFromMicrodata(
+      await context.loadPage(),
+      context.url,
+    );
+    if (!recipe) return null;
+    return { recipe, confidence: scoreRecipeCompleteness(recipe) };
+  },
+};
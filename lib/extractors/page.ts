@@ -0,0 +1,69 @@
+import type { CheerioAPI } from "cheerio";
+import * as cheerio from "cheerio";
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_BODY_SIZE = 2 * 1024 * 1024; // 2MB
+
+/**
+ * Fetch an HTML page with a browser-like user agent and parse it.
+ * Throws with a user-facing message when the page can't be used.
+ */
+export async function fetchPage(url: string): Promise<CheerioAPI> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  const response = await fetch(url, {
+    signal: controller.signal,
+    headers: {
+      "User-Agent":
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      "Accept-Language": "en-US,en;q=0.9",
+    },
+  });
+
+  clearTimeout(timeoutId);
+
+  if (!response.ok) {
+    throw new Error(
+      `Could not fetch URL: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (
+    !contentType.includes("text/html") &&
+    !contentType.includes("text/plain")
+  ) {
+    throw new Error("URL does not appear to be an HTML page.");
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("Could not read response body.");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let totalSize = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value) {
+      totalSize += value.length;
+      if (totalSize > MAX_BODY_SIZE) {
+        throw new Error("Page content is too large.");
+      }
+      chunks.push(value);
+    }
+  }
+
+  const decoder = new TextDecoder("utf-8", { fatal: false });
+  const fullBuffer = new Uint8Array(totalSize);
+  let offset = 0;
+  for (const chunk of chunks) {
+    fullBuffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return cheerio.load(decoder.decode(fullBuffer));
+}
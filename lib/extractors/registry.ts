@@ -0,0 +1,91 @@
+import type { CheerioAPI } from "cheerio";
+import { fetchPage } from "./page";
+import type {
+  ExtractContext,
+  ExtractionResult,
+  RecipeData,
+  SourceExtractor,
+} from "./types";
+
+// A result at or above this is taken as-is; below it, lower-priority
+// extractors still get a chance to do better.
+const ACCEPT_CONFIDENCE = 0.7;
+
+const extractors: SourceExtractor[] = [];
+
+export function registerExtractor(extractor: SourceExtractor): void {
+  if (extractors.some((e) => e.name === extractor.name)) {
+    throw new Error(`Extractor "${extractor.name}" is already registered.`);
+  }
+  extractors.push(extractor);
+  extractors.sort((a, b) => b.priority - a.priority);
+}
+
+export function scoreRecipeCompleteness(recipe: RecipeData): number {
+  let score = 0;
+  if (recipe.title.trim()) score += 0.1;
+  if (recipe.ingredients.length >= 2) score += 0.4;
+  else if (recipe.ingredients.length === 1) score += 0.2;
+  if (recipe.instructions.length > 0) score += 0.4;
+  if (recipe.images.length > 0) score += 0.1;
+  return Math.min(1, score);
+}
+
+function createContext(url: string): ExtractContext {
+  let page: Promise<CheerioAPI> | null = null;
+  return {
+    url,
+    loadPage() {
+      page ??= fetchPage(url);
+      return page;
+    },
+  };
+}
+
+/** An extractor that threw, recorded so the others still get their turn. */
+export type ExtractorFailure = { extractor: string; error: unknown };
+
+export type ExtractorRun = {
+  /** Name of the extractor whose result was used. */
+  extractor: string;
+  result: ExtractionResult;
+  /** Extractors that threw during the run. */
+  failures: ExtractorFailure[];
+};
+
+/**
+ * Try every extractor matching the URL in priority order and return the
+ * first confident result, or the best one seen if none is confident. An
+ * extractor that throws is skipped; when none produces anything, the first
+ * failure is rethrown so the caller can say why.
+ */
+export async function runExtractors(url: string): Promise<ExtractorRun | null> {
+  const parsed = new URL(url);
+  const context = createContext(url);
+  const failures: ExtractorFailure[] = [];
+  let best: ExtractorRun | null = null;
+
+  for (const extractor of extractors) {
+    if (!extractor.match(parsed)) continue;
+
+    let result: ExtractionResult | null;
+    try {
+      result = await extractor.extract(context);
+    } catch (error) {
+      failures.push({ extractor: extractor.name, error });
+      continue;
+    }
+    if (result && (!best || result.confidence > best.result.confidence)) {
+      best = { extractor: extractor.name, result, failures };
+    }
+    if (
+      extractor.exclusive ||
+      (best && best.result.confidence >= ACCEPT_CONFIDENCE)
+    ) {
+      break;
+    }
+  }
+
+  if (!best && failures.length > 0) throw failures[0].error;
+  return best;
+}
@@ -0,0 +1,31 @@
+import { parseInstagramCaption } from "../caption";
+import { isTikTokUrl } from "../tiktok";
+import { postInternalApi } from "./internal-api";
+import { scoreRecipeCompleteness } from "./registry";
+import type { SourceExtractor } from "./types";
+
+// TikTok captions follow the same conventions as Instagram ones (hashtags,
+// emoji, "Ingredients:" headers), so they share the caption parser.
+export const tiktokExtractor: SourceExtractor = {
+  name: "tiktok",
+  priority: 100,
+  exclusive: true,
+  match: (url) => isTikTokUrl(url.href),
+  async extract(context) {
+    const data = await postInternalApi<
+      { caption: string; imageBase64: string | null } | { error: string }
+    >("/api/tiktok", { url: context.url });
+
+    if ("error" in data) {
+      throw new Error(data.error);
+    }
+
+    const recipe = parseInstagramCaption(data.caption, context.url);
+    if (recipe.title === "Instagram Recipe") recipe.title = "TikTok Recipe";
+    return {
+      recipe,
+      confidence: scoreRecipeCompleteness(recipe),
+      media: data.imageBase64 ? [Buffer.from(data.imageBase64, "base64")] : [],
+    };
+  },
+};
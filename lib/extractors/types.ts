@@ -0,0 +1,66 @@
+import type { CheerioAPI } from "cheerio";
+import type { ParsedIngredient, StepIngredients } from "../ingredients";
+
+/**
+ * A named group within the ingredient or instruction list ("For the
+ * sauce"), starting at index `start` of the flat list. Items before the
+ * first section belong to no section.
+ */
+export type RecipeSection = { name: string; start: number };
+
+export type RecipeData = {
+  title: string;
+  description?: string;
+  ingredients: string[];
+  instructions: string[];
+  /**
+   * Structured form of each line in `ingredients`, same order. Set once the
+   * recipe has been saved; extractors leave it out.
+   */
+  parsedIngredients?: ParsedIngredient[];
+  /** Ingredients each step in `instructions` uses. Set once saved. */
+  stepIngredients?: StepIngredients[];
+  ingredientSections?: RecipeSection[];
+  instructionSections?: RecipeSection[];
+  images: string[];
+  /** Durations in minutes. */
+  prepMinutes?: number;
+  cookMinutes?: number;
+  /** Resting, marinating or chilling time. */
+  restMinutes?: number;
+  totalMinutes?: number;
+  servings?: string;
+  sourceUrl: string;
+  tags?: string[];
+};
+
+/**
+ * Per-request state handed to every extractor. The page is fetched lazily
+ * and at most once, so extractors that never look at the HTML (Instagram)
+ * don't pay for it and the ones that do share a single download.
+ */
+export interface ExtractContext {
+  url: string;
+  loadPage(): Promise<CheerioAPI>;
+}
+
+export interface ExtractionResult {
+  recipe: RecipeData;
+  /** 0–1 estimate of how complete the extracted recipe is. */
+  confidence: number;
+  /**
+   * Image bytes to upload to R2 once the recipe has been saved, in gallery
+   * order. When present they replace the URLs in `recipe.images`.
+   */
+  media?: Buffer[];
+}
+
+export interface SourceExtractor {
+  name: string;
+  /** Higher runs first. */
+  priority: number;
+  /** When an exclusive extractor matches, no later extractor is tried. */
+  exclusive?: boolean;
+  match(url: URL): boolean;
+  extract(context: ExtractContext): Promise<ExtractionResult | null>;
+}
@@ -0,0 +1,46 @@
+import {
+  getYouTubeVideoId,
+  isYouTubeUrl,
+  parseYouTubeWatchPage,
+  youtubeVideoToRecipe,
+} from "../youtube";
+import { scoreRecipeCompleteness } from "./registry";
+import type { SourceExtractor } from "./types";
+
+async function fetchThumbnail(url: string): Promise<Buffer | null> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    return Buffer.from(await res.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+export const youtubeExtractor: SourceExtractor = {
+  name: "youtube",
+  priority: 100,
+  exclusive: true,
+  match: (url) => isYouTubeUrl(url.href),
+  async extract(context) {
+    const videoId = getYouTubeVideoId(context.url);
+    if (!videoId) {
+      throw new Error("Invalid YouTube URL. Expected a video link.");
+    }
+
+    const video = parseYouTubeWatchPage(await context.loadPage(), videoId);
+    if (!video.title && !video.description) {
+      throw new Error("Could not extract video details from YouTube.");
+    }
+
+    const recipe = youtubeVideoToRecipe(video, context.url);
+    const thumbnail = video.thumbnailUrl
+      ? await fetchThumbnail(video.thumbnailUrl)
+      : null;
+    return {
+      recipe,
+      confidence: scoreRecipeCompleteness(recipe),
+      media: thumbnail ? [thumbnail] : [],
+    };
+  },
+};
@@ -0,0 +1,224 @@
+import { and, eq } from "drizzle-orm";
+import { db, type Executor } from "../db";
+import {
+  ingredients,
+  instructions,
+  recipeImages,
+  recipes,
+  userRecipes,
+} from "../db/schema";
+import { canViewRecipe } from "./auth/permissions";
+import { moveCookingSession } from "./cooking-sessions";
+import { recordRevision } from "./revisions";
+import { refreshSearchVector } from "./search";
+
+/**
+ * How the recipe being viewed relates to the viewer's own copy, if any:
+ * either it is their variant of a shared recipe, or it is a shared recipe
+ * they have a variant of.
+ */
+export type RecipeVersion =
+  | { kind: "fork"; originalId: string; upstreamChanged: boolean }
+  | { kind: "original"; forkId: string };
+
+/** The user's variant of `originalId`, if they have made one. */
+export async function findUserFork(
+  originalId: string,
+  userId: string,
+): Promise<string | null> {
+  const fork = await db.query.recipes.findFirst({
+    columns: { id: true },
+    where: and(
+      eq(recipes.forkedFromId, originalId),
+      eq(recipes.createdById, userId),
+    ),
+  });
+  return fork?.id ?? null;
+}
+
+/**
+ * The recipe a variant was made from, unless it is gone or `user` may no
+ * longer see it (its creator made it private, or took it out of the
+ * household they shared).
+ */
+export async function visibleOriginal(
+  originalId: string,
+  user: { id: string },
+  database: Executor = db,
+) {
+  const original = await database.query.recipes.findFirst({
+    where: eq(recipes.id, originalId),
+  });
+  return original && (await canViewRecipe(original, user))
+    ? original
+    : undefined;
+}
+
+export async function recipeVersion(
+  recipe: {
+    id: string;
+    forkedFromId: string | null;
+    createdById: string | null;
+    upstreamSyncedAt: Date | null;
+  },
+  userId: string | undefined,
+): Promise<RecipeVersion | null> {
+  if (!userId) return null;
+  if (recipe.forkedFromId) {
+    if (recipe.createdById !== userId) return null;
+    const original = await visibleOriginal(recipe.forkedFromId, {
+      id: userId,
+    });
+    return {
+      kind: "fork",
+      originalId: recipe.forkedFromId,
+      upstreamChanged:
+        !!original &&
+        (!recipe.upstreamSyncedAt ||
+          original.updatedAt > recipe.upstreamSyncedAt),
+    };
+  }
+  const forkId = await findUserFork(recipe.id, userId);
+  return forkId ? { kind: "original", forkId } : null;
+}
+
+/**
+ * Replace the images, ingredients and instructions of `toId` with copies of
+ * those of `fromId`.
+ */
+async function copyRecipeContent(
+  fromId: string,
+  toId: string,
+  tx: Executor,
+): Promise<void> {
+  const source = await tx.query.recipes.findFirst({
+    where: eq(recipes.id, fromId),
+    with: { images: true, ingredients: true, instructions: true },
+  });
+  if (!source) return;
+
+  await tx.delete(recipeImages).where(eq(recipeImages.recipeId, toId));
+  await tx.delete(ingredients).where(eq(ingredients.recipeId, toId));
+  await tx.delete(instructions).where(eq(instructions.recipeId, toId));
+
+  if (source.images.length > 0) {
+    await tx
+      .insert(recipeImages)
+      .values(
+        source.images.map(({ id: _, ...row }) => ({ ...row, recipeId: toId })),
+      );
+  }
+  if (source.ingredients.length > 0) {
+    await tx.insert(ingredients).values(
+      source.ingredients.map(({ id: _, ...row }) => ({
+        ...row,
+        recipeId: toId,
+      })),
+    );
+  }
+  if (source.instructions.length > 0) {
+    await tx.insert(instructions).values(
+      source.instructions.map(({ id: _, ...row }) => ({
+        ...row,
+        recipeId: toId,
+      })),
+    );
+  }
+}
+
+/**
+ * Make a personal variant of a shared recipe for `userId`, or return the
+ * one they already have. The user's saved link moves to the variant so
+ * their recipe box shows their version, and so does any cooking progress.
+ */
+export async function forkRecipe(
+  originalId: string,
+  userId: string,
+  createdBy: string | null,
+): Promise<string> {
+  const existing = await findUserFork(originalId, userId);
+  if (existing) return existing;
+
+  const original = await db.query.recipes.findFirst({
+    where: eq(recipes.id, originalId),
+  });
+  if (!original) throw new Error("Recipe not found");
+
+  const { id: _, searchVector: __, createdAt: ___, ...fields } = original;
+  return db.transaction(async (tx) => {
+    const [fork] = await tx
+      .insert(recipes)
+      .values({
+        ...fields,
+        createdBy,
+        createdById: userId,
+        forkedFromId: original.id,
+        upstreamSyncedAt: original.updatedAt,
+        visibility: "private",
+        updatedAt: new Date(),
+      })
+      .returning({ id: recipes.id });
+
+    await copyRecipeContent(original.id, fork.id, tx);
+    await refreshSearchVector(fork.id, tx);
+    await recordRevision(
+      fork.id,
+      { id: userId, name: createdBy },
+      "Copied from the original",
+      tx,
+    );
+
+    await tx
+      .delete(userRecipes)
+      .where(
+        and(
+          eq(userRecipes.userId, userId),
+          eq(userRecipes.recipeId, original.id),
+        ),
+      );
+    await tx
+      .insert(userRecipes)
+      .values({ userId, recipeId: fork.id })
+      .onConflictDoNothing();
+    await moveCookingSession(userId, original.id, fork.id, tx);
+
+    return fork.id;
+  });
+}
+
+/**
+ * Replace a variant's content with the current original. Tags are kept as
+ * a union so the user's own tags survive. Nothing is copied from an
+ * original `user` can no longer see. Run it in a transaction.
+ */
+export async function pullUpstream(
+  forkId: string,
+  user: { id: string },
+  tx: Executor,
+): Promise<void> {
+  const fork = await tx.query.recipes.findFirst({
+    where: eq(recipes.id, forkId),
+  });
+  if (!fork?.forkedFromId) throw new Error("Not a personal version");
+  const original = await visibleOriginal(fork.forkedFromId, user, tx);
+  if (!original) throw new Error("The original recipe no longer exists");
+
+  await tx
+    .update(recipes)
+    .set({
+      title: original.title,
+      description: original.description,
+      servings: original.servings,
+      prepMinutes: original.prepMinutes,
+      cookMinutes: original.cookMinutes,
+      restMinutes: original.restMinutes,
+      totalMinutes: original.totalMinutes,
+      tags: [...new Set([...fork.tags, ...original.tags])],
+      upstreamSyncedAt: original.updatedAt,
+      updatedAt: new Date(),
+    })
+    .where(eq(recipes.id, fork.id));
+
+  await copyRecipeContent(original.id, fork.id, tx);
+  await refreshSearchVector(fork.id, tx);
+}
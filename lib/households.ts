@@ -0,0 +1,166 @@
+import { randomBytes } from "node:crypto";
+import { and, asc, eq, gt } from "drizzle-orm";
+import { db } from "../db";
+import {
+  householdInvites,
+  householdMembers,
+  householdRecipes,
+  households,
+  recipes,
+} from "../db/schema";
+import { isAdmin, isUuid } from "./auth/permissions";
+import type { RecipeVisibility } from "./visibility";
+
+export type HouseholdRole = (typeof householdMembers.$inferSelect)["role"];
+
+export type UserHousehold = { id: string; name: string; role: HouseholdRole };
+
+export const MAX_HOUSEHOLD_NAME = 100;
+const INVITE_DAYS = 14;
+
+/** Households `userId` belongs to, by name. */
+export async function userHouseholds(userId: string): Promise<UserHousehold[]> {
+  return db
+    .select({
+      id: households.id,
+      name: households.name,
+      role: householdMembers.role,
+    })
+    .from(householdMembers)
+    .innerJoin(households, eq(households.id, householdMembers.householdId))
+    .where(eq(householdMembers.userId, userId))
+    .orderBy(asc(households.name));
+}
+
+/** The user's role in the household, or null when they aren't a member. */
+export async function householdRole(
+  householdId: string,
+  userId: string,
+): Promise<HouseholdRole | null> {
+  if (!isUuid(householdId)) return null;
+  const member = await db.query.householdMembers.findFirst({
+    columns: { role: true },
+    where: and(
+      eq(householdMembers.householdId, householdId),
+      eq(householdMembers.userId, userId),
+    ),
+  });
+  return member?.role ?? null;
+}
+
+export async function createInvite(
+  householdId: string,
+  invitedById: string,
+  email: string | null,
+): Promise<string> {
+  const token = randomBytes(24).toString("base64url");
+  await db.insert(householdInvites).values({
+    householdId,
+    token,
+    email: email?.toLowerCase() ?? null,
+    invitedById,
+    expiresAt: new Date(Date.now() + INVITE_DAYS * 24 * 60 * 60 * 1000),
+  });
+  return token;
+}
+
+/** An unexpired invite and the household it is for. */
+export async function findInvite(token: string) {
+  return db.query.householdInvites.findFirst({
+    where: and(
+      eq(householdInvites.token, token),
+      gt(householdInvites.expiresAt, new Date()),
+    ),
+    with: { household: { columns: { id: true, name: true } } },
+  });
+}
+
+/** Unexpired invites addressed to `email`, for showing after sign-in. */
+export async function invitesForEmail(email: string) {
+  return db.query.householdInvites.findMany({
+    where: and(
+      eq(householdInvites.email, email.toLowerCase()),
+      gt(householdInvites.expiresAt, new Date()),
+    ),
+    with: { household: { columns: { id: true, name: true } } },
+  });
+}
+
+/**
+ * Whether `user` may put the recipe in the household's box. Every member of
+ * a household sees what is in its box (see recipeVisibleTo), so a recipe
+ * that isn't public goes in only by whoever added it or an admin, or when
+ * it is a household recipe whose creator belongs to that household anyway.
+ * Otherwise a member of two households could pass one's recipes to the other.
+ */
+export async function mayAddToHousehold(
+  householdId: string,
+  recipe: { visibility: RecipeVisibility; createdById: string | null },
+  user: { id: string },
+): Promise<boolean> {
+  if (recipe.visibility === "public") return true;
+  if (isAdmin(user) || recipe.createdById === user.id) return true;
+  return (
+    recipe.visibility === "household" &&
+    recipe.createdById !== null &&
+    (await householdRole(householdId, recipe.createdById)) !== null
+  );
+}
+
+/**
+ * Put a recipe in the household's box (see mayAddToHousehold). A recipe only its creator can see
+ * would be invisible there, so saving your own private recipe to the
+ * household shares it with the household.
+ */
+export async function addToHousehold(
+  householdId: string,
+  recipeId: string,
+  userId: string,
+): Promise<void> {
+  await db
+    .insert(householdRecipes)
+    .values({ householdId, recipeId, addedById: userId })
+    .onConflictDoNothing();
+  await db
+    .update(recipes)
+    .set({ visibility: "household" })
+    .where(
+      and(
+        eq(recipes.id, recipeId),
+        eq(recipes.createdById, userId),
+        eq(recipes.visibility, "private"),
+      ),
+    );
+}
+
+export async function ownerCount(householdId: string): Promise<number> {
+  const owners = await db.query.householdMembers.findMany({
+    columns: { userId: true },
+    where: and(
+      eq(householdMembers.householdId, householdId),
+      eq(householdMembers.role, "owner"),
+    ),
+  });
+  return owners.length;
+}
+
+/** Which of the user's households have the recipe in their box. */
+export async function householdsWithRecipe(
+  recipeId: string,
+  userId: string,
+): Promise<string[]> {
+  const rows = await db
+    .select({ householdId: householdRecipes.householdId })
+    .from(householdRecipes)
+    .innerJoin(
+      householdMembers,
+      eq(householdMembers.householdId, householdRecipes.householdId),
+    )
+    .where(
+      and(
+        eq(householdRecipes.recipeId, recipeId),
+        eq(householdMembers.userId, userId),
+      ),
+    );
+  return rows.map((r) => r.householdId);
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+// Longer than any real post link; anything bigger isn't worth parsing
+const MAX_URL_LENGTH = 2048;
+
+export type ImportRouteOptions = {
+  /** Shown in errors: "Not a TikTok URL." */
+  source: string;
+  isSourceUrl: (url: string) => boolean;
+  /** Fetch the post; what it returns is sent back as JSON. */
+  extract: (url: string) => Promise<unknown>;
+};
+
+function badRequest(error: string): NextResponse {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+/**
+ * POST handler shared by the social import APIs. Takes `{ "url": … }`;
+ * malformed input is a 400 and a failed extraction a 500 with its message.
+ */
+export function importRouteHandler({
+  source,
+  isSourceUrl,
+  extract,
+}: ImportRouteOptions): (request: Request) => Promise<NextResponse> {
+  return async (request) => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Request body must be JSON.");
+    }
+    const raw =
+      typeof body === "object" && body !== null
+        ? (body as Record<string, unknown>).url
+        : undefined;
+    const url = typeof raw === "string" ? raw.trim() : "";
+
+    if (!url) return badRequest("Missing url.");
+    if (url.length > MAX_URL_LENGTH || !isSourceUrl(url)) {
+      return badRequest(`Not a ${source} URL.`);
+    }
+
+    try {
+      return NextResponse.json(await extract(url));
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to extract post.";
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  };
+}
@@ -0,0 +1,546 @@
+/**
+ * An ingredient line split into its parts. `text` is the line as written
+ * and is what gets displayed when no scaling is applied.
+ */
+export type ParsedIngredient = {
+  text: string;
+  quantityMin: number | null;
+  /** Upper bound for ranges ("2–3 cloves"), otherwise equal to quantityMin. */
+  quantityMax: number | null;
+  unit: string | null;
+  name: string;
+  note: string | null;
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅕": 1 / 5,
+  "⅖": 2 / 5,
+  "⅗": 3 / 5,
+  "⅘": 4 / 5,
+  "⅙": 1 / 6,
+  "⅚": 5 / 6,
+  "⅛": 1 / 8,
+  "⅜": 3 / 8,
+  "⅝": 5 / 8,
+  "⅞": 7 / 8,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join("");
+
+// "1 1/2", "1½", "1/2", "1.5", "1,5", "½"
+export const NUMBER_SRC = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?\\s?[${FRACTION_CHARS}]?|[${FRACTION_CHARS}])`;
+const QUANTITY_RE = new RegExp(
+  `^(${NUMBER_SRC})(?:\\s*(?:-|–|—|to|till|or|eller)\\s*(${NUMBER_SRC}))?`,
+  "i",
+);
+const ARTICLE_RE = /^(?:a|an|one|en|ett)\s+(?=\S)/i;
+// "a few sprigs", "a pinch of salt", "en nypa salt": after an article these
+// are no count, so such lines are left as written rather than scaled
+const VAGUE_AMOUNT_RE =
+  /^(?:few|couple|handfuls?|pinch(?:es)?|dash(?:es)?|splash|drizzle|knob|little|bit|touch|squeeze|sprinkle|nypa|skvätt|näve)(?![\p{L}])/iu;
+
+/** Spelling variants mapped to the unit name we store. */
+const UNIT_ALIASES: Record<string, string[]> = {
+  // Metric
+  mg: ["mg", "milligram", "milligrams"],
+  g: ["g", "gr", "gram", "grams", "gramme", "grammes"],
+  kg: ["kg", "kilo", "kilos", "kilogram", "kilograms"],
+  ml: ["ml", "milliliter", "milliliters", "millilitre", "millilitres"],
+  cl: ["cl", "centiliter", "centiliters"],
+  dl: ["dl", "deciliter", "deciliters"],
+  l: ["l", "liter", "liters", "litre", "litres"],
+  // Swedish spoon measures
+  msk: ["msk", "matsked", "matskedar"],
+  tsk: ["tsk", "tesked", "teskedar"],
+  krm: ["krm", "kryddmått"],
+  // US / imperial
+  tsp: ["tsp", "tsps", "teaspoon", "teaspoons"],
+  tbsp: ["tbsp", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons"],
+  cup: ["cup", "cups", "c"],
+  "fl oz": ["fl oz", "fl. oz", "fl.oz", "fluid ounce", "fluid ounces"],
+  oz: ["oz", "ounce", "ounces"],
+  lb: ["lb", "lbs", "pound", "pounds"],
+  pint: ["pint", "pints", "pt"],
+  quart: ["quart", "quarts", "qt"],
+  gallon: ["gallon", "gallons"],
+  // Counts and containers
+  st: ["st", "styck", "stycken"],
+  piece: ["piece", "pieces", "pc", "pcs"],
+  clove: ["clove", "cloves", "klyfta", "klyftor"],
+  can: ["can", "cans", "tin", "tins", "burk", "burkar"],
+  package: ["package", "packages", "pkg", "packet", "packets", "paket"],
+  stick: ["stick", "sticks"],
+  pinch: ["pinch", "pinches", "nypa"],
+  dash: ["dash", "dashes"],
+  bunch: ["bunch", "bunches", "knippe"],
+  head: ["head", "heads"],
+  slice: ["slice", "slices", "skiva", "skivor"],
+  sprig: ["sprig", "sprigs", "kvist", "kvistar"],
+  handful: ["handful", "handfuls"],
+};
+
+const UNIT_LOOKUP = new Map<string, string>();
+for (const [unit, aliases] of Object.entries(UNIT_ALIASES)) {
+  for (const alias of aliases) UNIT_LOOKUP.set(alias, unit);
+}
+
+// Longest first so "fl oz" wins over "fl" and "tbsp" over "tb"
+export const UNIT_SRC = [...UNIT_LOOKUP.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map((u) => u.replace(/[.]/g, "\\.").replace(/\s/g, "\\s*"))
+  .join("|");
+const UNIT_RE = new RegExp(`^(${UNIT_SRC})\\.?(?=[\\s,(]|$)`, "i");
+
+// "a 400 g can", "2 x 400 g cans": the size of each container
+const CONTAINER_SIZE_RE = new RegExp(
+  `^(?:[x×]\\s*)?(${NUMBER_SRC}\\s*(?:${UNIT_SRC})\\.?)\\s+(?=(?:${[
+    ...UNIT_ALIASES.can,
+    ...UNIT_ALIASES.package,
+  ].join("|")})\\b)`,
+  "i",
+);
+
+/** The unit name we store for a spelling ("Tablespoons" → "tbsp"). */
+export function normalizeUnit(spelling: string): string | null {
+  return UNIT_LOOKUP.get(spelling.toLowerCase().replace(/\s+/g, " ")) ?? null;
+}
+
+export function parseQuantity(token: string): number | null {
+  const value = token.trim().replace(/\s+/g, " ");
+  if (!value) return null;
+
+  const unicode = value.match(new RegExp(`^(\\d*)\\s?([${FRACTION_CHARS}])$`));
+  if (unicode) {
+    return (
+      (unicode[1] ? Number.parseInt(unicode[1], 10) : 0) +
+      UNICODE_FRACTIONS[unicode[2]]
+    );
+  }
+  const mixed = value.match(/^(\d+) (\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number.parseInt(mixed[3], 10);
+    if (denominator === 0) return null;
+    return (
+      Number.parseInt(mixed[1], 10) +
+      Number.parseInt(mixed[2], 10) / denominator
+    );
+  }
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number.parseInt(fraction[2], 10);
+    if (denominator === 0) return null;
+    return Number.parseInt(fraction[1], 10) / denominator;
+  }
+  const decimal = Number.parseFloat(value.replace(",", "."));
+  return Number.isFinite(decimal) ? decimal : null;
+}
+
+type LeadingQuantity = {
+  min: number;
+  max: number;
+  unit: string | null;
+  /** Container size, e.g. "400 g" in "2 x 400 g cans". */
+  size: string | null;
+  rest: string;
+};
+
+function parseLeadingQuantity(input: string): LeadingQuantity | null {
+  let text = input;
+  let min: number | null = null;
+  let max: number | null = null;
+
+  const match = QUANTITY_RE.exec(text);
+  if (match) {
+    min = parseQuantity(match[1]);
+    max = match[2] ? parseQuantity(match[2]) : min;
+    text = text.slice(match[0].length);
+  } else {
+    const article = ARTICLE_RE.exec(text);
+    // "an onion" is counted, "a few onions" isn't
+    if (!article || VAGUE_AMOUNT_RE.test(text.slice(article[0].length))) {
+      return null;
+    }
+    min = 1;
+    max = 1;
+    text = text.slice(article[0].length);
+  }
+  if (min === null || max === null) return null;
+
+  text = text.trimStart();
+  const sized = CONTAINER_SIZE_RE.exec(text);
+  if (sized) text = text.slice(sized[0].length);
+  let unit: string | null = null;
+  const unitMatch = UNIT_RE.exec(text);
+  if (unitMatch) {
+    unit = normalizeUnit(unitMatch[1]);
+    text = text.slice(unitMatch[0].length).trimStart();
+  }
+  // "2 cups of flour"
+  text = text.replace(/^of\s+/i, "");
+
+  return {
+    min,
+    max: Math.max(min, max),
+    unit,
+    size: sized?.[1] ?? null,
+    rest: text,
+  };
+}
+
+/**
+ * Split an ingredient line into quantity, unit, name and note. Handles
+ * mixed, decimal and unicode fractions, ranges ("2-3", "2 to 3"), metric,
+ * imperial and Swedish units, parenthetical asides and trailing notes
+ * (", finely chopped"). Lines without a quantity ("Salt, to taste") keep
+ * the whole first clause as the name.
+ */
+export function parseIngredientLine(line: string): ParsedIngredient {
+  const text = line.trim();
+  const working = text
+    .replace(/^[-•·◦▪⁃*]\s*/, "")
+    .replace(/⁄/g, "/")
+    .trim();
+
+  const notes: string[] = [];
+
+  // Parenthetical asides: "1 (14 oz) can chickpeas", "butter (softened)"
+  const withoutParens = working
+    .replace(/\s*\(([^)]*)\)/g, (_, inner: string) => {
+      if (inner.trim()) notes.push(inner.trim());
+      return "";
+    })
+    .trim();
+
+  // Not a decimal comma ("1,5 kg")
+  const commaAt = withoutParens.search(/,(?!\d)/);
+  let head =
+    commaAt >= 0 ? withoutParens.slice(0, commaAt).trim() : withoutParens;
+  let tail = commaAt >= 0 ? withoutParens.slice(commaAt + 1).trim() : "";
+
+  let quantity = parseLeadingQuantity(head);
+  // "Salt, 1 tsp": quantity after the comma
+  if (!quantity && tail) {
+    const trailing = parseLeadingQuantity(tail);
+    if (trailing && !trailing.rest.includes(",")) {
+      quantity = { ...trailing, rest: head };
+      head = trailing.rest ? `${head} ${trailing.rest}` : head;
+      tail = "";
+    }
+  }
+
+  if (quantity?.size) notes.unshift(quantity.size);
+  if (tail) notes.push(tail);
+  const name = (quantity ? quantity.rest : head).trim() || head || text;
+
+  return {
+    text,
+    quantityMin: quantity?.min ?? null,
+    quantityMax: quantity?.max ?? null,
+    unit: quantity?.unit ?? null,
+    name,
+    note: notes.length > 0 ? notes.join(", ") : null,
+  };
+}
+
+/** Format a number using unicode fractions where close enough ("1½"). */
+export function formatQuantityValue(value: number): string {
+  const fractions: [number, string][] = [
+    [1 / 8, "⅛"],
+    [1 / 4, "¼"],
+    [1 / 3, "⅓"],
+    [3 / 8, "⅜"],
+    [1 / 2, "½"],
+    [5 / 8, "⅝"],
+    [2 / 3, "⅔"],
+    [3 / 4, "¾"],
+    [7 / 8, "⅞"],
+  ];
+  const whole = Math.floor(value);
+  const decimal = value - whole;
+  if (decimal < 0.05) return whole === 0 ? "0" : String(whole);
+  if (decimal > 0.95) return String(whole + 1);
+  for (const [frac, symbol] of fractions) {
+    if (Math.abs(decimal - frac) < 0.06) {
+      return whole > 0 ? `${whole}${symbol}` : symbol;
+    }
+  }
+  return value.toFixed(1).replace(/\.0$/, "");
+}
+
+export function formatQuantity(min: number, max: number | null): string {
+  return max !== null && max !== min
+    ? `${formatQuantityValue(min)}–${formatQuantityValue(max)}`
+    : formatQuantityValue(min);
+}
+
+/** Quantity and unit as displayed, e.g. "1½ cups". */
+export type AmountFormatter = (
+  min: number,
+  max: number | null,
+  unit: string | null,
+) => string;
+
+// Units whose plural is spelled out; abbreviations read the same either way
+const UNIT_PLURALS = new Map<string, string>();
+const UNIT_SINGULARS = new Map<string, string>();
+for (const aliases of Object.values(UNIT_ALIASES)) {
+  for (const alias of aliases) {
+    if (["tsp", "tbsp", "tbs", "lb", "pc"].includes(alias)) continue;
+    const plural = aliases.find((a) => a === `${alias}s` || a === `${alias}es`);
+    if (!plural) continue;
+    UNIT_PLURALS.set(alias, plural);
+    UNIT_SINGULARS.set(plural, alias);
+  }
+}
+
+/** A unit spelled for the amount in front of it: "1 cup", "2 cups". */
+export function unitLabel(unit: string, amount: number): string {
+  const lower = unit.toLowerCase();
+  const label =
+    amount > 1 ? UNIT_PLURALS.get(lower) : UNIT_SINGULARS.get(lower);
+  if (!label) return unit;
+  return unit[0] === lower[0] ? label : label[0].toUpperCase() + label.slice(1);
+}
+
+const formatAmount: AmountFormatter = (min, max, unit) =>
+  [formatQuantity(min, max), unit && unitLabel(unit, max ?? min)]
+    .filter(Boolean)
+    .join(" ");
+
+export function formatParts(
+  ingredient: ParsedIngredient,
+  min: number,
+  max: number | null,
+  note: string | null,
+  format: AmountFormatter = formatAmount,
+): string {
+  const main = [format(min, max, ingredient.unit), ingredient.name]
+    .filter(Boolean)
+    .join(" ");
+  return note ? `${main}, ${note}` : main;
+}
+
+// An amount that isn't part of a size, temperature, percentage or a range
+// that continues into one ("350-375°F", "9x13", "2 cm")
+const AMOUNT_RE = new RegExp(
+  `(?<![\\w.,/×])(${NUMBER_SRC})(?:\\s*(?:-|–|—|to|till)\\s*(${NUMBER_SRC}))?(?!\\d|/|\\s*[-–]\\s*\\d|\\s*[x×]\\s*\\d|\\s*[°º%]|-?\\s*(?:inch|in\\b|cm\\b|mm\\b|"))`,
+  "gi",
+);
+// "1 (14 oz) can": the unit may follow an aside
+const UNIT_AFTER_RE = new RegExp(
+  `^(\\s*(?:\\([^)]*\\)\\s*)?)(${UNIT_SRC})(?!\\p{L})`,
+  "iu",
+);
+const WORDS_AFTER_RE = /^\s*(\p{L}+)(?:\s+(\p{L}+))?/u;
+
+// Counted by the cook rather than the recipe: "cut into 8 slices"
+const CUT_UNITS = new Set(["piece", "slice", "st"]);
+const STOPWORDS = new Set(
+  "and the for with fresh large small medium chopped sliced diced minced finely plus about into whole extra virgin ground optional more taste divided purpose room temperature softened melted".split(
+    " ",
+  ),
+);
+
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+  return lower.length > 3 ? lower.replace(/(?:es|s)$/, "") : lower;
+}
+
+/** The words of an ingredient name that identify it, stemmed. */
+function nameWords(name: string): string[] {
+  return name
+    .split(/[^\p{L}]+/u)
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w.toLowerCase()))
+    .map(stem);
+}
+
+type Amount = { min: number; max: number | null; after: string };
+
+/**
+ * Multiply the amounts in `text` that `accept` picks, keeping the wording
+ * around them; a unit right after an amount follows its number, so "1 cup"
+ * doubled is "2 cups". Null when nothing was scaled.
+ */
+function scaleAmounts(
+  text: string,
+  factor: number,
+  accept: (amount: Amount) => boolean,
+  limit = Number.POSITIVE_INFINITY,
+): string | null {
+  let result = "";
+  let last = 0;
+  let scaled = 0;
+  for (const match of text.matchAll(AMOUNT_RE)) {
+    if (scaled >= limit) break;
+    const start = match.index;
+    // NUMBER_SRC allows a space before a unicode fraction ("1 ½")
+    let end = start + match[0].trimEnd().length;
+    const min = parseQuantity(match[1]);
+    const max = match[2] ? parseQuantity(match[2]) : null;
+    const after = text.slice(end);
+    if (min === null || !accept({ min, max, after })) continue;
+
+    const newMax = max === null ? null : max * factor;
+    let amount = formatQuantity(min * factor, newMax);
+    const unit = UNIT_AFTER_RE.exec(after);
+    if (unit) {
+      amount += unit[1] + unitLabel(unit[2], newMax ?? min * factor);
+      end += unit[0].length;
+    }
+    result += text.slice(last, start) + amount;
+    last = end;
+    scaled++;
+  }
+  return scaled > 0 ? result + text.slice(last) : null;
+}
+
+/**
+ * Scale quantity references in free text, such as instructions ("add the
+ * remaining 2 tbsp butter") or a line like "Juice of 2 lemons". An amount
+ * counts when a measuring unit or a word from one of `names` follows it,
+ * so times, temperatures and step numbers stay as written.
+ */
+export function scaleQuantitiesInText(
+  text: string,
+  factor: number,
+  names: string[],
+): string {
+  if (factor === 1) return text;
+  const words = new Set(names.flatMap(nameWords));
+  return (
+    scaleAmounts(text, factor, ({ after }) => {
+      const unit = UNIT_AFTER_RE.exec(after);
+      if (unit) {
+        const name = normalizeUnit(unit[2]);
+        // A lone "c" is more likely Celsius than cups
+        return (
+          name !== null && !CUT_UNITS.has(name) && unit[2].toLowerCase() !== "c"
+        );
+      }
+      const next = WORDS_AFTER_RE.exec(after);
+      return (
+        next !== null &&
+        [next[1], next[2]].some((w) => w !== undefined && words.has(stem(w)))
+      );
+    }) ?? text
+  );
+}
+
+/**
+ * Indexes of the ingredients an instruction mentions by name, guessed
+ * from the words they share ("whisk the eggs into the milk").
+ */
+export function ingredientsInStep(
+  step: string,
+  ingredients: ParsedIngredient[],
+): number[] {
+  const words = new Set(nameWords(step));
+  return ingredients.flatMap((ingredient, index) =>
+    nameWords(ingredient.name).some((w) => words.has(w)) ? [index] : [],
+  );
+}
+
+/**
+ * The ingredients a step uses, as indexes into the recipe's list. Manual
+ * links were picked in the editor and are kept when the step is reworded.
+ */
+export type StepIngredients = { indexes: number[]; manual: boolean };
+
+/** Stored links for each step; steps saved before linking are matched. */
+export function stepIngredientsFromRows(
+  rows: {
+    content: string;
+    ingredientIndexes: number[] | null;
+    ingredientsManual: boolean;
+  }[],
+  ingredients: ParsedIngredient[],
+): StepIngredients[] {
+  return rows.map((row) => ({
+    indexes:
+      row.ingredientIndexes?.filter((i) => i < ingredients.length) ??
+      ingredientsInStep(row.content, ingredients),
+    manual: row.ingredientsManual,
+  }));
+}
+
+/**
+ * Text for an ingredient with its quantity multiplied by `factor`. The
+ * amount is replaced where it stands, so the rest of the line reads as
+ * written; the original line is returned when there is nothing to scale.
+ */
+export function scaleParsedIngredient(
+  ingredient: ParsedIngredient,
+  factor: number,
+): string {
+  if (factor === 1) return ingredient.text;
+  const { quantityMin, quantityMax } = ingredient;
+  if (quantityMin === null) {
+    return scaleQuantitiesInText(ingredient.text, factor, [ingredient.name]);
+  }
+  const inPlace = scaleAmounts(
+    ingredient.text,
+    factor,
+    ({ min, max }) => min === quantityMin && (max ?? min) === quantityMax,
+    1,
+  );
+  // "a 400 g can" has no number to replace
+  return (
+    inPlace ??
+    formatParts(
+      ingredient,
+      quantityMin * factor,
+      quantityMax !== null ? quantityMax * factor : null,
+      ingredient.note,
+    )
+  );
+}
+
+/**
+ * Merge ingredients that share a name and unit (e.g. butter listed in two
+ * sections) into one line each, for shopping lists. Notes are dropped since
+ * they describe preparation, not what to buy.
+ */
+export function combineIngredients(
+  ingredients: ParsedIngredient[],
+  factor = 1,
+  format: AmountFormatter = formatAmount,
+): string[] {
+  const merged = new Map<
+    string,
+    { ingredient: ParsedIngredient; min: number | null; max: number | null }
+  >();
+  for (const ingredient of ingredients) {
+    // "eggs" beside "2 eggs" says nothing of how many, so it stays its own line
+    const counted = ingredient.quantityMin !== null;
+    const key = `${ingredient.name.toLowerCase()}|${ingredient.unit ?? ""}|${counted}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, {
+        ingredient,
+        min: ingredient.quantityMin,
+        max: ingredient.quantityMax,
+      });
+    } else if (existing.min !== null && ingredient.quantityMin !== null) {
+      existing.max =
+        (existing.max ?? existing.min) +
+        (ingredient.quantityMax ?? ingredient.quantityMin);
+      existing.min += ingredient.quantityMin;
+    }
+  }
+  return [...merged.values()].map(({ ingredient, min, max }) =>
+    min === null
+      ? ingredient.name
+      : formatParts(
+          ingredient,
+          min * factor,
+          max !== null ? max * factor : null,
+          null,
+          format,
+        ),
+  );
+}
@@ -2,9 +2,17 @@ import { chromium } from "playwright";
 
 export interface InstagramPostData {
 	caption: string;
-	imageData: Buffer | null;
+	/**
+	 * Every slide of the post in order. Video slides contribute their poster
+	 * frame, so this is always image data.
+	 */
+	media: Buffer[];
 }
 
+// CDN images smaller than this are avatars and icons, not post media
+const MIN_MEDIA_BYTES = 10_000;
+const MAX_CAROUSEL_SLIDES = 20;
+
 function toEmbedUrl(url: string): string | null {
 	try {
 		const match = new URL(url).pathname.match(
@@ -17,6 +25,14 @@ function toEmbedUrl(url: string): string | null {
 	}
 }
 
+function mediaKey(url: string): string {
+	try {
+		return new URL(url).pathname.split("/").pop() ?? url;
+	} catch {
+		return url;
+	}
+}
+
 export function isInstagramUrl(url: string): boolean {
 	try {
 		const hostname = new URL(url).hostname;
@@ -40,8 +56,9 @@ export async function extractInstagramPost(
 			deviceScaleFactor: 3, // High DPI for screenshot fallback
 		});
 
-		// Intercept image responses to capture the original full-resolution image.
-		let imageData: Buffer | null = null;
+		// Intercept CDN image responses to reuse below. Keyed by file name so the
+		// same image requested at several sizes is only kept once, largest wins.
+		const responses = new Map<string, Buffer>();
 		let resolveImage: (() => void) | null = null;
 		const imageReady = new Promise<void>((r) => {
 			resolveImage = r;
@@ -56,12 +73,15 @@ export async function extractInstagramPost(
 			) {
 				try {
 					const body = await response.body();
-					if (!imageData || body.length > imageData.length) {
-						imageData = body;
-						if (body.length > 10_000 && resolveImage) {
-							resolveImage();
-							resolveImage = null;
-						}
+					if (body.length < MIN_MEDIA_BYTES) return;
+					const key = mediaKey(respUrl);
+					const previous = responses.get(key);
+					if (!previous || body.length > previous.length) {
+						responses.set(key, body);
+					}
+					if (resolveImage) {
+						resolveImage();
+						resolveImage = null;
 					}
 				} catch {
 					// Response body may not be available, ignore
@@ -82,56 +102,96 @@ export async function extractInstagramPost(
 			new Promise<void>((r) => setTimeout(r, 3_000)),
 		]);
 
-		// Fallback 1: extract thumbnail URL from embedded JSON in <script> tags
-		if (!imageData || (imageData as Buffer).length < 10_000) {
-			const scriptImageUrl = await page.evaluate(() => {
-				const scripts = document.querySelectorAll("script");
-				for (const s of scripts) {
-					const text = s.textContent ?? "";
-					// Look for CDN image URLs in script content
-					const re = new RegExp(
-						'"(https?://[^"]*(?:scontent|cdninstagram)[^"]*\\.(?:jpg|jpeg|png|webp)[^"]*)"',
-						"i",
-					);
-					const match = text.match(re);
-					if (match) return match[1].replace(/\\u0026/g, "&").replace(/\\\//g, "/");
-				}
-				return null;
-			});
-
-			if (scriptImageUrl) {
-				const fetched = await page.evaluate(async (url: string) => {
-					try {
-						const resp = await fetch(url);
-						if (!resp.ok) return null;
-						const buf = await resp.arrayBuffer();
-						const bytes = new Uint8Array(buf);
-						let binary = "";
-						for (let i = 0; i < bytes.length; i++) {
-							binary += String.fromCharCode(bytes[i]);
-						}
-						return btoa(binary);
-					} catch {
-						return null;
+		// 1: the embed's JSON lists a display_url per carousel slide (the poster
+		// frame for videos), in slide order. Fetch them from inside the page.
+		let media: Buffer[] = [];
+		const slideUrls = await page.evaluate(() => {
+			const urls: string[] = [];
+			const seen = new Set<string>();
+			const unescapeJson = (u: string) =>
+				u.replace(/\\+\//g, "/").replace(/\\+u0026/g, "&");
+			const displayRe = /\\*"display_url\\*"\s*:\s*\\*"(https?:.+?)\\*"/g;
+			const cdnRe =
+				/"(https?:\/\/[^"]*(?:scontent|cdninstagram)[^"]*\.(?:jpg|jpeg|png|webp)[^"]*)"/i;
+			let fallback: string | null = null;
+			for (const s of document.querySelectorAll("script")) {
+				const text = s.textContent ?? "";
+				for (const m of text.matchAll(displayRe)) {
+					const url = unescapeJson(m[1]);
+					const name = new URL(url).pathname.split("/").pop() ?? url;
+					if (!seen.has(name)) {
+						seen.add(name);
+						urls.push(url);
 					}
-				}, scriptImageUrl);
+				}
+				if (!fallback) {
+					const match = text.match(cdnRe);
+					if (match) fallback = unescapeJson(match[1]);
+				}
+			}
+			return urls.length > 0 ? urls : fallback ? [fallback] : [];
+		});
 
-				if (fetched) {
-					const buf = Buffer.from(fetched, "base64");
-					if (buf.length > ((imageData as Buffer | null)?.length ?? 0)) {
-						imageData = buf;
+		for (const slideUrl of slideUrls) {
+			const cached = responses.get(mediaKey(slideUrl));
+			if (cached) {
+				media.push(cached);
+				continue;
+			}
+			const fetched = await page.evaluate(async (url: string) => {
+				try {
+					const resp = await fetch(url);
+					if (!resp.ok) return null;
+					const buf = await resp.arrayBuffer();
+					const bytes = new Uint8Array(buf);
+					let binary = "";
+					for (let i = 0; i < bytes.length; i++) {
+						binary += String.fromCharCode(bytes[i]);
 					}
+					return btoa(binary);
+				} catch {
+					return null;
+				}
+			}, slideUrl);
+			if (fetched) media.push(Buffer.from(fetched, "base64"));
+		}
+
+		// 2: no JSON — click through the carousel and note the image each slide
+		// shows. Only those are taken from the intercepted responses; the page
+		// also loads the author's avatar and other images that aren't the post.
+		if (media.length === 0) {
+			const slideKeys: string[] = [];
+			const noteSlides = async () => {
+				const sources = await page.$$eval(
+					".EmbeddedMedia img, img.EmbeddedMediaImage",
+					(imgs: HTMLImageElement[]) =>
+						imgs.map((img) => img.currentSrc || img.src),
+				);
+				for (const src of sources) {
+					const key = mediaKey(src);
+					if (!slideKeys.includes(key)) slideKeys.push(key);
 				}
+			};
+			await noteSlides();
+			for (let i = 0; i < MAX_CAROUSEL_SLIDES; i++) {
+				const next = await page.$(
+					'button[aria-label="Next"], .coreSpriteRightChevron',
+				);
+				if (!next) break;
+				await next.click().catch(() => {});
+				await page.waitForTimeout(800);
+				await noteSlides();
 			}
+			media = slideKeys.flatMap((key) => responses.get(key) ?? []);
 		}
 
-		// Fallback 2: high-DPI screenshot of the media element
-		if (!imageData || (imageData as Buffer).length < 10_000) {
+		// 3: high-DPI screenshot of the media element
+		if (media.length === 0) {
 			const mediaEl = await page.$(
 				".EmbeddedMediaImage, .EmbeddedMedia video, .EmbeddedMedia img, .EmbeddedMedia",
 			);
 			if (mediaEl) {
-				imageData = await mediaEl.screenshot({ type: "png" });
+				media = [await mediaEl.screenshot({ type: "png" })];
 			}
 		}
 
@@ -160,7 +220,7 @@ export async function extractInstagramPost(
 			throw new Error("Could not extract caption from Instagram post.");
 		}
 
-		return { caption, imageData };
+		return { caption, media };
 	} finally {
 		await browser.close();
 	}
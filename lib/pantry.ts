@@ -0,0 +1,142 @@
+import type { SQL } from "drizzle-orm";
+import { sql } from "drizzle-orm";
+import { ingredients } from "../db/schema";
+import { outerRecipeId } from "./search";
+
+// Qualifiers that don't change what the staple is ("kosher salt", "extra
+// virgin olive oil", "lukewarm water")
+const STAPLE_QUALIFIERS = [
+  "kosher",
+  "sea",
+  "flaky",
+  "fine",
+  "coarse",
+  "table",
+  "freshly",
+  "ground",
+  "cracked",
+  "black",
+  "white",
+  "extra",
+  "virgin",
+  "neutral",
+  "vegetable",
+  "canola",
+  "sunflower",
+  "olive",
+  "cooking",
+  "cold",
+  "warm",
+  "hot",
+  "boiling",
+  "lukewarm",
+  "granulated",
+  "all-purpose",
+  "nymalen",
+  "svartpeppar",
+  "flingsalt",
+  "ljummet",
+  "kallt",
+  "varmt",
+];
+
+/** Ingredients most kitchens always have, in English and Swedish. */
+const PANTRY_STAPLES = [
+  "salt",
+  "pepper",
+  "oil",
+  "water",
+  "sugar",
+  "flour",
+  "ice",
+  "peppar",
+  "olja",
+  "olivolja",
+  "rapsolja",
+  "vatten",
+  "socker",
+  "vetemjöl",
+  "is",
+];
+
+const STAPLE = `(?:${PANTRY_STAPLES.join("|")})`;
+// Whole-name match so "bell pepper" or "sesame oil" aren't staples
+const STAPLE_PATTERN = `^(?:(?:${STAPLE_QUALIFIERS.join("|")})\\s+)*${STAPLE}(?:\\s+(?:and|&|och)\\s+${STAPLE})?$`;
+
+/**
+ * Split user input into ingredient terms: lowercased, de-duplicated and
+ * with plural endings dropped so "tomatoes" also matches "tomato".
+ */
+export function parseHaveList(input: string): string[] {
+  const terms = input
+    .split(/[,;\n]+/)
+    .map((term) =>
+      term
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s-]/gu, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .map((term) =>
+      term.length > 3
+        ? term
+            .replace(/(ch|sh|x|o)es$/, "$1")
+            .replace(/ies$/, "y")
+            .replace(/([^s])s$/, "$1")
+        : term,
+    )
+    .filter(Boolean);
+  return [...new Set(terms)].slice(0, 30);
+}
+
+export type CoverageSql = {
+  where: SQL;
+  /** Ingredients the recipe uses, excluding staples when ignored. */
+  total: SQL<number>;
+  matched: SQL<number>;
+  /** Names of the ingredients not on hand, in recipe order. */
+  missing: SQL<string[]>;
+  /** Share of ingredients on hand, for ordering. */
+  coverage: SQL<number>;
+};
+
+/**
+ * SQL fragments that score each recipe by how many of its ingredients are
+ * in `have`. A term matches an ingredient name at a word start, so
+ * "chickpea" matches "canned chickpeas".
+ */
+export function recipeCoverageSql(
+  have: string[],
+  ignoreStaples: boolean,
+): CoverageSql {
+  const havePattern = `\\m(?:${have
+    .map((term) =>
+      term
+        .replace(/[-\s]+/g, "[-\\s]+")
+        // "berry" should also match "berries"
+        .replace(/y$/, "(?:y|ies)"),
+    )
+    .join("|")})`;
+  const counted = ignoreStaples
+    ? sql`not (${ingredients.name} ~* ${STAPLE_PATTERN})`
+    : sql`true`;
+  const isMatch = sql`${ingredients.name} ~* ${havePattern}`;
+  const countWhere = (condition: SQL) => sql<number>`(
+    select count(*)::int from ${ingredients}
+    where ${ingredients.recipeId} = ${outerRecipeId} and ${counted} and ${condition}
+  )`;
+
+  const total = countWhere(sql`true`);
+  const matched = countWhere(isMatch);
+  return {
+    where: sql`${matched} > 0`,
+    total,
+    matched,
+    missing: sql<string[]>`coalesce((
+      select array_agg(${ingredients.name} order by ${ingredients.orderIndex})
+      from ${ingredients}
+      where ${ingredients.recipeId} = ${outerRecipeId} and ${counted} and not (${isMatch})
+    ), '{}')`,
+    coverage: sql<number>`${matched}::float / greatest(${total}, 1)`,
+  };
+}
@@ -0,0 +1,32 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { userPreferences } from "../db/schema";
+import type { UnitPreferences } from "./units";
+import { DEFAULT_UNIT_PREFERENCES } from "./units";
+
+/** The user's default measuring system for recipes. */
+export async function unitPreferences(
+  userId: string,
+): Promise<UnitPreferences> {
+  const row = await db.query.userPreferences.findFirst({
+    where: eq(userPreferences.userId, userId),
+  });
+  return row
+    ? { unitSystem: row.unitSystem, byWeight: row.convertByWeight }
+    : DEFAULT_UNIT_PREFERENCES;
+}
+
+export async function saveUnitPreferences(
+  userId: string,
+  preferences: UnitPreferences,
+): Promise<void> {
+  const values = {
+    unitSystem: preferences.unitSystem,
+    convertByWeight: preferences.byWeight,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(userPreferences)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: userPreferences.userId, set: values });
+}
@@ -0,0 +1,246 @@
+import type { RecipeSection } from "./extractors/types";
+
+/**
+ * One row of the ingredient or instruction list in the editor. Section
+ * headings are rows of their own so they can be moved like items. A step
+ * may list the ingredient rows it uses, by position in the ingredient
+ * list; steps without are matched from their wording.
+ */
+export type EditorLine = {
+  kind: "item" | "heading";
+  text: string;
+  ingredients?: number[];
+};
+
+export type RecipeEdit = {
+  title: string;
+  description: string;
+  servings: string;
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  restMinutes: number | null;
+  totalMinutes: number | null;
+  ingredients: EditorLine[];
+  instructions: EditorLine[];
+};
+
+/** A checked edit, with lists split back into items and section markers. */
+export type ValidRecipeEdit = {
+  title: string;
+  description: string | null;
+  servings: string | null;
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  restMinutes: number | null;
+  totalMinutes: number | null;
+  ingredients: string[];
+  ingredientSections: RecipeSection[];
+  instructions: string[];
+  instructionSections: RecipeSection[];
+  /** Hand-picked ingredient indexes for each instruction, or null. */
+  stepIngredients: (number[] | null)[];
+};
+
+const MAX_TITLE = 200;
+const MAX_DESCRIPTION = 5000;
+const MAX_SERVINGS = 50;
+const MAX_LINE = 1000;
+const MAX_LINES = 200;
+// A week, which covers long ferments and cures
+const MAX_MINUTES = 7 * 24 * 60;
+
+/** Interleave section headings with the items they head. */
+export function toEditorLines(
+  items: string[],
+  sections: RecipeSection[] | undefined,
+): EditorLine[] {
+  const lines: EditorLine[] = [];
+  items.forEach((text, i) => {
+    for (const section of sections ?? []) {
+      if (section.start === i)
+        lines.push({ kind: "heading", text: section.name });
+    }
+    lines.push({ kind: "item", text });
+  });
+  return lines;
+}
+
+/** Inverse of toEditorLines, dropping blank rows and empty sections. */
+export function fromEditorLines(lines: EditorLine[]): {
+  items: string[];
+  sections: RecipeSection[];
+} {
+  const items: string[] = [];
+  const sections: RecipeSection[] = [];
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+    if (line.kind === "heading") {
+      if (sections.at(-1)?.start === items.length) sections.pop();
+      sections.push({ name: text.replace(/\s*:$/, ""), start: items.length });
+    } else {
+      items.push(text);
+    }
+  }
+  if (sections.at(-1)?.start === items.length) sections.pop();
+  return { items, sections };
+}
+
+function checkMinutes(
+  label: string,
+  value: unknown,
+): { ok: true; value: number | null } | { ok: false; error: string } {
+  if (value === null || value === undefined || value === "") {
+    return { ok: true, value: null };
+  }
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 0 ||
+    value > MAX_MINUTES
+  ) {
+    return {
+      ok: false,
+      error: `${label} must be a whole number of minutes up to ${MAX_MINUTES}.`,
+    };
+  }
+  return { ok: true, value: value === 0 ? null : value };
+}
+
+function checkLines(
+  label: string,
+  value: unknown,
+): { ok: true; value: EditorLine[] } | { ok: false; error: string } {
+  if (!Array.isArray(value)) return { ok: false, error: `Invalid ${label}.` };
+  if (value.length > MAX_LINES) {
+    return { ok: false, error: `Too many ${label} (at most ${MAX_LINES}).` };
+  }
+  const lines: EditorLine[] = [];
+  for (const line of value) {
+    if (
+      !line ||
+      typeof line !== "object" ||
+      (line.kind !== "item" && line.kind !== "heading") ||
+      typeof line.text !== "string"
+    ) {
+      return { ok: false, error: `Invalid ${label}.` };
+    }
+    if (line.text.length > MAX_LINE) {
+      return {
+        ok: false,
+        error: `Each of the ${label} must be at most ${MAX_LINE} characters.`,
+      };
+    }
+    const picked = line.ingredients;
+    if (
+      picked !== undefined &&
+      (!Array.isArray(picked) ||
+        picked.length > MAX_LINES ||
+        !picked.every((i) => Number.isInteger(i) && i >= 0))
+    ) {
+      return { ok: false, error: `Invalid ${label}.` };
+    }
+    lines.push(
+      picked === undefined
+        ? { kind: line.kind, text: line.text }
+        : { kind: line.kind, text: line.text, ingredients: picked },
+    );
+  }
+  return { ok: true, value: lines };
+}
+
+/**
+ * Ingredient indexes picked for each kept step. Picks refer to editor
+ * rows, so they are renumbered past the headings and blank rows that
+ * fromEditorLines drops.
+ */
+function pickedIngredients(
+  ingredientLines: EditorLine[],
+  instructionLines: EditorLine[],
+): (number[] | null)[] {
+  let next = 0;
+  const itemIndex = ingredientLines.map((line) =>
+    line.kind === "item" && line.text.trim() ? next++ : null,
+  );
+  return instructionLines
+    .filter((line) => line.kind === "item" && line.text.trim())
+    .map((line) => {
+      if (!line.ingredients) return null;
+      const picked = line.ingredients.flatMap((i) => itemIndex[i] ?? []);
+      return [...new Set(picked)].sort((a, b) => a - b);
+    });
+}
+
+/**
+ * Check an edit coming from the client. Server actions take arbitrary
+ * input, so nothing about the shape is assumed.
+ */
+export function validateRecipeEdit(
+  input: unknown,
+): { ok: true; value: ValidRecipeEdit } | { ok: false; error: string } {
+  if (!input || typeof input !== "object") {
+    return { ok: false, error: "Invalid recipe." };
+  }
+  const edit = input as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+  const title = str(edit.title);
+  if (!title) return { ok: false, error: "Title is required." };
+  if (title.length > MAX_TITLE) {
+    return {
+      ok: false,
+      error: `Title must be at most ${MAX_TITLE} characters.`,
+    };
+  }
+  const description = str(edit.description);
+  if (description.length > MAX_DESCRIPTION) {
+    return {
+      ok: false,
+      error: `Description must be at most ${MAX_DESCRIPTION} characters.`,
+    };
+  }
+  const servings = str(edit.servings);
+  if (servings.length > MAX_SERVINGS) {
+    return {
+      ok: false,
+      error: `Servings must be at most ${MAX_SERVINGS} characters.`,
+    };
+  }
+
+  const prep = checkMinutes("Prep time", edit.prepMinutes);
+  if (!prep.ok) return prep;
+  const cook = checkMinutes("Cook time", edit.cookMinutes);
+  if (!cook.ok) return cook;
+  const rest = checkMinutes("Rest time", edit.restMinutes);
+  if (!rest.ok) return rest;
+  const total = checkMinutes("Total time", edit.totalMinutes);
+  if (!total.ok) return total;
+
+  const ingredientLines = checkLines("ingredients", edit.ingredients);
+  if (!ingredientLines.ok) return ingredientLines;
+  const instructionLines = checkLines("steps", edit.instructions);
+  if (!instructionLines.ok) return instructionLines;
+  const ingredients = fromEditorLines(ingredientLines.value);
+  const instructions = fromEditorLines(instructionLines.value);
+
+  return {
+    ok: true,
+    value: {
+      title,
+      description: description || null,
+      servings: servings || null,
+      prepMinutes: prep.value,
+      cookMinutes: cook.value,
+      restMinutes: rest.value,
+      totalMinutes: total.value,
+      ingredients: ingredients.items,
+      ingredientSections: ingredients.sections,
+      instructions: instructions.items,
+      instructionSections: instructions.sections,
+      stepIngredients: pickedIngredients(
+        ingredientLines.value,
+        instructionLines.value,
+      ),
+    },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * The /recipes list state as carried in the URL. Kept free of server
+ * imports so client components can build links with it.
+ */
+
+export const RECIPE_SORTS = ["relevance", "newest", "title", "time"] as const;
+export type RecipeSort = (typeof RECIPE_SORTS)[number];
+
+export type RecipeListParams = {
+  mine: boolean;
+  /** A household whose recipe box to show instead of all recipes. */
+  household: string | null;
+  q: string;
+  /** Ingredients on hand; null when not in "What can I cook?" mode. */
+  cook: string | null;
+  includeStaples: boolean;
+  sort: RecipeSort;
+  tags: string[];
+  domain: string | null;
+  creator: string | null;
+  maxMinutes: number | null;
+};
+
+export type RecipeSearchParams = Record<string, string | string[] | undefined>;
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function all(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Relevance only means something when there is a query to rank by. */
+function defaultSort(params: Pick<RecipeListParams, "q" | "cook">): RecipeSort {
+  return params.q || params.cook ? "relevance" : "newest";
+}
+
+export function parseRecipeListParams(
+  searchParams: RecipeSearchParams,
+): RecipeListParams {
+  const q = first(searchParams.q)?.trim() ?? "";
+  const cook = first(searchParams.cook) ?? null;
+  const sortParam = first(searchParams.sort);
+  const time = Number.parseInt(first(searchParams.time) ?? "", 10);
+
+  let sort: RecipeSort = RECIPE_SORTS.includes(sortParam as RecipeSort)
+    ? (sortParam as RecipeSort)
+    : defaultSort({ q, cook });
+  if (sort === "relevance" && !q && !cook) sort = "newest";
+
+  return {
+    mine: first(searchParams.filter) === "mine",
+    household: first(searchParams.household)?.trim() || null,
+    q,
+    cook,
+    includeStaples: first(searchParams.staples) === "include",
+    sort,
+    tags: [...new Set(all(searchParams.tag).map((t) => t.trim()))].filter(
+      Boolean,
+    ),
+    domain: first(searchParams.domain)?.trim() || null,
+    creator: first(searchParams.creator)?.trim() || null,
+    maxMinutes: Number.isFinite(time) && time > 0 ? time : null,
+  };
+}
+
+/** Query string for `params`, leaving defaults out. */
+export function recipesQuery(params: RecipeListParams): string {
+  const qs = new URLSearchParams();
+  if (params.mine) qs.set("filter", "mine");
+  else if (params.household) qs.set("household", params.household);
+  if (params.q) qs.set("q", params.q);
+  if (params.cook !== null) qs.set("cook", params.cook);
+  if (params.includeStaples) qs.set("staples", "include");
+  if (params.sort !== defaultSort(params)) qs.set("sort", params.sort);
+  for (const tag of params.tags) qs.append("tag", tag);
+  if (params.domain) qs.set("domain", params.domain);
+  if (params.creator) qs.set("creator", params.creator);
+  if (params.maxMinutes) qs.set("time", String(params.maxMinutes));
+  return qs.toString();
+}
+
+/** Link to /recipes for `params`, leaving defaults out of the URL. */
+export function recipesHref(params: RecipeListParams): string {
+  const query = recipesQuery(params);
+  return query ? `/recipes?${query}` : "/recipes";
+}
+
+/** A query string in the shape parseRecipeListParams reads. */
+export function searchParamsOf(query: string): RecipeSearchParams {
+  const qs = new URLSearchParams(query);
+  return Object.fromEntries(
+    [...new Set(qs.keys())].map((key) => [key, qs.getAll(key)]),
+  );
+}
+
+export function hasActiveFilters(params: RecipeListParams): boolean {
+  return (
+    params.tags.length > 0 ||
+    params.domain !== null ||
+    params.creator !== null ||
+    params.maxMinutes !== null
+  );
+}
@@ -0,0 +1,381 @@
+import type { SQL } from "drizzle-orm";
+import { and, asc, desc, eq, exists, isNull, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  householdMembers,
+  householdRecipes,
+  recipeImages,
+  recipes,
+  userRecipes,
+} from "../db/schema";
+import { isUuid, recipeVisibleTo } from "./auth/permissions";
+import { parseHaveList, recipeCoverageSql } from "./pantry";
+import type { RecipeListParams } from "./recipe-list-params";
+import type { SnippetPart } from "./search";
+import {
+  outerRecipeId,
+  parseSnippet,
+  recipeSearchSql,
+  toPrefixQuery,
+} from "./search";
+import { tagWithDescendants } from "./tags";
+
+export const PAGE_SIZE = 24;
+const FACET_LIMIT = 30;
+
+export type RecipeListItem = {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  tags: string[];
+  totalMinutes: number | null;
+  /** Matching text with highlights, when the list is a search result. */
+  snippet: SnippetPart[] | null;
+  /** How many of the recipe's ingredients are on hand, in cook mode. */
+  coverage: { matched: number; total: number; missing: string[] } | null;
+  createdBy?: string | null;
+  createdAt: Date | string;
+};
+
+export type RecipeListPage = {
+  items: RecipeListItem[];
+  /** Opaque cursor for the next page, null on the last one. */
+  nextCursor: string | null;
+};
+
+export type FacetValue = { value: string; count: number };
+
+export type RecipeFacets = {
+  total: number;
+  tags: FacetValue[];
+  domains: FacetValue[];
+  creators: FacetValue[];
+};
+
+// First image of the recipe's gallery, used as the list thumbnail
+export const coverImageUrl = sql<string | null>`(
+  select ${recipeImages.url} from ${recipeImages}
+  where ${recipeImages.recipeId} = ${outerRecipeId}
+  order by ${recipeImages.orderIndex}
+  limit 1
+)`;
+
+// Host of the source URL without "www.", e.g. "bbcgoodfood.com"
+const sourceDomain = sql<
+  string | null
+>`substring(${recipes.sourceUrl} from '^https?://(?:www\\.)?([^/:?#]+)')`;
+
+type Ranking = {
+  search: ReturnType<typeof recipeSearchSql> | null;
+  coverage: ReturnType<typeof recipeCoverageSql> | null;
+};
+
+function ranking(params: RecipeListParams): Ranking {
+  const tsquery = toPrefixQuery(params.q);
+  const have = params.cook ? parseHaveList(params.cook) : [];
+  return {
+    search: tsquery ? recipeSearchSql(tsquery) : null,
+    coverage:
+      have.length > 0 ? recipeCoverageSql(have, !params.includeStaples) : null,
+  };
+}
+
+/** Recipes in the household's box, for its members only. */
+function householdBox(householdId: string, userId: string | undefined): SQL {
+  if (!userId || !isUuid(householdId)) return sql`false`;
+  return exists(
+    db
+      .select({ one: sql`1` })
+      .from(householdRecipes)
+      .innerJoin(
+        householdMembers,
+        eq(householdMembers.householdId, householdRecipes.householdId),
+      )
+      .where(
+        and(
+          eq(householdRecipes.householdId, householdId),
+          eq(householdRecipes.recipeId, outerRecipeId),
+          eq(householdMembers.userId, userId),
+        ),
+      ),
+  );
+}
+
+type Facet = "tags" | "domain" | "creator";
+
+/**
+ * WHERE conditions for the list. A facet's own filter is left out when
+ * counting that facet, so its other values still show how many they'd add.
+ */
+function conditions(
+  params: RecipeListParams,
+  userId: string | undefined,
+  rank: Ranking,
+  except?: Facet,
+): (SQL | undefined)[] {
+  return [
+    recipeVisibleTo(userId ? { id: userId } : undefined),
+    params.mine
+      ? userId
+        ? exists(
+            db
+              .select({ one: sql`1` })
+              .from(userRecipes)
+              .where(
+                and(
+                  eq(userRecipes.recipeId, outerRecipeId),
+                  eq(userRecipes.userId, userId),
+                ),
+              ),
+          )
+        : sql`false`
+      : params.household
+        ? householdBox(params.household, userId)
+        : // Personal variants only show up in their owner's recipe box
+          isNull(recipes.forkedFromId),
+    rank.search?.where,
+    rank.coverage?.where,
+    ...(except === "tags"
+      ? []
+      : params.tags.map(
+          (tag) =>
+            sql`exists (select 1 from unnest(${recipes.tags}) as tag where lower(tag) in (${tagWithDescendants(tag)}))`,
+        )),
+    except !== "domain" && params.domain
+      ? sql`${sourceDomain} = ${params.domain}`
+      : undefined,
+    except !== "creator" && params.creator
+      ? eq(recipes.createdBy, params.creator)
+      : undefined,
+    params.maxMinutes !== null
+      ? sql`${recipes.totalMinutes} <= ${params.maxMinutes}`
+      : undefined,
+  ];
+}
+
+type Cursor = { v: string | null; id: string } | { offset: number };
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * The cursor a client sent back, or null (the first page) when it isn't
+ * one `order` could have made. Its values end up in casts and the offset.
+ */
+function decodeCursor(value: string | null, order: Ordering): Cursor | null {
+  if (!value) return null;
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (!cursor || typeof cursor !== "object") return null;
+  const { v, id, offset } = cursor as Record<string, unknown>;
+  if (!order.after) {
+    return Number.isSafeInteger(offset) && (offset as number) >= 0
+      ? { offset: offset as number }
+      : null;
+  }
+  return isUuid(id) && order.isKey(v) ? { v, id } : null;
+}
+
+// recipes.created_at as Postgres prints it: "2026-03-01 18:04:05.123456"
+const TIMESTAMP_RE = /^(\d{4}-\d{2}-\d{2})[ T]\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?$/;
+
+function isTimestamp(value: unknown): value is string {
+  const match = typeof value === "string" && TIMESTAMP_RE.exec(value);
+  if (!match) return false;
+  // Date rolls "02-30" over to March where Postgres would throw
+  const time = Date.parse(`${match[1]}T00:00:00Z`);
+  return (
+    !Number.isNaN(time) && new Date(time).toISOString().startsWith(match[1])
+  );
+}
+
+type Ordering = {
+  /** Value of the sort column as text, carried in the keyset cursor. */
+  key: SQL<string | null>;
+  /** Whether a cursor's value has the shape `key` produces. */
+  isKey: (v: unknown) => v is string | null;
+  orderBy: SQL[];
+  /** Rows after the cursor; null for offset-paged (ranked) sorts. */
+  after: ((v: string | null, id: string) => SQL) | null;
+};
+
+function ordering(params: RecipeListParams, rank: Ranking): Ordering {
+  switch (params.sort) {
+    case "title":
+      return {
+        key: sql<string>`lower(${recipes.title})`,
+        isKey: (v) => typeof v === "string",
+        orderBy: [asc(sql`lower(${recipes.title})`), asc(recipes.id)],
+        after: (v, id) =>
+          sql`(lower(${recipes.title}), ${recipes.id}) > (${v}, ${id}::uuid)`,
+      };
+    case "time":
+      // Recipes without a time go last
+      return {
+        key: sql<string | null>`${recipes.totalMinutes}::text`,
+        isKey: (v): v is string | null =>
+          v === null || (typeof v === "string" && /^\d{1,9}$/.test(v)),
+        orderBy: [sql`${recipes.totalMinutes} asc nulls last`, asc(recipes.id)],
+        after: (v, id) =>
+          v === null
+            ? sql`(${recipes.totalMinutes} is null and ${recipes.id} > ${id}::uuid)`
+            : sql`(${recipes.totalMinutes} > ${v}::int
+                or (${recipes.totalMinutes} = ${v}::int and ${recipes.id} > ${id}::uuid)
+                or ${recipes.totalMinutes} is null)`,
+      };
+    case "relevance":
+      if (rank.search || rank.coverage) {
+        // Ranks are computed per query, so these pages use an offset
+        return {
+          key: sql<null>`null`,
+          isKey: (v) => v === null,
+          orderBy: [
+            ...(rank.coverage
+              ? [desc(rank.coverage.coverage), desc(rank.coverage.matched)]
+              : []),
+            ...(rank.search ? [desc(rank.search.rank)] : []),
+            desc(recipes.createdAt),
+            desc(recipes.id),
+          ],
+          after: null,
+        };
+      }
+      return ordering({ ...params, sort: "newest" }, rank);
+    default:
+      // Compared as text so the cursor keeps Postgres' microseconds
+      return {
+        key: sql<string>`${recipes.createdAt}::text`,
+        isKey: isTimestamp,
+        orderBy: [desc(recipes.createdAt), desc(recipes.id)],
+        after: (v, id) =>
+          sql`(${recipes.createdAt}, ${recipes.id}) < (${v}::timestamp, ${id}::uuid)`,
+      };
+  }
+}
+
+/** One page of /recipes, after `cursor` (or the first page). */
+export async function queryRecipeList(
+  params: RecipeListParams,
+  userId: string | undefined,
+  cursor: string | null = null,
+): Promise<RecipeListPage> {
+  const rank = ranking(params);
+  const order = ordering(params, rank);
+  const position = decodeCursor(cursor, order);
+  const offset = position && "offset" in position ? position.offset : 0;
+  const after =
+    position && "id" in position && order.after
+      ? order.after(position.v, position.id)
+      : undefined;
+
+  const rows = await db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      imageUrl: coverImageUrl,
+      tags: recipes.tags,
+      totalMinutes: recipes.totalMinutes,
+      createdBy: recipes.createdBy,
+      createdAt: recipes.createdAt,
+      snippet: rank.search ? rank.search.snippet : sql<string | null>`null`,
+      matched: rank.coverage ? rank.coverage.matched : sql<number | null>`null`,
+      total: rank.coverage ? rank.coverage.total : sql<number | null>`null`,
+      missing: rank.coverage
+        ? rank.coverage.missing
+        : sql<string[] | null>`null`,
+      sortKey: order.key,
+    })
+    .from(recipes)
+    .where(and(...conditions(params, userId, rank), after))
+    .orderBy(...order.orderBy)
+    .limit(PAGE_SIZE + 1)
+    .offset(offset);
+
+  const page = rows.slice(0, PAGE_SIZE);
+  const last = page.at(-1);
+  const nextCursor =
+    rows.length > PAGE_SIZE && last
+      ? encodeCursor(
+          order.after
+            ? { v: last.sortKey, id: last.id }
+            : { offset: offset + PAGE_SIZE },
+        )
+      : null;
+
+  return {
+    items: page.map((r) => ({
+      id: r.id,
+      title: r.title,
+      description: r.description,
+      imageUrl: r.imageUrl,
+      tags: r.tags ?? [],
+      totalMinutes: r.totalMinutes,
+      snippet: r.snippet ? parseSnippet(r.snippet) : null,
+      coverage:
+        r.matched !== null && r.total !== null
+          ? { matched: r.matched, total: r.total, missing: r.missing ?? [] }
+          : null,
+      createdBy: r.createdBy,
+      createdAt: r.createdAt,
+    })),
+    nextCursor,
+  };
+}
+
+/** Total matches plus tag, source domain and creator counts. */
+export async function queryRecipeFacets(
+  params: RecipeListParams,
+  userId: string | undefined,
+): Promise<RecipeFacets> {
+  const rank = ranking(params);
+  const count = sql<number>`count(*)::int`;
+
+  const [[total], tags, domains, creators] = await Promise.all([
+    db
+      .select({ count })
+      .from(recipes)
+      .where(and(...conditions(params, userId, rank))),
+    db
+      .select({ value: sql<string>`t.tag`, count })
+      .from(
+        sql`${recipes} cross join lateral unnest(${recipes.tags}) as t(tag)`,
+      )
+      .where(and(...conditions(params, userId, rank, "tags")))
+      .groupBy(sql`t.tag`)
+      .orderBy(desc(count), asc(sql`t.tag`))
+      .limit(FACET_LIMIT),
+    db
+      .select({ value: sql<string>`${sourceDomain}`, count })
+      .from(recipes)
+      .where(
+        and(
+          ...conditions(params, userId, rank, "domain"),
+          sql`${sourceDomain} is not null`,
+        ),
+      )
+      .groupBy(sourceDomain)
+      .orderBy(desc(count), asc(sourceDomain))
+      .limit(FACET_LIMIT),
+    db
+      .select({ value: sql<string>`${recipes.createdBy}`, count })
+      .from(recipes)
+      .where(
+        and(
+          ...conditions(params, userId, rank, "creator"),
+          sql`${recipes.createdBy} is not null`,
+        ),
+      )
+      .groupBy(recipes.createdBy)
+      .orderBy(desc(count), asc(recipes.createdBy))
+      .limit(FACET_LIMIT),
+  ]);
+
+  return { total: total?.count ?? 0, tags, domains, creators };
+}
@@ -0,0 +1,290 @@
+import { eq, inArray } from "drizzle-orm";
+import { db, type Executor } from "../db";
+import {
+  ingredients,
+  instructions,
+  type RecipeSnapshot,
+  recipeImages,
+  recipeRevisions,
+  recipes,
+} from "../db/schema";
+import { ingredientsInStep, parseIngredientLine } from "./ingredients";
+import { toEditorLines } from "./recipe-edit";
+import { refreshSearchVector } from "./search";
+import { sectionsFromRows } from "./sections";
+
+export type RevisionAuthor = { id: string | null; name: string | null };
+
+/** Recipes with the content a snapshot records, in list order. */
+async function loadRecipes(recipeIds: string[], database: Executor) {
+  return database.query.recipes.findMany({
+    where: inArray(recipes.id, recipeIds),
+    with: {
+      images: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
+      ingredients: { orderBy: (i, { asc }) => [asc(i.orderIndex)] },
+      instructions: { orderBy: (i, { asc }) => [asc(i.stepNumber)] },
+    },
+  });
+}
+
+function toSnapshot(
+  recipe: Awaited<ReturnType<typeof loadRecipes>>[number],
+): RecipeSnapshot {
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    servings: recipe.servings,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    restMinutes: recipe.restMinutes,
+    totalMinutes: recipe.totalMinutes,
+    tags: recipe.tags,
+    images: recipe.images.map((i) => i.url),
+    ingredients: recipe.ingredients.map(({ text, section }) => ({
+      text,
+      section,
+    })),
+    instructions: recipe.instructions.map(
+      ({ content, section, ingredientIndexes, ingredientsManual }) =>
+        ingredientsManual && ingredientIndexes
+          ? { content, section, ingredients: ingredientIndexes }
+          : { content, section },
+    ),
+  };
+}
+
+/** Record the recipe as it is now. Call after every change to it. */
+export async function recordRevision(
+  recipeId: string,
+  author: RevisionAuthor,
+  summary: string,
+  database: Executor = db,
+): Promise<void> {
+  await recordRevisions([recipeId], author, summary, database);
+}
+
+/**
+ * recordRevision for many recipes at once, in two queries however many
+ * there are, e.g. after a tag merge.
+ */
+export async function recordRevisions(
+  recipeIds: string[],
+  author: RevisionAuthor,
+  summary: string,
+  database: Executor = db,
+): Promise<void> {
+  if (recipeIds.length === 0) return;
+  const loaded = await loadRecipes(recipeIds, database);
+  if (loaded.length === 0) return;
+  await database.insert(recipeRevisions).values(
+    loaded.map((recipe) => ({
+      recipeId: recipe.id,
+      snapshot: toSnapshot(recipe),
+      summary,
+      authorId: author.id,
+      authorName: author.name,
+    })),
+  );
+}
+
+/**
+ * Recipes saved before history was kept have no revisions. Call before a
+ * change so the state it replaces is on record, credited to whoever added
+ * the recipe.
+ */
+export async function ensureBaseRevision(
+  recipeId: string,
+  database: Executor = db,
+): Promise<void> {
+  await ensureBaseRevisions([recipeId], database);
+}
+
+/** ensureBaseRevision for many recipes at once. */
+export async function ensureBaseRevisions(
+  recipeIds: string[],
+  database: Executor = db,
+): Promise<void> {
+  if (recipeIds.length === 0) return;
+  const recorded = await database
+    .selectDistinct({ recipeId: recipeRevisions.recipeId })
+    .from(recipeRevisions)
+    .where(inArray(recipeRevisions.recipeId, recipeIds));
+  const hasHistory = new Set(recorded.map((r) => r.recipeId));
+  const missing = recipeIds.filter((id) => !hasHistory.has(id));
+  if (missing.length === 0) return;
+
+  const loaded = await loadRecipes(missing, database);
+  if (loaded.length === 0) return;
+  await database.insert(recipeRevisions).values(
+    loaded.map((recipe) => ({
+      recipeId: recipe.id,
+      snapshot: toSnapshot(recipe),
+      summary: "Added",
+      authorId: recipe.createdById,
+      authorName: recipe.createdBy,
+      createdAt: recipe.createdAt,
+    })),
+  );
+}
+
+/**
+ * Put a recipe back the way `snapshot` recorded it. Several statements,
+ * so run it in a transaction.
+ */
+export async function applySnapshot(
+  recipeId: string,
+  snapshot: RecipeSnapshot,
+  tx: Executor,
+): Promise<void> {
+  await tx
+    .update(recipes)
+    .set({
+      title: snapshot.title,
+      description: snapshot.description,
+      servings: snapshot.servings,
+      prepMinutes: snapshot.prepMinutes,
+      cookMinutes: snapshot.cookMinutes,
+      restMinutes: snapshot.restMinutes,
+      totalMinutes: snapshot.totalMinutes,
+      tags: snapshot.tags,
+      updatedAt: new Date(),
+    })
+    .where(eq(recipes.id, recipeId));
+
+  await tx.delete(recipeImages).where(eq(recipeImages.recipeId, recipeId));
+  await tx.delete(ingredients).where(eq(ingredients.recipeId, recipeId));
+  await tx.delete(instructions).where(eq(instructions.recipeId, recipeId));
+
+  if (snapshot.images.length > 0) {
+    await tx
+      .insert(recipeImages)
+      .values(
+        snapshot.images.map((url, i) => ({ recipeId, url, orderIndex: i })),
+      );
+  }
+  const parsed = snapshot.ingredients.map(({ text }) =>
+    parseIngredientLine(text),
+  );
+  if (parsed.length > 0) {
+    await tx.insert(ingredients).values(
+      parsed.map((ingredient, i) => ({
+        recipeId,
+        ...ingredient,
+        orderIndex: i,
+        section: snapshot.ingredients[i].section,
+      })),
+    );
+  }
+  if (snapshot.instructions.length > 0) {
+    await tx.insert(instructions).values(
+      snapshot.instructions.map(({ content, section, ingredients }, i) => ({
+        recipeId,
+        stepNumber: i + 1,
+        content,
+        section,
+        ingredientIndexes: ingredients ?? ingredientsInStep(content, parsed),
+        ingredientsManual: ingredients !== undefined,
+      })),
+    );
+  }
+
+  await refreshSearchVector(recipeId, tx);
+}
+
+export type DiffLine = { op: "same" | "added" | "removed"; text: string };
+
+export type RevisionDiff = {
+  fields: { label: string; before: string; after: string }[];
+  lists: { label: string; lines: DiffLine[] }[];
+};
+
+/** Line diff by longest common subsequence; recipe lists are short. */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ op: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: "removed", text: before[i++] });
+    } else {
+      lines.push({ op: "added", text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ op: "removed", text: before[i++] });
+  while (j < after.length) lines.push({ op: "added", text: after[j++] });
+  return lines;
+}
+
+// Section headings become lines of their own, as in the editor
+function listLines(
+  rows: { section: string | null }[],
+  texts: string[],
+): string[] {
+  return toEditorLines(texts, sectionsFromRows(rows)).map((line) =>
+    line.kind === "heading" ? `${line.text}:` : line.text,
+  );
+}
+
+function minutesText(value: number | null): string {
+  return value ? `${value} min` : "";
+}
+
+/**
+ * What changed from `before` to `after`, leaving out anything that didn't.
+ * With no `before` (the first revision) everything shows as added.
+ */
+export function diffSnapshots(
+  before: RecipeSnapshot | null,
+  after: RecipeSnapshot,
+): RevisionDiff {
+  const fields: RevisionDiff["fields"] = [];
+  const scalar = (label: string, get: (s: RecipeSnapshot) => string) => {
+    const a = before ? get(before) : "";
+    const b = get(after);
+    if (a !== b) fields.push({ label, before: a, after: b });
+  };
+  scalar("Title", (s) => s.title);
+  scalar("Description", (s) => s.description ?? "");
+  scalar("Servings", (s) => s.servings ?? "");
+  scalar("Prep time", (s) => minutesText(s.prepMinutes));
+  scalar("Cook time", (s) => minutesText(s.cookMinutes));
+  scalar("Rest time", (s) => minutesText(s.restMinutes));
+  scalar("Total time", (s) => minutesText(s.totalMinutes));
+
+  const lists: RevisionDiff["lists"] = [];
+  const list = (label: string, get: (s: RecipeSnapshot) => string[]) => {
+    const lines = diffLines(before ? get(before) : [], get(after));
+    if (lines.some((line) => line.op !== "same")) lists.push({ label, lines });
+  };
+  list("Tags", (s) => s.tags);
+  list("Ingredients", (s) =>
+    listLines(
+      s.ingredients,
+      s.ingredients.map((i) => i.text),
+    ),
+  );
+  list("Instructions", (s) =>
+    listLines(
+      s.instructions,
+      s.instructions.map((i) => i.content),
+    ),
+  );
+  list("Images", (s) => s.images);
+
+  return { fields, lists };
+}
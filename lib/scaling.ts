@@ -0,0 +1,102 @@
+/**
+ * Scaling a recipe by something other than portions: the pan it is baked
+ * in, or how much of a key ingredient the cook has. Kept free of server
+ * imports so the recipe card can offer both.
+ */
+
+export const PAN_SHAPES = ["round", "square", "rectangle"] as const;
+export type PanShape = (typeof PAN_SHAPES)[number];
+
+export const PAN_SHAPE_LABELS: Record<PanShape, string> = {
+  round: "Round",
+  square: "Square",
+  rectangle: "Rectangle",
+};
+
+export type PanUnit = "cm" | "in";
+
+/** Width is the diameter of a round pan and the side of a square one. */
+export type Pan = {
+  shape: PanShape;
+  width: number;
+  length: number | null;
+  unit: PanUnit;
+};
+
+const CM_PER_INCH = 2.54;
+
+/** Bottom area in cm²; depth is assumed to match. */
+export function panArea(pan: Pan): number {
+  const size = pan.unit === "in" ? CM_PER_INCH : 1;
+  const width = pan.width * size;
+  switch (pan.shape) {
+    case "round":
+      return Math.PI * (width / 2) ** 2;
+    case "square":
+      return width ** 2;
+    case "rectangle":
+      return width * (pan.length ?? pan.width) * size;
+  }
+}
+
+export function isValidPan(pan: Pan): boolean {
+  return (
+    pan.width > 0 &&
+    (pan.shape !== "rectangle" || (pan.length !== null && pan.length > 0))
+  );
+}
+
+const SIZE = String.raw`(\d+(?:[.,]\d+)?)`;
+const PAN_UNIT = String.raw`(inch(?:es)?|in\b\.?|"|cm\b)`;
+const PAN_WORD = "(?:pan|tin|dish|form|plate|skillet|springform)";
+
+// "9x13-inch pan", "23 x 33 cm tin"
+const RECTANGLE_RE = new RegExp(
+  String.raw`${SIZE}\s*(?:x|×|by)\s*${SIZE}\s*-?\s*${PAN_UNIT}`,
+  "i",
+);
+// "9-inch round cake pan", "20 cm springform", "8" square dish"
+const ROUND_OR_SQUARE_RE = new RegExp(
+  String.raw`${SIZE}\s*-?\s*${PAN_UNIT}\s*(?:(round|square)\s+)?(?:[a-z]+\s+){0,2}?${PAN_WORD}`,
+  "i",
+);
+
+function number(value: string): number {
+  return Number.parseFloat(value.replace(",", "."));
+}
+
+function panUnit(value: string): PanUnit {
+  return value.toLowerCase().startsWith("cm") ? "cm" : "in";
+}
+
+/** The first pan size mentioned in the recipe, for the starting point. */
+export function findPan(lines: string[]): Pan | null {
+  for (const line of lines) {
+    const rectangle = RECTANGLE_RE.exec(line);
+    if (rectangle) {
+      const width = number(rectangle[1]);
+      const length = number(rectangle[2]);
+      return {
+        shape: width === length ? "square" : "rectangle",
+        width,
+        length: width === length ? null : length,
+        unit: panUnit(rectangle[3]),
+      };
+    }
+    const pan = ROUND_OR_SQUARE_RE.exec(line);
+    if (pan) {
+      return {
+        shape: pan[3]?.toLowerCase() === "square" ? "square" : "round",
+        width: number(pan[1]),
+        length: null,
+        unit: panUnit(pan[2]),
+      };
+    }
+  }
+  return null;
+}
+
+/** How much to multiply the recipe by to fill `target` instead of `from`. */
+export function panScaleFactor(from: Pan, target: Pan): number {
+  return panArea(target) / panArea(from);
+}
@@ -0,0 +1,114 @@
+import type { SQL } from "drizzle-orm";
+import { eq, inArray, sql } from "drizzle-orm";
+import { db, type Executor } from "../db";
+import { ingredients, instructions, recipes } from "../db/schema";
+
+// Recipes are in several languages, so words are indexed as written rather
+// than stemmed for one of them; prefix matching covers plurals.
+const CONFIG = sql.raw("'simple'");
+
+/**
+ * `recipes.id` for correlated subqueries. Always table-qualified: in
+ * single-table selects Drizzle leaves column names bare, which inside a
+ * subquery would bind to the inner table.
+ */
+export const outerRecipeId = sql`${recipes}.${sql.identifier("id")}`;
+
+const ingredientText = sql`coalesce((
+  select string_agg(${ingredients.name}, ' ' order by ${ingredients.orderIndex})
+  from ${ingredients}
+  where ${ingredients.recipeId} = ${outerRecipeId}
+), '')`;
+
+const instructionText = sql`coalesce((
+  select string_agg(${instructions.content}, ' ' order by ${instructions.stepNumber})
+  from ${instructions}
+  where ${instructions.recipeId} = ${outerRecipeId}
+), '')`;
+
+// Title matches rank above ingredients and tags, which rank above step text
+const searchVector = sql`
+  setweight(to_tsvector(${CONFIG}, coalesce(${recipes.title}, '')), 'A') ||
+  setweight(to_tsvector(${CONFIG}, ${ingredientText}), 'B') ||
+  setweight(to_tsvector(${CONFIG}, array_to_string(${recipes.tags}, ' ')), 'B') ||
+  setweight(to_tsvector(${CONFIG}, coalesce(${recipes.description}, '')), 'C') ||
+  setweight(to_tsvector(${CONFIG}, ${instructionText}), 'D')`;
+
+/**
+ * Recompute a recipe's search vector. Call after anything that changes its
+ * title, description, tags, ingredients or instructions.
+ */
+export async function refreshSearchVector(
+  recipeId: string,
+  database: Executor = db,
+): Promise<void> {
+  await database
+    .update(recipes)
+    .set({ searchVector: searchVector })
+    .where(eq(recipes.id, recipeId));
+}
+
+/** refreshSearchVector for many recipes at once, e.g. after a tag merge. */
+export async function refreshSearchVectors(
+  recipeIds: string[],
+  database: Executor = db,
+): Promise<void> {
+  if (recipeIds.length === 0) return;
+  await database
+    .update(recipes)
+    .set({ searchVector: searchVector })
+    .where(inArray(recipes.id, recipeIds));
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery ("chick cur" matches
+ * "chickpea curry"). Returns null when nothing searchable is left.
+ */
+export function toPrefixQuery(input: string): string | null {
+  const terms = input
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu)
+    ?.slice(0, 10);
+  if (!terms || terms.length === 0) return null;
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+export type SearchSql = {
+  where: SQL;
+  rank: SQL<number>;
+  snippet: SQL<string>;
+};
+
+// Control characters can't occur in recipe text, so they mark highlights
+// unambiguously without the snippet ever being treated as HTML.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+/** SQL fragments for filtering, ranking and snippeting recipes by `query`. */
+export function recipeSearchSql(query: string): SearchSql {
+  const tsquery = sql`to_tsquery(${CONFIG}, ${query})`;
+  const document = sql`concat_ws(' · ', ${recipes.description}, ${ingredientText}, ${instructionText})`;
+  const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+  return {
+    where: sql`${recipes.searchVector} @@ ${tsquery}`,
+    rank: sql<number>`ts_rank_cd(${recipes.searchVector}, ${tsquery})`,
+    snippet: sql<string>`ts_headline(${CONFIG}, ${document}, ${tsquery}, ${options})`,
+  };
+}
+
+export type SnippetPart = { text: string; highlight: boolean };
+
+/** Split a ts_headline snippet into plain and highlighted runs. */
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const [i, chunk] of snippet.split(HIGHLIGHT_START).entries()) {
+    if (i === 0) {
+      if (chunk) parts.push({ text: chunk, highlight: false });
+      continue;
+    }
+    const [marked, rest] = chunk.split(HIGHLIGHT_END);
+    if (marked) parts.push({ text: marked, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  }
+  return parts;
+}
@@ -0,0 +1,110 @@
+import type { RecipeSection } from "./extractors/types";
+
+// "For the sauce:", "To make the dressing", "Till såsen:", "Topping:"
+const FOR_THE_RE = /^(?:for|to\s+make)\s+(?:the\s+)?\S.*$/i;
+const SV_FOR_RE = /^(?:till|för)\s+\S.*:$/i;
+const LABEL_RE = /^[^\d:]{2,30}:$/;
+// Top-level list headers are handled by the parsers, not sections
+const LIST_HEADER_RE =
+  /^(?:ingredients?|ingredienser|instructions?|directions?|method|steps?)$/i;
+
+/**
+ * If `line` is a sub-heading inside an ingredient or instruction list,
+ * return the section name (without the trailing colon), else null.
+ */
+export function parseSectionHeader(line: string): string | null {
+  const cleaned = line
+    .replace(/^[-•·◦▪⁃*#\s]+/, "")
+    .replace(/[\p{Emoji_Presentation}\p{Extended_Pictographic}]/gu, "")
+    .trim();
+  if (!cleaned || cleaned.length > 40) return null;
+  if (LIST_HEADER_RE.test(cleaned.replace(/\s*:$/, ""))) return null;
+  if (
+    (FOR_THE_RE.test(cleaned) &&
+      (cleaned.endsWith(":") || cleaned.split(/\s+/).length <= 5)) ||
+    SV_FOR_RE.test(cleaned) ||
+    LABEL_RE.test(cleaned)
+  ) {
+    return cleaned.replace(/\s*:$/, "").trim();
+  }
+  return null;
+}
+
+/**
+ * Pull sub-heading lines out of a flat list, recording where each section
+ * starts in the remaining items.
+ */
+export function splitSectionHeaders(lines: string[]): {
+  items: string[];
+  sections: RecipeSection[];
+} {
+  const items: string[] = [];
+  const sections: RecipeSection[] = [];
+  for (const line of lines) {
+    const name = parseSectionHeader(line);
+    if (name) {
+      // Two headers in a row: the earlier one has no items, drop it
+      if (sections.at(-1)?.start === items.length) sections.pop();
+      sections.push({ name, start: items.length });
+    } else {
+      items.push(line);
+    }
+  }
+  // A trailing header with nothing after it isn't a section
+  if (sections.at(-1)?.start === items.length) sections.pop();
+  return { items, sections };
+}
+
+/** Build section markers from the per-row section names stored in the db. */
+export function sectionsFromRows(
+  rows: { section: string | null }[],
+): RecipeSection[] {
+  const sections: RecipeSection[] = [];
+  let current: string | null = null;
+  rows.forEach((row, i) => {
+    if (row.section !== current) {
+      current = row.section;
+      if (current) sections.push({ name: current, start: i });
+    }
+  });
+  return sections;
+}
+
+/** Section name of the item at `index`, or null if it precedes every section. */
+export function sectionNameAt(
+  sections: RecipeSection[] | undefined,
+  index: number,
+): string | null {
+  let name: string | null = null;
+  for (const section of sections ?? []) {
+    if (section.start > index) break;
+    name = section.name;
+  }
+  return name;
+}
+
+export type SectionGroup<T> = {
+  name: string | null;
+  items: { item: T; index: number }[];
+};
+
+/**
+ * Group a flat list by section, keeping each item's index in the flat list
+ * so per-item state (checked, scaling) keeps working across groups.
+ */
+export function groupBySection<T>(
+  items: T[],
+  sections: RecipeSection[] | undefined,
+): SectionGroup<T>[] {
+  const groups: SectionGroup<T>[] = [];
+  items.forEach((item, index) => {
+    const name = sectionNameAt(sections, index);
+    const last = groups.at(-1);
+    if (last && last.name === name) {
+      last.items.push({ item, index });
+    } else {
+      groups.push({ name, items: [{ item, index }] });
+    }
+  });
+  return groups;
+}
@@ -0,0 +1,64 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { and, desc, eq, gt, isNull, or } from "drizzle-orm";
+import { db } from "../db";
+import { recipeShares } from "../db/schema";
+import { isUuid } from "./auth/permissions";
+
+/**
+ * Share tokens are `<share id>.<signature>`. The signature keeps ids from
+ * being guessed or enumerated; the row decides whether the link still
+ * works, so revoking or expiring it needs no key rotation.
+ */
+function signature(shareId: string): string {
+  const secret = process.env.SHARE_TOKEN_SECRET;
+  if (!secret) throw new Error("SHARE_TOKEN_SECRET is not set");
+  return createHmac("sha256", secret).update(shareId).digest("base64url");
+}
+
+/**
+ * Links can only be signed with SHARE_TOKEN_SECRET set; without it the
+ * share controls are left out rather than failing the page.
+ */
+export function sharingEnabled(): boolean {
+  return !!process.env.SHARE_TOKEN_SECRET;
+}
+
+export function shareToken(shareId: string): string {
+  return `${shareId}.${signature(shareId)}`;
+}
+
+/** The share id in a token, or null when the token wasn't signed by us. */
+function verifyShareToken(token: string): string | null {
+  const [shareId, sig] = token.split(".");
+  if (!isUuid(shareId) || !sig || !sharingEnabled()) return null;
+  const expected = Buffer.from(signature(shareId));
+  const actual = Buffer.from(sig);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return shareId;
+}
+
+function activeShare(now: Date) {
+  return and(
+    isNull(recipeShares.revokedAt),
+    or(isNull(recipeShares.expiresAt), gt(recipeShares.expiresAt, now)),
+  );
+}
+
+/** The share a token points to, unless it was revoked or has expired. */
+export async function findShare(token: string) {
+  const shareId = verifyShareToken(token);
+  if (!shareId) return undefined;
+  return db.query.recipeShares.findFirst({
+    where: and(eq(recipeShares.id, shareId), activeShare(new Date())),
+  });
+}
+
+/** Links to the recipe that still work, newest first. */
+export async function activeShares(recipeId: string) {
+  return db.query.recipeShares.findMany({
+    where: and(eq(recipeShares.recipeId, recipeId), activeShare(new Date())),
+    orderBy: [desc(recipeShares.createdAt)],
+  });
+}
@@ -0,0 +1,202 @@
+import type { SQL } from "drizzle-orm";
+import { asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { recipes, tagAliases, tagParents } from "../db/schema";
+import type { RevisionAuthor } from "./revisions";
+import { ensureBaseRevisions, recordRevisions } from "./revisions";
+import { refreshSearchVectors } from "./search";
+
+export const MAX_TAG = 50;
+
+/** Tags are compared, aliased and nested case-insensitively. */
+export function tagKey(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Tags as they should be stored: trimmed, aliases replaced by the tag they
+ * stand for, and without case-insensitive duplicates.
+ */
+export async function canonicalTags(tags: string[]): Promise<string[]> {
+  const trimmed = tags.map((t) => t.trim()).filter(Boolean);
+  if (trimmed.length === 0) return [];
+  const aliases = await db
+    .select({ alias: tagAliases.alias, tag: tagAliases.tag })
+    .from(tagAliases)
+    .where(inArray(tagAliases.alias, trimmed.map(tagKey)));
+  const byAlias = new Map(aliases.map((a) => [a.alias, a.tag]));
+
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of trimmed) {
+    const canonical = byAlias.get(tagKey(tag)) ?? tag;
+    if (seen.has(tagKey(canonical))) continue;
+    seen.add(tagKey(canonical));
+    result.push(canonical);
+  }
+  return result;
+}
+
+/**
+ * Keys of `tag` and every tag nested under it, for filtering. UNION stops
+ * the recursion should the hierarchy ever contain a cycle.
+ */
+export function tagWithDescendants(tag: string): SQL {
+  return sql`with recursive descendants(name) as (
+    select ${tagKey(tag)}::text
+    union
+    select ${tagParents.tag} from ${tagParents}
+    inner join descendants on ${tagParents.parent} = descendants.name
+  ) select name from descendants`;
+}
+
+export type TagUsage = { tag: string; count: number };
+
+/** Every spelling in use with how many recipes have it, across all users. */
+export async function tagUsage(): Promise<TagUsage[]> {
+  const rows = await db.execute<{ tag: string; count: number }>(sql`
+    select t.tag, count(*)::int as count
+    from ${recipes} cross join lateral unnest(${recipes.tags}) as t(tag)
+    group by t.tag
+    order by lower(t.tag), t.tag
+  `);
+  return rows.rows;
+}
+
+export async function tagHierarchy() {
+  return db.select().from(tagParents).orderBy(asc(tagParents.tag));
+}
+
+export async function tagAliasList() {
+  return db.select().from(tagAliases).orderBy(asc(tagAliases.alias));
+}
+
+/**
+ * Replace every tag in `sources` (any case) with `target` on all recipes,
+ * in one update, and return how many recipes changed. Sources spelled
+ * differently from the target become its aliases so later imports land on
+ * the target too; aliases and nesting that pointed at them move over.
+ * All of it happens in one transaction, so a failure merges nothing.
+ */
+export async function mergeTags(
+  sources: string[],
+  target: string,
+  author: RevisionAuthor,
+): Promise<number> {
+  const targetKey = tagKey(target);
+  const keys = [...new Set(sources.map(tagKey))].filter(Boolean);
+  if (keys.length === 0) return 0;
+  const keyArray = sql`array[${sql.join(
+    keys.map((k) => sql`${k}`),
+    sql`, `,
+  )}]::text[]`;
+  const hasSource = sql`exists (
+    select 1 from unnest(${recipes.tags}) as t(tag) where lower(t.tag) = any(${keyArray})
+  )`;
+
+  const summary =
+    keys.length === 1
+      ? `Renamed tag ${sources[0].trim()} to ${target}`
+      : `Merged tags into ${target}`;
+
+  return db.transaction(async (tx) => {
+    const affected = await tx
+      .select({ id: recipes.id })
+      .from(recipes)
+      .where(hasSource);
+    const ids = affected.map((r) => r.id);
+    await ensureBaseRevisions(ids, tx);
+
+    // Keeps each recipe's tag order and drops duplicates the merge creates.
+    // updatedAt is left alone: forks get the same merge, so they shouldn't
+    // be told their original changed
+    if (ids.length > 0) {
+      await tx
+        .update(recipes)
+        .set({
+          tags: sql`(
+          select coalesce(array_agg(deduped.tag order by deduped.pos), '{}')
+          from (
+            select distinct on (lower(mapped.tag)) mapped.tag, mapped.pos
+            from (
+              select
+                case when lower(t.tag) = any(${keyArray}) then ${target} else t.tag end as tag,
+                t.pos
+              from unnest(${recipes.tags}) with ordinality as t(tag, pos)
+            ) as mapped
+            order by lower(mapped.tag), mapped.pos
+          ) as deduped
+        )`,
+        })
+        .where(inArray(recipes.id, ids));
+      await refreshSearchVectors(ids, tx);
+    }
+
+    const renamed = keys.filter((k) => k !== targetKey);
+    if (renamed.length > 0) {
+      await tx
+        .update(tagAliases)
+        .set({ tag: target })
+        .where(inArray(sql`lower(${tagAliases.tag})`, renamed));
+      await tx
+        .insert(tagAliases)
+        .values(renamed.map((alias) => ({ alias, tag: target })))
+        .onConflictDoUpdate({
+          target: tagAliases.alias,
+          set: { tag: target },
+        });
+      // Children of a merged tag now sit under the target; a merged tag's
+      // own place in the hierarchy goes unless the target has none
+      await tx
+        .update(tagParents)
+        .set({ parent: targetKey })
+        .where(inArray(tagParents.parent, renamed));
+      const [targetParent] = await tx
+        .select()
+        .from(tagParents)
+        .where(eq(tagParents.tag, targetKey));
+      const [sourceParent] = await tx
+        .select()
+        .from(tagParents)
+        .where(inArray(tagParents.tag, renamed));
+      await tx.delete(tagParents).where(inArray(tagParents.tag, renamed));
+      if (!targetParent && sourceParent && sourceParent.parent !== targetKey) {
+        await tx
+          .insert(tagParents)
+          .values({ tag: targetKey, parent: sourceParent.parent });
+      }
+      // Nothing may end up nested under itself
+      await tx.delete(tagParents).where(eq(tagParents.tag, tagParents.parent));
+    }
+    // Aliases never name a tag in use; the target is one now
+    await tx.delete(tagAliases).where(eq(tagAliases.alias, targetKey));
+    await recordRevisions(ids, author, summary, tx);
+    return ids.length;
+  });
+}
+
+/**
+ * Nest `tag` under `parent`, or take it out of the hierarchy with null.
+ * Returns an error message when that would put a tag under itself.
+ */
+export async function setTagParent(
+  tag: string,
+  parent: string | null,
+): Promise<string | null> {
+  const key = tagKey(tag);
+  if (!parent) {
+    await db.delete(tagParents).where(eq(tagParents.tag, key));
+    return null;
+  }
+  const parentKey = tagKey(parent);
+  const below = await db.execute<{ name: string }>(tagWithDescendants(key));
+  if (below.rows.some((row) => row.name === parentKey)) {
+    return `"${parent.trim()}" is already under "${tag.trim()}".`;
+  }
+
+  await db
+    .insert(tagParents)
+    .values({ tag: key, parent: parentKey })
+    .onConflictDoUpdate({ target: tagParents.tag, set: { parent: parentKey } });
+  return null;
+}
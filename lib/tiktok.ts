@@ -0,0 +1,217 @@
+import * as cheerio from "cheerio";
+import { chromium } from "playwright";
+
+export interface TikTokPostData {
+  caption: string;
+  imageData: Buffer | null;
+}
+
+/** Caption and cover URL as found in an embed page or oEmbed response. */
+export interface TikTokEmbedData {
+  caption: string | null;
+  coverUrl: string | null;
+}
+
+const OEMBED_ENDPOINT = "https://www.tiktok.com/oembed";
+
+export function isTikTokUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname;
+    return hostname === "tiktok.com" || hostname.endsWith(".tiktok.com");
+  } catch {
+    return false;
+  }
+}
+
+export function getTikTokVideoId(url: string): string | null {
+  try {
+    const match = new URL(url).pathname.match(
+      /\/(?:video|v|embed(?:\/v2)?)\/(\d+)/,
+    );
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+function toEmbedUrl(videoId: string): string {
+  return `https://www.tiktok.com/embed/v2/${videoId}`;
+}
+
+function pickCover(item: Record<string, unknown>): string | null {
+  for (const key of ["originCover", "cover", "dynamicCover"]) {
+    const value = item[key];
+    if (typeof value === "string" && value.startsWith("http")) return value;
+  }
+  const covers = item.covers;
+  if (Array.isArray(covers) && typeof covers[0] === "string") {
+    return covers[0];
+  }
+  return null;
+}
+
+/**
+ * Walk the JSON state TikTok embeds in the page and return the first object
+ * that looks like a video item (has a caption under `desc` or `text`).
+ */
+function findVideoItem(
+  node: unknown,
+  depth = 0,
+): { caption: string; coverUrl: string | null } | null {
+  if (depth > 12 || typeof node !== "object" || node === null) return null;
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findVideoItem(child, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  const obj = node as Record<string, unknown>;
+  const caption =
+    typeof obj.desc === "string"
+      ? obj.desc
+      : typeof obj.text === "string" && ("covers" in obj || "video" in obj)
+        ? obj.text
+        : null;
+  if (caption?.trim()) {
+    const video =
+      typeof obj.video === "object" && obj.video !== null
+        ? (obj.video as Record<string, unknown>)
+        : obj;
+    // Older embeds keep the covers beside the video, not in it
+    return {
+      caption: caption.trim(),
+      coverUrl: pickCover(video) ?? pickCover(obj),
+    };
+  }
+
+  for (const value of Object.values(obj)) {
+    const found = findVideoItem(value, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Extract caption and cover image URL from the HTML of a TikTok embed page.
+ * Pure so it can run against saved HTML without a browser or network.
+ */
+export function parseTikTokEmbedHtml(html: string): TikTokEmbedData {
+  const $ = cheerio.load(html);
+
+  for (const el of $('script[type="application/json"], script[id]').toArray()) {
+    try {
+      const found = findVideoItem(JSON.parse($(el).html() ?? ""));
+      if (found) return found;
+    } catch {
+      // not JSON state, keep looking
+    }
+  }
+
+  // DOM fallback for embed layouts without hydration state
+  const descEl = $(
+    '[data-e2e="video-desc"], [class*="Caption"], [class*="desc"]',
+  )
+    .first()
+    .text()
+    .trim();
+  const ogDesc = $('meta[property="og:description"]').attr("content")?.trim();
+  const ogImage = $('meta[property="og:image"]').attr("content")?.trim();
+  const poster = $("video[poster]").attr("poster")?.trim();
+
+  return {
+    caption: descEl || ogDesc || null,
+    coverUrl: ogImage || poster || null,
+  };
+}
+
+/** Map a TikTok oEmbed JSON response to caption and cover URL. */
+export function parseTikTokOEmbed(json: unknown): TikTokEmbedData {
+  if (typeof json !== "object" || json === null) {
+    return { caption: null, coverUrl: null };
+  }
+  const obj = json as Record<string, unknown>;
+  return {
+    caption:
+      typeof obj.title === "string" && obj.title.trim()
+        ? obj.title.trim()
+        : null,
+    coverUrl: typeof obj.thumbnail_url === "string" ? obj.thumbnail_url : null,
+  };
+}
+
+async function fetchOEmbed(
+  url: string,
+): Promise<TikTokEmbedData & { videoId: string | null }> {
+  try {
+    const res = await fetch(
+      `${OEMBED_ENDPOINT}?url=${encodeURIComponent(url)}`,
+    );
+    if (!res.ok) return { caption: null, coverUrl: null, videoId: null };
+    const json = (await res.json()) as Record<string, unknown>;
+    const html = typeof json.html === "string" ? json.html : "";
+    const idMatch = html.match(/data-video-id="(\d+)"/);
+    return { ...parseTikTokOEmbed(json), videoId: idMatch?.[1] ?? null };
+  } catch {
+    return { caption: null, coverUrl: null, videoId: null };
+  }
+}
+
+export async function extractTikTokPost(url: string): Promise<TikTokPostData> {
+  // oEmbed also resolves short vm.tiktok.com links to a video id
+  const oembed = await fetchOEmbed(url);
+  const videoId = getTikTokVideoId(url) ?? oembed.videoId;
+  if (!videoId) {
+    throw new Error("Invalid TikTok URL. Expected a video link.");
+  }
+
+  const browser = await chromium.launch({ headless: true });
+  try {
+    const page = await browser.newPage();
+    await page.goto(toEmbedUrl(videoId), {
+      waitUntil: "networkidle",
+      timeout: 15_000,
+    });
+
+    const embed = parseTikTokEmbedHtml(await page.content());
+    const caption = embed.caption ?? oembed.caption;
+    if (!caption) {
+      throw new Error("Could not extract caption from TikTok video.");
+    }
+
+    // Fetch the cover from inside the page so TikTok's CDN sees the
+    // cookies and referrer it expects.
+    let imageData: Buffer | null = null;
+    const coverUrl = embed.coverUrl ?? oembed.coverUrl;
+    if (coverUrl) {
+      const fetched = await page.evaluate(async (src: string) => {
+        try {
+          const resp = await fetch(src);
+          if (!resp.ok) return null;
+          const bytes = new Uint8Array(await resp.arrayBuffer());
+          let binary = "";
+          for (let i = 0; i < bytes.length; i++) {
+            binary += String.fromCharCode(bytes[i]);
+          }
+          return btoa(binary);
+        } catch {
+          return null;
+        }
+      }, coverUrl);
+      if (fetched) imageData = Buffer.from(fetched, "base64");
+    }
+
+    // Fallback: screenshot the player's poster frame
+    if (!imageData) {
+      const videoEl = await page.$("video, [class*='Poster'], img");
+      if (videoEl) {
+        imageData = await videoEl.screenshot({ type: "png" });
+      }
+    }
+
+    return { caption, imageData };
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,348 @@
+import type { AmountFormatter, ParsedIngredient } from "./ingredients";
+import {
+  formatParts,
+  formatQuantity,
+  NUMBER_SRC,
+  normalizeUnit,
+  parseQuantity,
+  scaleParsedIngredient,
+  UNIT_SRC,
+  unitLabel,
+} from "./ingredients";
+
+/**
+ * Which measuring system to show recipes in. "original" leaves units as
+ * written. Kept free of server imports so the recipe card can convert.
+ */
+export const UNIT_SYSTEMS = ["original", "metric", "us"] as const;
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  original: "Original",
+  metric: "Metric",
+  us: "US",
+};
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+export type UnitPreferences = {
+  unitSystem: UnitSystem;
+  /** Convert cups of dry goods to grams and back using densities. */
+  byWeight: boolean;
+};
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  unitSystem: "original",
+  byWeight: true,
+};
+
+const ML: Record<string, number> = {
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  krm: 1,
+  tsk: 5,
+  msk: 15,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  cup: 236.588,
+  "fl oz": 29.5735,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+};
+
+const GRAMS: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+export const WEIGHT_UNITS = Object.keys(GRAMS);
+
+/** Grams in one of `unit`, or null when it isn't a weight. */
+export function gramsPerUnit(unit: string | null): number | null {
+  return (unit && GRAMS[unit]) || null;
+}
+
+// Teaspoons and tablespoons are everyday measures in metric kitchens too,
+// so only the units a cook elsewhere couldn't measure get converted
+const US_ONLY = new Set([
+  "cup",
+  "fl oz",
+  "pint",
+  "quart",
+  "gallon",
+  "oz",
+  "lb",
+]);
+const METRIC_ONLY = new Set([
+  "ml",
+  "cl",
+  "dl",
+  "l",
+  "krm",
+  "tsk",
+  "msk",
+  "g",
+  "kg",
+]);
+
+/**
+ * Grams per millilitre for dry goods usually measured by the cup. The
+ * first pattern that matches the ingredient name wins, so more specific
+ * names come first.
+ */
+const DENSITIES: [RegExp, number][] = [
+  [/\b(?:powdered|icing|confectioners'?) sugar\b/, 0.51],
+  [/\bbrown sugar\b/, 0.93],
+  [/\bsugar\b/, 0.85],
+  [/\b(?:whole wheat|wholemeal) flour\b/, 0.51],
+  [/\bflour\b/, 0.53],
+  [/\bcocoa\b/, 0.36],
+  [/\bbutter\b/, 0.96],
+  [/\b(?:rolled )?oats\b/, 0.38],
+  [/\brice\b/, 0.78],
+  [/\bhoney\b/, 1.44],
+  [/\bmaple syrup\b/, 1.37],
+  [/\bchocolate chips\b/, 0.72],
+  [/\bparmesan\b/, 0.42],
+];
+
+export function ingredientDensity(name: string): number | null {
+  const lower = name.toLowerCase();
+  return DENSITIES.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+type Measure = { min: number; max: number | null; unit: string };
+
+/**
+ * A quantity in the target system, in the base unit the formatter then
+ * picks a readable unit from: ml or g for metric, tsp or oz for US. Null
+ * when the unit is already right or can't be converted.
+ */
+function convertMeasure(
+  measure: Measure,
+  system: UnitSystem,
+  density: number | null,
+): Measure | null {
+  const { unit } = measure;
+  const convert = (to: number) => ({
+    min: measure.min * to,
+    max: measure.max === null ? null : measure.max * to,
+  });
+
+  // Grams and millilitres are rounded and sized like converted amounts,
+  // but decilitres and spoon measures read better as written
+  if (system === "metric" && (unit === "kg" || unit === "l")) {
+    return { ...convert(1000), unit: unit === "kg" ? "g" : "ml" };
+  }
+  if (system === "metric" && US_ONLY.has(unit)) {
+    if (unit in GRAMS) return { ...convert(GRAMS[unit]), unit: "g" };
+    return density
+      ? { ...convert(ML[unit] * density), unit: "g" }
+      : { ...convert(ML[unit]), unit: "ml" };
+  }
+  if (system === "us" && METRIC_ONLY.has(unit)) {
+    if (unit in ML) return { ...convert(ML[unit] / ML.tsp), unit: "tsp" };
+    return density
+      ? { ...convert(GRAMS[unit] / density / ML.tsp), unit: "tsp" }
+      : { ...convert(GRAMS[unit] / GRAMS.oz), unit: "oz" };
+  }
+  return null;
+}
+
+/** Round to the nearest multiple of `step`, or third, never down to zero. */
+function roundTo(value: number, step: number, thirds = false): number {
+  let rounded = Math.round(value / step) * step;
+  if (thirds) {
+    const third = Math.round(value * 3) / 3;
+    if (Math.abs(third - value) < Math.abs(rounded - value)) rounded = third;
+  }
+  return rounded > 0 ? rounded : step;
+}
+
+type DisplayUnit = {
+  unit: string;
+  /** Size in the base unit. */
+  size: number;
+  /** Smallest amount, in the base unit, shown in this unit. */
+  from: number;
+  round: (value: number) => string;
+};
+
+function decimal(step: number) {
+  return (value: number) => String(Number(roundTo(value, step).toFixed(2)));
+}
+
+function fraction(step: number) {
+  return (value: number) =>
+    formatQuantity(roundTo(value, step, step <= 1 / 4), null);
+}
+
+function metric(small: string, large: string): DisplayUnit[] {
+  return [
+    { unit: large, size: 1000, from: 1000, round: decimal(0.05) },
+    { unit: small, size: 1, from: 100, round: decimal(10) },
+    { unit: small, size: 1, from: 10, round: decimal(5) },
+    { unit: small, size: 1, from: 1, round: decimal(1) },
+    { unit: small, size: 1, from: 0, round: decimal(0.1) },
+  ];
+}
+
+// Largest unit first; each base unit's amounts use the first that fits
+const DISPLAY_UNITS: Record<string, DisplayUnit[]> = {
+  g: metric("g", "kg"),
+  ml: metric("ml", "l"),
+  oz: [
+    { unit: "lb", size: 16, from: 16, round: fraction(1 / 4) },
+    { unit: "oz", size: 1, from: 4, round: fraction(1) },
+    { unit: "oz", size: 1, from: 0, round: fraction(1 / 4) },
+  ],
+  tsp: [
+    { unit: "quart", size: 192, from: 192, round: fraction(1 / 4) },
+    { unit: "cup", size: 48, from: 12, round: fraction(1 / 4) },
+    { unit: "tbsp", size: 3, from: 3, round: fraction(1 / 2) },
+    { unit: "tsp", size: 1, from: 0, round: fraction(1 / 8) },
+  ],
+};
+
+/**
+ * Quantity and unit for display. Amounts in a base unit are given the
+ * unit that reads best, so 1000 ml becomes 1 l and 48 tsp 1 cup, and are
+ * rounded to what a kitchen can measure; anything else is shown as is.
+ */
+export const formatConvertedAmount: AmountFormatter = (min, max, unit) => {
+  const choices = unit ? DISPLAY_UNITS[unit] : undefined;
+  if (!choices) {
+    return [formatQuantity(min, max), unit && unitLabel(unit, max ?? min)]
+      .filter(Boolean)
+      .join(" ");
+  }
+
+  // Ranges stay in the unit of their lower bound: "900–1350 g"
+  const display =
+    choices.find((c) => min >= c.from) ?? choices[choices.length - 1];
+  const low = display.round(min / display.size);
+  const high =
+    max !== null && max !== min ? display.round(max / display.size) : null;
+  const quantity = high && high !== low ? `${low}–${high}` : low;
+  const plural = Number.parseFloat(high ?? low) > 1 || /\d\D/.test(quantity);
+  return `${quantity} ${unitLabel(display.unit, plural ? 2 : 1)}`;
+};
+
+/**
+ * The ingredient with its quantity in `system`, ready for scaling and
+ * display with formatConvertedAmount. Notes are converted as free text,
+ * so "(14 oz) can" follows along.
+ */
+export function convertIngredient(
+  ingredient: ParsedIngredient,
+  system: UnitSystem,
+  byWeight: boolean,
+): ParsedIngredient {
+  if (system === "original") return ingredient;
+  const note = ingredient.note && convertText(ingredient.note, system);
+  if (ingredient.quantityMin === null || !ingredient.unit) {
+    return { ...ingredient, note };
+  }
+  const converted = convertMeasure(
+    {
+      min: ingredient.quantityMin,
+      max: ingredient.quantityMax,
+      unit: ingredient.unit,
+    },
+    system,
+    byWeight ? ingredientDensity(ingredient.name) : null,
+  );
+  if (!converted) return { ...ingredient, note };
+  return {
+    ...ingredient,
+    quantityMin: converted.min,
+    quantityMax: converted.max,
+    unit: converted.unit,
+    note,
+  };
+}
+
+/**
+ * Text for an ingredient scaled by `factor` and shown in `system`. Lines
+ * the conversion leaves alone keep their wording, as with plain scaling.
+ */
+export function convertedIngredientText(
+  ingredient: ParsedIngredient,
+  factor: number,
+  { unitSystem, byWeight }: UnitPreferences,
+): string {
+  if (unitSystem === "original") {
+    return scaleParsedIngredient(ingredient, factor);
+  }
+  const converted = convertIngredient(ingredient, unitSystem, byWeight);
+  if (converted.quantityMin === null || converted.unit === ingredient.unit) {
+    return convertText(scaleParsedIngredient(ingredient, factor), unitSystem);
+  }
+  return formatParts(
+    converted,
+    converted.quantityMin * factor,
+    converted.quantityMax !== null ? converted.quantityMax * factor : null,
+    converted.note,
+    formatConvertedAmount,
+  );
+}
+
+// "350°F", "180 °C", "400 degrees F", "200C"
+const TEMPERATURE_RE =
+  /\b(\d{2,3})(?:\s*[°º]\s*|\s*degrees?\s+|(?<=\d{3}))([CF])(?:ahrenheit|elsius)?\b/gi;
+
+const QUANTITY_IN_TEXT_RE = new RegExp(
+  `(?<![\\w.,/])(${NUMBER_SRC})(?:\\s*(?:-|–|to)\\s*(${NUMBER_SRC}))?\\s*(${UNIT_SRC})\\.?(?![\\w])`,
+  "gi",
+);
+
+/** Round oven temperatures to what an oven dial shows. */
+function roundTemperature(value: number, unit: "C" | "F"): number {
+  const oven = unit === "F" ? value >= 300 : value >= 150;
+  if (!oven) return Math.round(value);
+  return roundTo(value, unit === "F" ? 25 : 10);
+}
+
+/**
+ * Convert temperatures and measured amounts written into free text, such
+ * as instructions ("bake at 350°F", "whisk in 2 cups of milk").
+ */
+export function convertText(text: string, system: UnitSystem): string {
+  if (system === "original") return text;
+  const target = system === "metric" ? "C" : "F";
+
+  return text
+    .replace(TEMPERATURE_RE, (match, degrees: string, scale: string) => {
+      const from = scale.toUpperCase();
+      if (from === target) return match;
+      const value = Number.parseInt(degrees, 10);
+      const converted =
+        target === "C" ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+      return `${roundTemperature(converted, target)}°${target}`;
+    })
+    .replace(
+      QUANTITY_IN_TEXT_RE,
+      (match, first: string, second: string | undefined, spelling: string) => {
+        // "200C" is an oven, not two hundred cups
+        if (spelling.toLowerCase() === "c") return match;
+        const unit = normalizeUnit(spelling.replace(/\.$/, ""));
+        const min = parseQuantity(first);
+        const max = second ? parseQuantity(second) : null;
+        if (!unit || min === null) return match;
+        const converted = convertMeasure({ min, max, unit }, system, null);
+        if (!converted) return match;
+        return formatConvertedAmount(
+          converted.min,
+          converted.max,
+          converted.unit,
+        );
+      },
+    );
+}
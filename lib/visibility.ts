@@ -0,0 +1,19 @@
+/**
+ * Who can see a recipe besides whoever added it. Kept free of server
+ * imports so client components can offer the choice.
+ */
+export const RECIPE_VISIBILITIES = ["private", "household", "public"] as const;
+export type RecipeVisibility = (typeof RECIPE_VISIBILITIES)[number];
+
+/** New recipes stay with whoever added them until they choose to share. */
+export const DEFAULT_VISIBILITY: RecipeVisibility = "private";
+
+export const VISIBILITY_LABELS: Record<RecipeVisibility, string> = {
+  private: "Only me",
+  household: "My household",
+  public: "Everyone",
+};
+
+export function isRecipeVisibility(value: unknown): value is RecipeVisibility {
+  return RECIPE_VISIBILITIES.includes(value as RecipeVisibility);
+}
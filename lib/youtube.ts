@@ -0,0 +1,289 @@
+import type { CheerioAPI } from "cheerio";
+import {
+  ING_HEADER_RE,
+  INS_HEADER_RE,
+  scoreIngredient,
+  scoreInstruction,
+} from "./caption";
+import type { RecipeData } from "./extractors/types";
+
+export interface YouTubeChapter {
+  /** Offset from the start of the video, in seconds. */
+  start: number;
+  title: string;
+}
+
+export interface YouTubeVideoData {
+  videoId: string;
+  title: string;
+  description: string;
+  chapters: YouTubeChapter[];
+  thumbnailUrl: string | null;
+}
+
+const TIMESTAMP_LINE_RE =
+  /^\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*[-–—:|]?\s*(.+)$/;
+
+// Chapters that never hold a cooking step
+const NON_STEP_CHAPTER_RE =
+  /^(intro(duction)?|outro|ending|end|taste\s*test|tasting|final\s+(result|thoughts)|sponsor(ed)?|ad|thanks?( for watching)?|subscribe|bloopers?)\b/i;
+
+const PROMO_RE =
+  /(https?:\/\/|www\.|subscribe|patreon|instagram|tiktok|facebook|merch|affiliate|sponsor|use code|discount)/i;
+
+export function isYouTubeUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname;
+    return (
+      hostname === "youtu.be" ||
+      hostname === "youtube.com" ||
+      hostname.endsWith(".youtube.com")
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function getYouTubeVideoId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname === "youtu.be") {
+      return parsed.pathname.slice(1).split("/")[0] || null;
+    }
+    const v = parsed.searchParams.get("v");
+    if (v) return v;
+    const match = parsed.pathname.match(/\/(?:shorts|embed|live|v)\/([\w-]+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseTimestamp(value: string): number {
+  return value
+    .split(":")
+    .map((part) => Number.parseInt(part, 10))
+    .reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Pull the object literal assigned to `name` out of an inline script, e.g.
+ * `var ytInitialPlayerResponse = {...};`. Scans braces rather than using a
+ * regex because the JSON is large and contains nested braces in strings.
+ */
+function extractAssignedJson(
+  script: string,
+  name: string,
+): Record<string, unknown> | null {
+  const at = script.indexOf(name);
+  if (at < 0) return null;
+  const start = script.indexOf("{", at);
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < script.length; i++) {
+    const ch = script[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) {
+        try {
+          return JSON.parse(script.slice(start, i + 1));
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function findScriptJson(
+  $: CheerioAPI,
+  name: string,
+): Record<string, unknown> | null {
+  for (const el of $("script").toArray()) {
+    const text = $(el).html() ?? "";
+    if (!text.includes(name)) continue;
+    const json = extractAssignedJson(text, name);
+    if (json) return json;
+  }
+  return null;
+}
+
+/** Collect every `chapterRenderer` in ytInitialData, in document order. */
+function collectChapterRenderers(node: unknown, out: YouTubeChapter[]): void {
+  if (typeof node !== "object" || node === null) return;
+  if (Array.isArray(node)) {
+    for (const child of node) collectChapterRenderers(child, out);
+    return;
+  }
+  const obj = node as Record<string, unknown>;
+  const renderer = obj.chapterRenderer as
+    | {
+        title?: { simpleText?: string };
+        timeRangeStartMillis?: number;
+      }
+    | undefined;
+  if (renderer?.title?.simpleText) {
+    out.push({
+      start: Math.round((renderer.timeRangeStartMillis ?? 0) / 1000),
+      title: renderer.title.simpleText.trim(),
+    });
+    return;
+  }
+  for (const value of Object.values(obj)) collectChapterRenderers(value, out);
+}
+
+/**
+ * YouTube builds chapters from timestamp lines in the description, so
+ * those are a reliable fallback when ytInitialData isn't in the page.
+ */
+export function parseDescriptionChapters(
+  description: string,
+): YouTubeChapter[] {
+  const chapters: YouTubeChapter[] = [];
+  for (const line of description.split("\n")) {
+    const m = TIMESTAMP_LINE_RE.exec(line.trim());
+    if (m) chapters.push({ start: parseTimestamp(m[1]), title: m[2].trim() });
+  }
+  // YouTube requires the first chapter to start at 0:00
+  return chapters.length >= 2 && chapters[0].start === 0 ? chapters : [];
+}
+
+/**
+ * Extract title, description, chapters and thumbnail from a watch page.
+ * Pure so it can run against saved HTML without network access.
+ */
+export function parseYouTubeWatchPage(
+  $: CheerioAPI,
+  videoId: string,
+): YouTubeVideoData {
+  const player = findScriptJson($, "ytInitialPlayerResponse");
+  const details = (player?.videoDetails ?? {}) as {
+    title?: string;
+    shortDescription?: string;
+    thumbnail?: { thumbnails?: { url: string; width?: number }[] };
+  };
+
+  const title =
+    details.title?.trim() ||
+    $('meta[property="og:title"]').attr("content")?.trim() ||
+    $("title")
+      .text()
+      .replace(/\s*-\s*YouTube$/, "")
+      .trim();
+
+  // og:description is truncated, so prefer the player response
+  const description =
+    details.shortDescription?.trim() ||
+    $('meta[property="og:description"]').attr("content")?.trim() ||
+    "";
+
+  const rendered: YouTubeChapter[] = [];
+  collectChapterRenderers(findScriptJson($, "ytInitialData"), rendered);
+  const chapters =
+    rendered.length > 0 ? rendered : parseDescriptionChapters(description);
+
+  const thumbnails = [...(details.thumbnail?.thumbnails ?? [])].sort(
+    (a, b) => (b.width ?? 0) - (a.width ?? 0),
+  );
+  const thumbnailUrl =
+    thumbnails[0]?.url ??
+    $('meta[property="og:image"]').attr("content") ??
+    `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+
+  return { videoId, title, description, chapters, thumbnailUrl };
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+function stripBullet(line: string): string {
+  return line
+    .replace(/^[-•·◦▪⁃*]\s*/, "")
+    .replace(/^(?:step\s*)?\d+[.)]\s+/i, "")
+    .trim();
+}
+
+/**
+ * Map a video to RecipeData. The description is split into blank-line
+ * separated blocks and each block is classified with the caption scorers;
+ * chapters become the steps when the description has none.
+ */
+export function youtubeVideoToRecipe(
+  video: YouTubeVideoData,
+  sourceUrl: string,
+): RecipeData {
+  const blocks = video.description
+    .split(/\n\s*\n/)
+    .map((block) =>
+      block
+        .split("\n")
+        .map((l) => l.trim())
+        .filter(Boolean)
+        .filter((l) => !TIMESTAMP_LINE_RE.test(l) && !l.startsWith("#")),
+    )
+    .filter((lines) => lines.length > 0);
+
+  const descriptionLines: string[] = [];
+  const ingredients: string[] = [];
+  const instructions: string[] = [];
+
+  for (const block of blocks) {
+    let lines = block;
+    let kind: "ingredients" | "instructions" | null = null;
+
+    // A header line decides the block outright
+    if (ING_HEADER_RE.test(lines[0])) {
+      kind = "ingredients";
+      lines = lines.slice(1);
+    } else if (INS_HEADER_RE.test(lines[0])) {
+      kind = "instructions";
+      lines = lines.slice(1);
+    } else {
+      const ing = average(lines.map(scoreIngredient));
+      const ins = average(lines.map(scoreInstruction));
+      if (ing >= 0.35 && ing > ins) kind = "ingredients";
+      else if (ins >= 0.3 && ins > ing) kind = "instructions";
+    }
+
+    if (kind === "ingredients") {
+      ingredients.push(...lines.map(stripBullet).filter(Boolean));
+    } else if (kind === "instructions") {
+      instructions.push(...lines.map(stripBullet).filter(Boolean));
+    } else if (
+      ingredients.length === 0 &&
+      !lines.some((l) => PROMO_RE.test(l))
+    ) {
+      descriptionLines.push(...lines);
+    }
+  }
+
+  if (instructions.length === 0) {
+    for (const chapter of video.chapters) {
+      if (!NON_STEP_CHAPTER_RE.test(chapter.title)) {
+        instructions.push(chapter.title);
+      }
+    }
+  }
+
+  return {
+    title: video.title || "YouTube Recipe",
+    description: descriptionLines.join("\n") || undefined,
+    ingredients,
+    instructions,
+    images: [],
+    sourceUrl,
+  };
+}
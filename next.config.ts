@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Room for a 10 MB image upload from the recipe editor
+      bodySizeLimit: "11mb",
+    },
+  },
 };
 
 export default nextConfig;
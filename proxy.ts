@@ -6,8 +6,10 @@ const authMiddleware = auth.middleware({ loginUrl: "/auth/sign-in" });
 
 export default async function proxy(request: NextRequest) {
 	// Server actions use a special header — let them through
-	// to avoid breaking the RSC response protocol
-	if (request.headers.get("Next-Action")) {
+	// to avoid breaking the RSC response protocol. Actions are always
+	// POSTs; anyone can set the header, so each action checks the session
+	// itself (lib/auth/permissions.ts)
+	if (request.method === "POST" && request.headers.get("Next-Action")) {
 		return NextResponse.next();
 	}
 	return authMiddleware(request);
@@ -19,8 +21,9 @@ export const config = {
 		 * Protect all routes except:
 		 * - /auth/* (sign-in, sign-up, etc.)
 		 * - /api/auth/* (auth API handler)
+		 * - /s/* (public share links; the signed token is the check)
 		 * - /_next/static, /_next/image, favicon.ico, public assets
 		 */
-		"/((?!auth|api/auth|api/instagram|_next/static|_next/image|favicon\\.ico|recipe-images).*)",
+		"/((?!auth|api/auth|api/instagram|_next/static|_next/image|favicon\\.ico|recipe-images|s/).*)",
 	],
 };
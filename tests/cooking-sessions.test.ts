@@ -0,0 +1,77 @@
+import { eq } from "drizzle-orm";
+import { describe, expect, it, vi } from "vitest";
+import { db } from "../db";
+import { cookingSessions, recipes } from "../db/schema";
+import {
+  cookingSession,
+  deleteExpiredCookingSessions,
+  saveCookingSession,
+} from "../lib/cooking-sessions";
+import { forkRecipe } from "../lib/forks";
+
+vi.mock("../db", async () => ({
+  db: await (await import("./helpers/db")).createTestDb(),
+}));
+
+vi.mock("../lib/auth/server", () => ({
+  auth: { getSession: async () => ({ data: null }) },
+}));
+
+const USER = "cook";
+
+const progress = {
+  checkedIngredients: [0, 2],
+  completedSteps: [0],
+  currentStep: 1,
+  portions: null,
+};
+
+async function seedRecipe(): Promise<string> {
+  const [recipe] = await db
+    .insert(recipes)
+    .values({
+      title: "Bread",
+      sourceUrl: "https://example.com/bread",
+      rawCaption: "",
+      createdById: "baker",
+    })
+    .returning({ id: recipes.id });
+  return recipe.id;
+}
+
+async function sessionRows() {
+  return db.query.cookingSessions.findMany({
+    where: eq(cookingSessions.userId, USER),
+  });
+}
+
+describe("saveCookingSession", () => {
+  it("leaves expired sessions for deleteExpiredCookingSessions", async () => {
+    const stale = await seedRecipe();
+    const current = await seedRecipe();
+    await db.insert(cookingSessions).values({
+      userId: USER,
+      recipeId: stale,
+      ...progress,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await saveCookingSession(USER, current, progress);
+    expect(await cookingSession(USER, stale)).toBeNull();
+    expect(await sessionRows()).toHaveLength(2);
+
+    await deleteExpiredCookingSessions(USER);
+    expect((await sessionRows()).map((row) => row.recipeId)).toEqual([current]);
+  });
+});
+
+describe("forkRecipe", () => {
+  it("moves the user's progress to their version", async () => {
+    const original = await seedRecipe();
+    await saveCookingSession(USER, original, progress);
+
+    const fork = await forkRecipe(original, USER, USER);
+    expect(await cookingSession(USER, original)).toBeNull();
+    expect(await cookingSession(USER, fork)).toMatchObject(progress);
+  });
+});
@@ -0,0 +1,19 @@
+import { PGlite } from "@electric-sql/pglite";
+import { pushSchema } from "drizzle-kit/api";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "../../db/schema";
+
+/**
+ * An in-memory Postgres with the current schema, to stand in for `db`:
+ *
+ *   vi.mock("../db", async () => ({
+ *     db: await (await import("./helpers/db")).createTestDb(),
+ *   }));
+ */
+export async function createTestDb() {
+  const db = drizzle({ client: new PGlite(), schema });
+  // Built from db/schema.ts; the migration history doesn't replay from empty
+  const { apply } = await pushSchema(schema, db as never);
+  await apply();
+  return db;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { importRouteHandler } from "../lib/import-route";
+
+function post(body: string): Request {
+  return new Request("http://localhost/api/test", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body,
+  });
+}
+
+function route(extract = vi.fn(async (url: string) => ({ url }))) {
+  return {
+    extract,
+    handler: importRouteHandler({
+      source: "Example",
+      isSourceUrl: (url) => url.startsWith("https://example.com/"),
+      extract,
+    }),
+  };
+}
+
+describe("importRouteHandler", () => {
+  it("rejects bodies that aren't JSON with a 400", async () => {
+    const { handler, extract } = route();
+    const response = await handler(post("{not json"));
+    expect(response.status).toBe(400);
+    expect(extract).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["no url", "{}"],
+    ["a non-string url", '{"url": 42}'],
+    ["a JSON array", "[]"],
+    ["another site", '{"url": "https://evil.example/post"}'],
+    [
+      "an oversized url",
+      JSON.stringify({ url: `https://example.com/${"a".repeat(3000)}` }),
+    ],
+  ])("rejects %s with a 400", async (_, body) => {
+    const { handler, extract } = route();
+    const response = await handler(post(body));
+    expect(response.status).toBe(400);
+    expect(extract).not.toHaveBeenCalled();
+  });
+
+  it("returns what the extractor found for a trimmed url", async () => {
+    const { handler, extract } = route();
+    const response = await handler(
+      post('{"url": "  https://example.com/p/1  "}'),
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ url: "https://example.com/p/1" });
+    expect(extract).toHaveBeenCalledWith("https://example.com/p/1");
+  });
+
+  it("reports a failed extraction as a 500 with its message", async () => {
+    const { handler } = route(
+      vi.fn(async () => {
+        throw new Error("Post is private.");
+      }),
+    );
+    const response = await handler(post('{"url": "https://example.com/p/1"}'));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Post is private." });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import {
+  combineIngredients,
+  parseIngredientLine,
+  scaleParsedIngredient,
+} from "../lib/ingredients";
+
+function parsed(line: string) {
+  const { text: _, ...parts } = parseIngredientLine(line);
+  return parts;
+}
+
+function scaled(line: string, factor: number): string {
+  return scaleParsedIngredient(parseIngredientLine(line), factor);
+}
+
+describe("parseIngredientLine", () => {
+  it.each([
+    [
+      "2-3 cloves garlic, minced",
+      {
+        quantityMin: 2,
+        quantityMax: 3,
+        unit: "clove",
+        name: "garlic",
+        note: "minced",
+      },
+    ],
+    [
+      "2 to 3 tbsp olive oil",
+      {
+        quantityMin: 2,
+        quantityMax: 3,
+        unit: "tbsp",
+        name: "olive oil",
+        note: null,
+      },
+    ],
+    [
+      "1 1/2 cups flour",
+      {
+        quantityMin: 1.5,
+        quantityMax: 1.5,
+        unit: "cup",
+        name: "flour",
+        note: null,
+      },
+    ],
+    [
+      "¾ tsp salt",
+      {
+        quantityMin: 0.75,
+        quantityMax: 0.75,
+        unit: "tsp",
+        name: "salt",
+        note: null,
+      },
+    ],
+    [
+      "1½ dl mjölk",
+      {
+        quantityMin: 1.5,
+        quantityMax: 1.5,
+        unit: "dl",
+        name: "mjölk",
+        note: null,
+      },
+    ],
+    [
+      "1,5 kg potatis",
+      {
+        quantityMin: 1.5,
+        quantityMax: 1.5,
+        unit: "kg",
+        name: "potatis",
+        note: null,
+      },
+    ],
+    [
+      "2 msk smör",
+      { quantityMin: 2, quantityMax: 2, unit: "msk", name: "smör", note: null },
+    ],
+    [
+      "3 klyftor vitlök",
+      {
+        quantityMin: 3,
+        quantityMax: 3,
+        unit: "clove",
+        name: "vitlök",
+        note: null,
+      },
+    ],
+    [
+      "2–3 st äpplen",
+      {
+        quantityMin: 2,
+        quantityMax: 3,
+        unit: "st",
+        name: "äpplen",
+        note: null,
+      },
+    ],
+    [
+      "an onion, diced",
+      {
+        quantityMin: 1,
+        quantityMax: 1,
+        unit: null,
+        name: "onion",
+        note: "diced",
+      },
+    ],
+    [
+      "ett ägg",
+      { quantityMin: 1, quantityMax: 1, unit: null, name: "ägg", note: null },
+    ],
+    [
+      "a 400 g can chopped tomatoes",
+      {
+        quantityMin: 1,
+        quantityMax: 1,
+        unit: "can",
+        name: "chopped tomatoes",
+        note: "400 g",
+      },
+    ],
+    [
+      "1 (14 oz) can coconut milk",
+      {
+        quantityMin: 1,
+        quantityMax: 1,
+        unit: "can",
+        name: "coconut milk",
+        note: "14 oz",
+      },
+    ],
+    [
+      "Salt, to taste",
+      {
+        quantityMin: null,
+        quantityMax: null,
+        unit: null,
+        name: "Salt",
+        note: "to taste",
+      },
+    ],
+    [
+      "juice of 1 lemon",
+      {
+        quantityMin: null,
+        quantityMax: null,
+        unit: null,
+        name: "juice of 1 lemon",
+        note: null,
+      },
+    ],
+  ])("reads %s", (line, expected) => {
+    expect(parsed(line)).toEqual(expected);
+  });
+
+  it.each([
+    "A few sprigs thyme",
+    "a couple of eggs",
+    "a handful of spinach",
+    "a pinch of salt",
+    "en nypa salt",
+  ])("gives %s, a vague amount, no quantity", (line) => {
+    expect(parsed(line)).toMatchObject({ quantityMin: null, name: line });
+  });
+});
+
+describe("scaleParsedIngredient", () => {
+  it.each([
+    ["2-3 cloves garlic, minced", 2, "4–6 cloves garlic, minced"],
+    ["1 1/2 cups flour", 0.5, "¾ cup flour"],
+    ["¾ tsp salt", 2, "1½ tsp salt"],
+    ["1,5 kg potatis", 2, "3 kg potatis"],
+    ["2 msk smör", 0.5, "1 msk smör"],
+    ["an onion, diced", 0.5, "½ onion, diced"],
+    ["a 400 g can chopped tomatoes", 2, "2 cans chopped tomatoes, 400 g"],
+    ["juice of 1 lemon", 2, "juice of 2 lemon"],
+    ["Salt, to taste", 2, "Salt, to taste"],
+    ["A few sprigs thyme", 2, "A few sprigs thyme"],
+    ["a pinch of salt", 3, "a pinch of salt"],
+  ])("scales %s by %d", (line, factor, expected) => {
+    expect(scaled(line, factor)).toBe(expected);
+  });
+
+  it("returns the line as written at the original size", () => {
+    expect(scaled("2 to 3 tbsp olive oil", 1)).toBe("2 to 3 tbsp olive oil");
+  });
+});
+
+function combine(...lines: string[]): string[] {
+  return combineIngredients(lines.map(parseIngredientLine));
+}
+
+describe("combineIngredients", () => {
+  it("adds up quantities of the same name and unit", () => {
+    expect(combine("100 g butter", "50 g butter, melted")).toEqual([
+      "150 g butter",
+    ]);
+  });
+
+  it("keeps different units apart", () => {
+    expect(combine("1 cup milk", "100 ml milk")).toHaveLength(2);
+  });
+
+  it("keeps a line without a quantity beside a counted one", () => {
+    expect(combine("2 eggs", "eggs")).toEqual(["2 eggs", "eggs"]);
+    expect(combine("eggs", "2 eggs", "1 egg yolk")).toEqual([
+      "eggs",
+      "2 eggs",
+      "1 egg yolk",
+    ]);
+  });
+
+  it("merges repeated lines without a quantity", () => {
+    expect(combine("Salt, to taste", "salt")).toEqual(["Salt"]);
+  });
+});
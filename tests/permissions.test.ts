@@ -0,0 +1,343 @@
+import { and, eq } from "drizzle-orm";
+import { describe, expect, it, vi } from "vitest";
+import {
+  pullUpstreamAction,
+  replaceRecipeImageAction,
+  restoreRevisionAction,
+  setHouseholdRecipeAction,
+  updateRecipeAction,
+  updateRecipeTagsAction,
+  updateRecipeVisibilityAction,
+} from "../app/actions";
+import { db } from "../db";
+import {
+  householdMembers,
+  householdRecipes,
+  households,
+  recipeRevisions,
+  recipes,
+  userRecipes,
+} from "../db/schema";
+import { recipeVersion } from "../lib/forks";
+import type { RecipeVisibility } from "../lib/visibility";
+
+vi.mock("../db", async () => ({
+  db: await (await import("./helpers/db")).createTestDb(),
+}));
+
+const session = vi.hoisted(() => ({ userId: null as string | null }));
+
+vi.mock("../lib/auth/server", () => ({
+  auth: {
+    getSession: async () => ({
+      data: session.userId
+        ? {
+            user: {
+              id: session.userId,
+              name: session.userId,
+              email: `${session.userId}@example.com`,
+            },
+          }
+        : null,
+    }),
+  },
+}));
+
+vi.mock("../lib/r2", () => ({
+  uploadToR2: async (key: string) => `https://images.example.com/${key}`,
+}));
+
+const CREATOR = "creator";
+const SAVER = "saver";
+const MEMBER = "member";
+const STRANGER = "stranger";
+
+type Recipe = { id: string; revisionId: string };
+
+/**
+ * A recipe added by CREATOR and saved by SAVER, with one revision, in a
+ * household CREATOR shares with MEMBER.
+ */
+async function seedRecipe(visibility: RecipeVisibility): Promise<Recipe> {
+  const [recipe] = await db
+    .insert(recipes)
+    .values({
+      title: "Pancakes",
+      sourceUrl: "https://example.com/pancakes",
+      rawCaption: "",
+      tags: ["breakfast"],
+      createdBy: CREATOR,
+      createdById: CREATOR,
+      visibility,
+      updatedAt: new Date("2026-01-01"),
+    })
+    .returning({ id: recipes.id });
+  const [revision] = await db
+    .insert(recipeRevisions)
+    .values({
+      recipeId: recipe.id,
+      summary: "Added",
+      authorId: CREATOR,
+      snapshot: {
+        title: "Crêpes",
+        description: null,
+        servings: null,
+        prepMinutes: null,
+        cookMinutes: null,
+        restMinutes: null,
+        totalMinutes: null,
+        tags: [],
+        images: [],
+        ingredients: [{ text: "2 eggs", section: null }],
+        instructions: [{ content: "Whisk.", section: null }],
+      },
+    })
+    .returning({ id: recipeRevisions.id });
+  await db.insert(userRecipes).values({ userId: SAVER, recipeId: recipe.id });
+
+  const [household] = await db
+    .insert(households)
+    .values({ name: "Home" })
+    .returning({ id: households.id });
+  await db.insert(householdMembers).values([
+    { householdId: household.id, userId: CREATOR, role: "owner" },
+    { householdId: household.id, userId: MEMBER },
+  ]);
+  await db
+    .insert(householdRecipes)
+    .values({ householdId: household.id, recipeId: recipe.id });
+
+  return { id: recipe.id, revisionId: revision.id };
+}
+
+function imageForm(): FormData {
+  const form = new FormData();
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+  form.set("image", new File([jpeg], "cover.jpg", { type: "image/jpeg" }));
+  return form;
+}
+
+type MutationResult = {
+  success: boolean;
+  reason?: string;
+  recipeId?: string;
+};
+
+const mutations: {
+  name: string;
+  run: (recipe: Recipe) => Promise<MutationResult>;
+  /** Whether a saver's change goes to their own version. */
+  forksForSaver: boolean;
+}[] = [
+  {
+    name: "updateRecipeTagsAction",
+    run: ({ id }) => updateRecipeTagsAction(id, ["quick"]),
+    forksForSaver: true,
+  },
+  {
+    name: "updateRecipeAction",
+    run: ({ id }) =>
+      updateRecipeAction(id, {
+        title: "Better pancakes",
+        description: "",
+        servings: "",
+        prepMinutes: null,
+        cookMinutes: null,
+        restMinutes: null,
+        totalMinutes: null,
+        ingredients: [{ kind: "item", text: "3 eggs" }],
+        instructions: [{ kind: "item", text: "Whisk well." }],
+      }),
+    forksForSaver: true,
+  },
+  {
+    name: "replaceRecipeImageAction",
+    run: ({ id }) => replaceRecipeImageAction(id, imageForm()),
+    forksForSaver: true,
+  },
+  {
+    name: "restoreRevisionAction",
+    run: ({ id, revisionId }) => restoreRevisionAction(id, revisionId),
+    forksForSaver: true,
+  },
+  {
+    name: "updateRecipeVisibilityAction",
+    run: ({ id }) => updateRecipeVisibilityAction(id, "private"),
+    forksForSaver: false,
+  },
+  {
+    name: "pullUpstreamAction",
+    run: ({ id }) => pullUpstreamAction(id),
+    forksForSaver: false,
+  },
+];
+
+function as(userId: string | null) {
+  session.userId = userId;
+}
+
+async function recipeRow(id: string) {
+  return db.query.recipes.findFirst({ where: eq(recipes.id, id) });
+}
+
+async function forksOf(id: string, userId: string) {
+  return db.query.recipes.findMany({
+    where: and(eq(recipes.forkedFromId, id), eq(recipes.createdById, userId)),
+  });
+}
+
+describe.each(mutations)("$name", ({ run, forksForSaver }) => {
+  it("rejects callers who aren't signed in", async () => {
+    const recipe = await seedRecipe("public");
+    as(null);
+    expect(await run(recipe)).toMatchObject({
+      success: false,
+      reason: "unauthenticated",
+    });
+  });
+
+  it("rejects a stranger and leaves the recipe alone", async () => {
+    const recipe = await seedRecipe("public");
+    const before = await recipeRow(recipe.id);
+    as(STRANGER);
+    expect(await run(recipe)).toMatchObject({
+      success: false,
+      reason: "forbidden",
+    });
+    expect(await recipeRow(recipe.id)).toEqual(before);
+    expect(await forksOf(recipe.id, STRANGER)).toEqual([]);
+  });
+
+  it("rejects a household member who didn't add the recipe", async () => {
+    const recipe = await seedRecipe("household");
+    const before = await recipeRow(recipe.id);
+    as(MEMBER);
+    expect(await run(recipe)).toMatchObject({
+      success: false,
+      reason: "forbidden",
+    });
+    expect(await recipeRow(recipe.id)).toEqual(before);
+    expect(await forksOf(recipe.id, MEMBER)).toEqual([]);
+  });
+
+  it("reports a recipe the caller can't see as missing", async () => {
+    const recipe = await seedRecipe("private");
+    as(STRANGER);
+    expect(await run(recipe)).toMatchObject({
+      success: false,
+      reason: "not_found",
+    });
+  });
+
+  if (forksForSaver) {
+    it("writes a saver's change to their own version", async () => {
+      const recipe = await seedRecipe("public");
+      const before = await recipeRow(recipe.id);
+      as(SAVER);
+      const result = await run(recipe);
+      const forks = await forksOf(recipe.id, SAVER);
+      expect(forks).toHaveLength(1);
+      expect(result).toEqual({ success: true, recipeId: forks[0].id });
+      expect(await recipeRow(recipe.id)).toEqual(before);
+    });
+  } else {
+    it("turns a saver away without making them a version", async () => {
+      const recipe = await seedRecipe("public");
+      const before = await recipeRow(recipe.id);
+      as(SAVER);
+      expect(await run(recipe)).toMatchObject({ success: false });
+      expect(await recipeRow(recipe.id)).toEqual(before);
+      expect(await forksOf(recipe.id, SAVER)).toEqual([]);
+    });
+  }
+});
+
+describe("restoreRevisionAction", () => {
+  it("makes no version for a saver when the revision doesn't exist", async () => {
+    const recipe = await seedRecipe("public");
+    as(SAVER);
+    const result = await restoreRevisionAction(
+      recipe.id,
+      "00000000-0000-4000-8000-000000000000",
+    );
+    expect(result).toEqual({ success: false, error: "Revision not found." });
+    expect(await forksOf(recipe.id, SAVER)).toEqual([]);
+  });
+});
+
+describe("updateRecipeTagsAction", () => {
+  it("changes the creator's recipe in place", async () => {
+    const recipe = await seedRecipe("public");
+    as(CREATOR);
+    expect(await updateRecipeTagsAction(recipe.id, ["quick"])).toEqual({
+      success: true,
+      recipeId: recipe.id,
+    });
+    expect((await recipeRow(recipe.id))?.tags).toEqual(["quick"]);
+  });
+});
+
+describe("pullUpstreamAction", () => {
+  it("copies nothing from an original the saver can no longer see", async () => {
+    const recipe = await seedRecipe("public");
+    as(SAVER);
+    await updateRecipeTagsAction(recipe.id, ["mine"]);
+    const [fork] = await forksOf(recipe.id, SAVER);
+
+    await db
+      .update(recipes)
+      .set({
+        title: "Secret pancakes",
+        visibility: "private",
+        updatedAt: new Date(),
+      })
+      .where(eq(recipes.id, recipe.id));
+    expect(await pullUpstreamAction(fork.id)).toMatchObject({
+      success: false,
+      reason: "not_found",
+    });
+    expect((await recipeRow(fork.id))?.title).toBe("Pancakes");
+    expect(await recipeVersion(fork, SAVER)).toMatchObject({
+      kind: "fork",
+      upstreamChanged: false,
+    });
+  });
+});
+
+describe("setHouseholdRecipeAction", () => {
+  /** A second household MEMBER is in, with someone CREATOR doesn't know. */
+  async function otherHousehold(): Promise<string> {
+    const [household] = await db
+      .insert(households)
+      .values({ name: "Flat" })
+      .returning({ id: households.id });
+    await db.insert(householdMembers).values([
+      { householdId: household.id, userId: MEMBER, role: "owner" },
+      { householdId: household.id, userId: "flatmate" },
+    ]);
+    return household.id;
+  }
+
+  it("keeps a household recipe out of its creator's other households", async () => {
+    const recipe = await seedRecipe("household");
+    const flat = await otherHousehold();
+    as(MEMBER);
+    expect(await setHouseholdRecipeAction(flat, recipe.id, true)).toEqual({
+      success: false,
+      error: "Only whoever added this recipe can put it in another household.",
+    });
+    as("flatmate");
+    expect(await updateRecipeTagsAction(recipe.id, ["quick"])).toMatchObject({
+      reason: "not_found",
+    });
+  });
+
+  it("lets members put public recipes in any of their households", async () => {
+    const recipe = await seedRecipe("public");
+    const flat = await otherHousehold();
+    as(MEMBER);
+    expect(await setHouseholdRecipeAction(flat, recipe.id, true)).toEqual({
+      success: true,
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseRecipeListParams,
+  recipesQuery,
+  searchParamsOf,
+} from "../lib/recipe-list-params";
+
+function parseQuery(query: string) {
+  return parseRecipeListParams(searchParamsOf(query));
+}
+
+describe("searchParamsOf", () => {
+  it("reads back what recipesQuery wrote", () => {
+    const params = parseQuery(
+      "household=h1&q=soup&sort=title&tag=vegan&tag=quick&time=30",
+    );
+    expect(parseQuery(recipesQuery(params))).toEqual(params);
+    expect(params).toMatchObject({
+      household: "h1",
+      q: "soup",
+      sort: "title",
+      tags: ["vegan", "quick"],
+      maxMinutes: 30,
+    });
+  });
+
+  it("falls back to defaults for values it doesn't know", () => {
+    expect(parseQuery("sort=drop+table&time=-5&filter=x")).toMatchObject({
+      mine: false,
+      sort: "newest",
+      maxMinutes: null,
+    });
+  });
+});
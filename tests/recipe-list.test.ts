@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { db } from "../db";
+import { recipeImages, recipes } from "../db/schema";
+import { PAGE_SIZE, queryRecipeList } from "../lib/recipe-list";
+import { parseRecipeListParams } from "../lib/recipe-list-params";
+
+vi.mock("../db", async () => ({
+  db: await (await import("./helpers/db")).createTestDb(),
+}));
+
+vi.mock("../lib/auth/server", () => ({
+  auth: { getSession: async () => ({ data: null }) },
+}));
+
+const all = parseRecipeListParams({});
+
+function cursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("queryRecipeList", () => {
+  it("uses each recipe's first image as its thumbnail", async () => {
+    const [withImages, without] = await db
+      .insert(recipes)
+      .values([
+        {
+          title: "Soup",
+          sourceUrl: "https://example.com/soup",
+          rawCaption: "",
+          visibility: "public" as const,
+        },
+        {
+          title: "Salad",
+          sourceUrl: "https://example.com/salad",
+          rawCaption: "",
+          visibility: "public" as const,
+        },
+      ])
+      .returning({ id: recipes.id });
+    await db.insert(recipeImages).values([
+      {
+        recipeId: withImages.id,
+        url: "https://img.example/2.jpg",
+        orderIndex: 1,
+      },
+      {
+        recipeId: withImages.id,
+        url: "https://img.example/1.jpg",
+        orderIndex: 0,
+      },
+    ]);
+
+    const { items } = await queryRecipeList(all, undefined);
+    const thumbnails = new Map(items.map((item) => [item.id, item.imageUrl]));
+    expect(thumbnails.get(withImages.id)).toBe("https://img.example/1.jpg");
+    expect(thumbnails.get(without.id)).toBeNull();
+  });
+
+  it("pages through every recipe with the cursor it hands out", async () => {
+    await db.insert(recipes).values(
+      Array.from({ length: PAGE_SIZE + 5 }, (_, i) => ({
+        title: `Recipe ${i}`,
+        sourceUrl: `https://example.com/${i}`,
+        rawCaption: "",
+        visibility: "public" as const,
+      })),
+    );
+    const first = await queryRecipeList(all, undefined);
+    expect(first.nextCursor).not.toBeNull();
+    const second = await queryRecipeList(all, undefined, first.nextCursor);
+    const ids = [...first.items, ...second.items].map((item) => item.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it.each([
+    ["not base64 JSON", "%%%"],
+    ["a malformed id", cursor({ v: "2026-01-01 00:00:00", id: "1; drop" })],
+    ["a malformed date", cursor({ v: "yesterday", id: crypto.randomUUID() })],
+    [
+      "an impossible date",
+      cursor({ v: "2026-02-30 00:00:00", id: crypto.randomUUID() }),
+    ],
+    ["an offset for a keyset sort", cursor({ offset: 24 })],
+  ])("starts from the top given %s", async (_, value) => {
+    const top = await queryRecipeList(all, undefined);
+    expect(await queryRecipeList(all, undefined, value)).toEqual(top);
+  });
+});
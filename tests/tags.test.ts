@@ -0,0 +1,96 @@
+import { asc, eq } from "drizzle-orm";
+import { describe, expect, it, vi } from "vitest";
+import { db } from "../db";
+import { recipeRevisions, recipes, tagAliases, tagParents } from "../db/schema";
+import { mergeTags } from "../lib/tags";
+
+vi.mock("../db", async () => ({
+  db: await (await import("./helpers/db")).createTestDb(),
+}));
+
+const ADMIN = { id: "admin", name: "Admin" };
+
+async function seedRecipe(tags: string[]): Promise<string> {
+  const [recipe] = await db
+    .insert(recipes)
+    .values({
+      title: "Salad",
+      sourceUrl: `https://example.com/${tags.join("-")}`,
+      rawCaption: "",
+      tags,
+    })
+    .returning({ id: recipes.id });
+  return recipe.id;
+}
+
+async function tagsOf(id: string) {
+  const recipe = await db.query.recipes.findFirst({
+    columns: { tags: true },
+    where: eq(recipes.id, id),
+  });
+  return recipe?.tags;
+}
+
+describe("mergeTags", () => {
+  it("moves recipes, aliases and nesting onto the target", async () => {
+    const veggie = await seedRecipe(["Veggie", "dinner", "vegetarian"]);
+    const vegetarian = await seedRecipe(["vegetarian"]);
+    const untouched = await seedRecipe(["dessert"]);
+    await db.insert(tagAliases).values({ alias: "veg", tag: "Veggie" });
+    await db.insert(tagParents).values([
+      { tag: "veggie", parent: "diet" },
+      { tag: "leafy", parent: "veggie" },
+    ]);
+
+    expect(await mergeTags(["Veggie", "vegetarian"], "Vegetarian", ADMIN)).toBe(
+      2,
+    );
+
+    expect(await tagsOf(veggie)).toEqual(["Vegetarian", "dinner"]);
+    expect(await tagsOf(vegetarian)).toEqual(["Vegetarian"]);
+    expect(await tagsOf(untouched)).toEqual(["dessert"]);
+    expect(
+      await db
+        .select({ alias: tagAliases.alias, tag: tagAliases.tag })
+        .from(tagAliases)
+        .orderBy(asc(tagAliases.alias)),
+    ).toEqual([
+      { alias: "veg", tag: "Vegetarian" },
+      { alias: "veggie", tag: "Vegetarian" },
+    ]);
+    expect(
+      await db
+        .select({ tag: tagParents.tag, parent: tagParents.parent })
+        .from(tagParents)
+        .orderBy(asc(tagParents.tag)),
+    ).toEqual([
+      { tag: "leafy", parent: "vegetarian" },
+      { tag: "vegetarian", parent: "diet" },
+    ]);
+
+    const history = await db
+      .select({ summary: recipeRevisions.summary })
+      .from(recipeRevisions)
+      .where(eq(recipeRevisions.recipeId, veggie))
+      .orderBy(asc(recipeRevisions.createdAt));
+    expect(history.map((r) => r.summary)).toEqual([
+      "Added",
+      "Merged tags into Vegetarian",
+    ]);
+  });
+
+  it("drops the target's alias and any nesting under itself", async () => {
+    await seedRecipe(["pasta"]);
+    await db.insert(tagAliases).values({ alias: "noodles", tag: "pasta" });
+    await db.insert(tagParents).values({ tag: "pasta", parent: "noodles" });
+
+    await mergeTags(["pasta"], "Noodles", ADMIN);
+
+    expect(
+      await db.select().from(tagAliases).where(eq(tagAliases.alias, "noodles")),
+    ).toEqual([]);
+    expect(
+      await db.select().from(tagParents).where(eq(tagParents.tag, "noodles")),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "../app/api/tiktok/route";
+import { runExtractors } from "../lib/extractors";
+
+const SESSION_COOKIE = "session=signed-in";
+
+const incoming = vi.hoisted(() => ({ cookie: null as string | null }));
+const route = vi.hoisted(() => ({ cookie: null as string | null }));
+
+vi.mock("next/headers", () => ({
+  headers: async () =>
+    new Headers({
+      host: "recipes.example",
+      ...(incoming.cookie ? { cookie: incoming.cookie } : {}),
+    }),
+}));
+
+// Stands in for the session lookup, which reads the route's own cookies
+vi.mock("../lib/auth/server", () => ({
+  auth: {
+    getSession: async () => ({
+      data:
+        route.cookie === SESSION_COOKIE
+          ? { user: { id: "cook", name: "Cook", email: "cook@example.com" } }
+          : null,
+    }),
+  },
+}));
+
+vi.mock("../lib/tiktok", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/tiktok")>()),
+  extractTikTokPost: async () => ({
+    caption:
+      "Garlic noodles\nIngredients:\n200g egg noodles\n4 cloves garlic\nInstructions:\nBoil the noodles.\nFry the garlic.",
+    imageData: Buffer.from("cover"),
+  }),
+}));
+
+const VIDEO = "https://www.tiktok.com/@cook/video/7234567890123456789";
+
+const fetchRoute = vi.fn(async (input: string | URL, init?: RequestInit) => {
+  const request = new Request(input, init);
+  route.cookie = request.headers.get("cookie");
+  return POST(request);
+});
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchRoute);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  fetchRoute.mockClear();
+  incoming.cookie = null;
+});
+
+describe("runExtractors with a TikTok link", () => {
+  it("imports through /api/tiktok as the signed-in user", async () => {
+    incoming.cookie = SESSION_COOKIE;
+    const run = await runExtractors(VIDEO);
+
+    expect(fetchRoute).toHaveBeenCalledWith(
+      "https://recipes.example/api/tiktok",
+      expect.anything(),
+    );
+    expect(run?.extractor).toBe("tiktok");
+    expect(run?.result.recipe.ingredients).toEqual([
+      "200g egg noodles",
+      "4 cloves garlic",
+    ]);
+    expect(run?.result.media).toEqual([Buffer.from("cover")]);
+  });
+
+  it("reports the route turning away a caller who isn't signed in", async () => {
+    await expect(runExtractors(VIDEO)).rejects.toThrow(
+      "You must be signed in.",
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  getTikTokVideoId,
+  isTikTokUrl,
+  parseTikTokEmbedHtml,
+  parseTikTokOEmbed,
+} from "../lib/tiktok";
+
+function fixture(name: string): string {
+  return readFileSync(
+    new URL(`./fixtures/tiktok/${name}`, import.meta.url),
+    "utf8",
+  );
+}
+
+describe("parseTikTokEmbedHtml", () => {
+  it("reads caption and original cover from the rehydration state", () => {
+    const embed = parseTikTokEmbedHtml(fixture("embed-rehydration.html"));
+    expect(embed.caption).toMatch(
+      /^Crispy garlic noodles 🍜\n200g egg noodles/,
+    );
+    expect(embed.caption).toMatch(/#easyrecipe$/);
+    expect(embed.coverUrl).toBe(
+      "https://p16-sign-va.tiktokcdn.com/obj/cover-origin.jpeg",
+    );
+  });
+
+  it("takes covers kept beside the video in older embeds", () => {
+    expect(parseTikTokEmbedHtml(fixture("embed-item-infos.html"))).toEqual({
+      caption: "One-pan lemon orzo 🍋 #dinner",
+      coverUrl: "https://p16-sign-va.tiktokcdn.com/obj/orzo-cover.jpeg",
+    });
+  });
+
+  it("falls back to the page markup without hydration state", () => {
+    expect(parseTikTokEmbedHtml(fixture("embed-dom.html"))).toEqual({
+      caption:
+        "3 ripe bananas, 250g flour, 1 tsp baking soda. Bake 55 min at 175°C",
+      coverUrl: "https://p16-sign-va.tiktokcdn.com/obj/banana-og.jpeg",
+    });
+  });
+
+  it("finds nothing in an unrelated page", () => {
+    expect(parseTikTokEmbedHtml("<html><body></body></html>")).toEqual({
+      caption: null,
+      coverUrl: null,
+    });
+  });
+});
+
+describe("parseTikTokOEmbed", () => {
+  it("maps title and thumbnail", () => {
+    expect(parseTikTokOEmbed(JSON.parse(fixture("oembed.json")))).toEqual({
+      caption: "Crispy garlic noodles 🍜 #noodles",
+      coverUrl: "https://p16-sign-va.tiktokcdn.com/obj/oembed-thumb.jpeg",
+    });
+  });
+
+  it("tolerates missing fields and non-objects", () => {
+    const empty = { caption: null, coverUrl: null };
+    expect(parseTikTokOEmbed({ title: "   " })).toEqual(empty);
+    expect(parseTikTokOEmbed(null)).toEqual(empty);
+    expect(parseTikTokOEmbed("nope")).toEqual(empty);
+  });
+});
+
+describe("TikTok URLs", () => {
+  it("accepts tiktok.com hosts only", () => {
+    expect(isTikTokUrl("https://vm.tiktok.com/ZMabc123/")).toBe(true);
+    expect(isTikTokUrl("https://www.tiktok.com/@a/video/1")).toBe(true);
+    expect(isTikTokUrl("https://nottiktok.com/@a/video/1")).toBe(false);
+    expect(isTikTokUrl("not a url")).toBe(false);
+  });
+
+  it("reads the video id from video and embed links", () => {
+    expect(
+      getTikTokVideoId(
+        "https://www.tiktok.com/@noodlecook/video/7312345678901234567?lang=en",
+      ),
+    ).toBe("7312345678901234567");
+    expect(
+      getTikTokVideoId("https://www.tiktok.com/embed/v2/7298765432109876543"),
+    ).toBe("7298765432109876543");
+    expect(getTikTokVideoId("https://vm.tiktok.com/ZMabc123/")).toBeNull();
+  });
+});